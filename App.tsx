@@ -1,4 +1,4 @@
-import React, { useState } from 'react';
+import React, { useState, useEffect, useRef } from 'react';
 import { Header } from './components/Header';
 import { Sidebar } from './components/Sidebar';
 import { ModelSelector } from './components/ModelSelector';
@@ -6,9 +6,31 @@ import { EssayEditor } from './components/EssayEditor';
 import { AnalysisResult } from './components/AnalysisResult';
 import { SpeakingPractice } from './components/SpeakingPractice';
 import { Translator } from './components/Translator';
-import { GeminiModel, EssayAnalysis, AppMode } from './types';
-import { analyzeEssay } from './services/geminiService';
-import { Wand2, AlertTriangle } from 'lucide-react';
+import { HistoryView } from './components/HistoryView';
+import { ErrorNotebook } from './components/ErrorNotebook';
+import { PracticeMode } from './components/PracticeMode';
+import { FlashcardDecks } from './components/FlashcardDecks';
+import { TaskPromptPicker } from './components/TaskPromptPicker';
+import { ExamTimer } from './components/ExamTimer';
+import { ReportExportMenu } from './components/ReportExportMenu';
+import { GeminiModel, EssayAnalysis, AppMode, WritingTask, WritingTaskType, ExamResult, WRITING_TASK_LIMITS } from './types';
+import { analyzeEssay } from './services/aiService';
+import { saveSubmission } from './services/historyStore';
+import { addSubmissionToNotebook } from './services/errorNotebook';
+import { countWords, lengthPenaltyFor, applyExamResult } from './services/ieltsScoring';
+import { AIServiceError, QuotaExceededError, isAbortError } from './services/aiErrors';
+import { Wand2, AlertTriangle, Timer, X } from 'lucide-react';
+
+// Fill the fields that have not streamed in yet so the result views can render early
+const toPreviewAnalysis = (partial: Partial<EssayAnalysis>): EssayAnalysis => ({
+  cefrLevel: '',
+  ieltsScore: '',
+  estimatedScore: NaN,
+  generalFeedback: '',
+  correctedEssay: '',
+  ...partial,
+  corrections: partial.corrections ?? [],
+});
 
 const App: React.FC = () => {
   const [mode, setMode] = useState<AppMode>('writing');
@@ -16,33 +38,142 @@ const App: React.FC = () => {
   
   // Writing Mode State
   const [essayText, setEssayText] = useState('');
+  const [task, setTask] = useState<WritingTask | null>(null);
   const [isAnalyzing, setIsAnalyzing] = useState(false);
   const [analysis, setAnalysis] = useState<EssayAnalysis | null>(null);
+  const [streamingAnalysis, setStreamingAnalysis] = useState<Partial<EssayAnalysis> | null>(null);
   const [error, setError] = useState<string | null>(null);
+  // Snapshots taken before each accept/reject so the review can be undone step by step
+  const [reviewHistory, setReviewHistory] = useState<{ text: string; analysis: EssayAnalysis }[]>([]);
+  const analysisAbortRef = useRef<AbortController | null>(null);
+
+  // Timed Exam State
+  const [exam, setExam] = useState<{ taskType: WritingTaskType; startedAt: number } | null>(null);
+  const [now, setNow] = useState(() => Date.now());
 
-  const handleAnalyzeEssay = async () => {
-    if (!essayText.trim()) return;
+  const examLimits = exam ? WRITING_TASK_LIMITS[exam.taskType] : null;
+  const examRemainingSeconds = exam && examLimits ? examLimits.minutes * 60 - (now - exam.startedAt) / 1000 : 0;
+
+  const handleAnalyzeEssay = async (autoSubmitted = false) => {
+    // Freeze the exam record at submission time; the timer stops here
+    let examResult: ExamResult | null = null;
+    if (exam && examLimits) {
+      const wordCount = countWords(essayText);
+      examResult = {
+        taskType: exam.taskType,
+        timeLimitSeconds: examLimits.minutes * 60,
+        elapsedSeconds: Math.min(examLimits.minutes * 60, Math.round((Date.now() - exam.startedAt) / 1000)),
+        wordCount,
+        minWords: examLimits.minWords,
+        autoSubmitted,
+        lengthPenalty: lengthPenaltyFor(wordCount, examLimits.minWords),
+      };
+      setExam(null);
+    }
+
+    if (!essayText.trim()) {
+      if (examResult) setError("Time is up, but no essay was written.");
+      return;
+    }
     
     setIsAnalyzing(true);
     setError(null);
     setAnalysis(null);
+    setStreamingAnalysis(null);
+    setReviewHistory([]);
+
+    const controller = new AbortController();
+    analysisAbortRef.current = controller;
 
     try {
-      const result = await analyzeEssay(essayText, model);
+      const analysed = await analyzeEssay(essayText, model, {
+        task: task ?? undefined,
+        onProgress: (partial) => setStreamingAnalysis(partial),
+        signal: controller.signal,
+      });
+      const result = examResult ? applyExamResult(analysed, examResult) : analysed;
       setAnalysis(result);
+      saveSubmission({ mode: 'writing', text: essayText, model, task: task ?? undefined, createdAt: Date.now(), analysis: result })
+        .then(addSubmissionToNotebook)
+        .catch(err => console.error("Failed to save submission", err));
     } catch (err) {
-      setError("Failed to analyze essay. Please check your text or try a different model.");
+      // Cancelled by the user: just return to the editor
+      if (isAbortError(err)) return;
+      if (err instanceof QuotaExceededError) {
+        setError(err.message);
+      } else {
+        setError(err instanceof AIServiceError
+          ? `${err.message} Please try again or use a different model.`
+          : "Failed to analyze essay. Please check your text or try a different model.");
+      }
       console.error(err);
     } finally {
+      analysisAbortRef.current = null;
+      setStreamingAnalysis(null);
       setIsAnalyzing(false);
     }
   };
 
+  const cancelAnalysis = () => analysisAbortRef.current?.abort();
+
+  // Don't leave a request running after the app unmounts
+  useEffect(() => () => analysisAbortRef.current?.abort(), []);
+
+  const displayedAnalysis = analysis ?? (streamingAnalysis ? toPreviewAnalysis(streamingAnalysis) : null);
+
+  const startExam = () => {
+    if (essayText.trim() && !confirm("Starting a timed exam clears the current essay. Continue?")) return;
+    setEssayText('');
+    setAnalysis(null);
+    setReviewHistory([]);
+    setError(null);
+    setNow(Date.now());
+    setExam({ taskType: task?.type ?? 'task2', startedAt: Date.now() });
+  };
+
+  const abandonExam = () => {
+    if (!confirm("Abandon the exam? Your essay will be kept but not submitted.")) return;
+    setExam(null);
+  };
+
+  // Exam countdown
+  useEffect(() => {
+    if (!exam) return;
+    const timer = setInterval(() => setNow(Date.now()), 1000);
+    return () => clearInterval(timer);
+  }, [exam]);
+
+  // Auto-submit when the countdown reaches zero
+  useEffect(() => {
+    if (exam && examRemainingSeconds <= 0 && !isAnalyzing) {
+      handleAnalyzeEssay(true);
+    }
+  }, [exam, examRemainingSeconds, isAnalyzing]);
+
+  const handleReviewCorrections = (nextText: string, nextAnalysis: EssayAnalysis) => {
+    if (!analysis) return;
+    setReviewHistory(prev => [...prev, { text: essayText, analysis }]);
+    setEssayText(nextText);
+    setAnalysis(nextAnalysis);
+  };
+
+  const handleUndoReview = () => {
+    const previous = reviewHistory[reviewHistory.length - 1];
+    if (!previous) return;
+    setReviewHistory(prev => prev.slice(0, -1));
+    setEssayText(previous.text);
+    setAnalysis(previous.analysis);
+  };
+
   const getPageTitle = () => {
       switch(mode) {
           case 'writing': return 'Essay Checker';
           case 'speaking': return 'Speaking Practice';
           case 'translator': return 'Smart Translator';
+          case 'history': return 'Progress History';
+          case 'notebook': return 'Error Notebook';
+          case 'practice': return 'Practice';
+          case 'flashcards': return 'Flashcards';
       }
   };
 
@@ -51,6 +182,10 @@ const App: React.FC = () => {
           case 'writing': return 'Improve your writing with AI-powered analysis';
           case 'speaking': return 'Simulate an IELTS speaking test with AI';
           case 'translator': return 'Contextual translation with definitions and synonyms';
+          case 'history': return 'Track your scores across all past submissions';
+          case 'notebook': return 'Your recurring mistakes from writing and speaking';
+          case 'practice': return 'Exercises built from your own mistakes';
+          case 'flashcards': return 'Review saved vocabulary with spaced repetition';
       }
   };
 
@@ -59,7 +194,7 @@ const App: React.FC = () => {
       <Header />
       
       <div className="flex flex-1 min-h-0">
-          <Sidebar currentMode={mode} onModeChange={setMode} disabled={isAnalyzing} />
+          <Sidebar currentMode={mode} onModeChange={setMode} disabled={isAnalyzing || Boolean(exam)} />
 
           <main className="flex-1 min-w-0 p-4 sm:p-6 overflow-y-auto">
             <div className="max-w-7xl mx-auto h-full flex flex-col">
@@ -72,12 +207,26 @@ const App: React.FC = () => {
                     </div>
                     
                     <div className="flex items-center gap-3">
-                        <ModelSelector selectedModel={model} onSelect={setModel} disabled={isAnalyzing} />
+                        <ModelSelector selectedModel={model} onSelect={setModel} disabled={isAnalyzing || Boolean(exam)} />
                         
-                        {/* Writing Mode Specific Action Button */}
+                        {/* Writing Mode Specific Action Buttons */}
+                        {mode === 'writing' && analysis && !isAnalyzing && (
+                            <ReportExportMenu source={{ mode: 'writing', text: essayText, analysis, model, task: task ?? undefined }} />
+                        )}
+                        {mode === 'writing' && !exam && (
+                            <button
+                                onClick={startExam}
+                                disabled={isAnalyzing}
+                                className="flex items-center gap-2 bg-white hover:bg-slate-50 disabled:opacity-50 text-slate-700 px-4 py-2.5 rounded-lg font-medium border border-slate-200 shadow-sm transition-all active:scale-95"
+                                title={`Timed exam for ${task ? 'the selected task' : 'Task 2'}`}
+                            >
+                                <Timer size={18} />
+                                <span>Timed Exam</span>
+                            </button>
+                        )}
                         {mode === 'writing' && (
                             <button
-                                onClick={handleAnalyzeEssay}
+                                onClick={() => handleAnalyzeEssay()}
                                 disabled={isAnalyzing || !essayText.trim()}
                                 className="flex items-center gap-2 bg-blue-600 hover:bg-blue-700 disabled:bg-blue-300 text-white px-5 py-2.5 rounded-lg font-medium shadow-md shadow-blue-600/20 transition-all active:scale-95"
                             >
@@ -89,11 +238,20 @@ const App: React.FC = () => {
                                 ) : (
                                     <>
                                         <Wand2 size={18} />
-                                        <span>Check Essay</span>
+                                        <span>{exam ? 'Submit Exam' : 'Check Essay'}</span>
                                     </>
                                 )}
                             </button>
                         )}
+                        {mode === 'writing' && isAnalyzing && (
+                            <button
+                                onClick={cancelAnalysis}
+                                className="flex items-center gap-2 bg-white hover:bg-red-50 text-slate-700 hover:text-red-600 px-4 py-2.5 rounded-lg font-medium border border-slate-200 shadow-sm transition-all active:scale-95"
+                            >
+                                <X size={18} />
+                                <span>Cancel</span>
+                            </button>
+                        )}
                     </div>
                 </div>
 
@@ -106,6 +264,22 @@ const App: React.FC = () => {
                             </div>
                         )}
 
+                        <div className="mb-6 shrink-0">
+                            <TaskPromptPicker task={task} onChange={setTask} disabled={isAnalyzing || Boolean(exam)} />
+                        </div>
+
+                        {exam && examLimits && (
+                            <div className="mb-6 shrink-0">
+                                <ExamTimer
+                                    taskType={exam.taskType}
+                                    remainingSeconds={examRemainingSeconds}
+                                    wordCount={countWords(essayText)}
+                                    minWords={examLimits.minWords}
+                                    onAbandon={abandonExam}
+                                />
+                            </div>
+                        )}
+
                         <div className="grid grid-cols-1 lg:grid-cols-2 gap-6 flex-1 min-h-[500px] resize-y overflow-hidden">
                             <div className="h-full min-h-0 flex flex-col">
                                 <EssayEditor 
@@ -113,15 +287,20 @@ const App: React.FC = () => {
                                     onChange={(val) => {
                                         setEssayText(val);
                                         if (analysis) setAnalysis(null);
+                                        setReviewHistory([]);
                                     }}
+                                    onReviewCorrections={handleReviewCorrections}
+                                    onUndoReview={handleUndoReview}
+                                    canUndoReview={reviewHistory.length > 0}
                                     disabled={isAnalyzing}
-                                    analysis={analysis}
+                                    lockImport={Boolean(exam)}
+                                    analysis={displayedAnalysis}
                                 />
                             </div>
 
                             <div className="h-full min-h-0 flex flex-col">
-                                {analysis ? (
-                                    <AnalysisResult analysis={analysis} mode="writing" />
+                                {displayedAnalysis ? (
+                                    <AnalysisResult analysis={displayedAnalysis} isStreaming={!analysis} originalText={essayText} />
                                 ) : (
                                     <div className="h-full bg-white rounded-xl border border-dashed border-slate-200 flex flex-col items-center justify-center text-slate-400 p-8 text-center shadow-sm">
                                         <div className="bg-slate-50 p-4 rounded-full mb-4 shadow-sm border border-slate-100">
@@ -150,6 +329,30 @@ const App: React.FC = () => {
                     </div>
                 )}
 
+                {mode === 'history' && (
+                    <div className="flex-1 min-h-[500px]">
+                        <HistoryView />
+                    </div>
+                )}
+
+                {mode === 'notebook' && (
+                    <div className="flex-1 min-h-[500px]">
+                        <ErrorNotebook />
+                    </div>
+                )}
+
+                {mode === 'practice' && (
+                    <div className="flex-1 min-h-[500px]">
+                        <PracticeMode />
+                    </div>
+                )}
+
+                {mode === 'flashcards' && (
+                    <div className="flex-1 min-h-[500px]">
+                        <FlashcardDecks />
+                    </div>
+                )}
+
             </div>
           </main>
       </div>
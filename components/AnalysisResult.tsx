@@ -1,13 +1,59 @@
-import React from 'react';
-import { EssayAnalysis, AppMode } from '../types';
-import { CheckCircle, AlertCircle, AlertOctagon } from 'lucide-react';
+import React, { useMemo, useState } from 'react';
+import { EssayAnalysis, WritingCriteria, WRITING_CRITERIA_LABELS, TaskRelevance, TASK_RELEVANCE_LABELS } from '../types';
+import { CheckCircle, AlertCircle, AlertOctagon, ListChecks, Target, Timer, GitCompare, HelpCircle } from 'lucide-react';
+import { formatBand } from '../services/ieltsScoring';
+import { diffWords, DiffSegment } from '../services/textDiff';
+
+const RELEVANCE_STYLES: Record<TaskRelevance['verdict'], string> = {
+  'relevant': 'bg-green-50 text-green-700 border-green-200',
+  'partially-relevant': 'bg-amber-50 text-amber-700 border-amber-200',
+  'off-topic': 'bg-red-50 text-red-700 border-red-200',
+};
+
+const formatDuration = (seconds: number) => `${Math.floor(seconds / 60)}:${String(seconds % 60).padStart(2, '0')}`;
 
 interface AnalysisResultProps {
   analysis: EssayAnalysis;
-  mode?: AppMode;
+  isStreaming?: boolean; // Fields may still be empty while the response streams in
+  originalText?: string; // The submitted text; enables the word-level diff view
 }
 
-export const AnalysisResult: React.FC<AnalysisResultProps> = ({ analysis, mode = 'writing' }) => {
+const Pending: React.FC<{ className?: string }> = ({ className = 'w-8 h-5' }) => (
+  <span className={`inline-block bg-slate-200 rounded animate-pulse align-middle ${className}`} />
+);
+
+const DiffView: React.FC<{ segments: DiffSegment[] }> = ({ segments }) => (
+  <p className="whitespace-pre-wrap font-serif text-lg leading-relaxed text-slate-900">
+    {segments.map((segment, i) => segment.kind === 'equal' ? (
+      <span key={i}>{segment.text}</span>
+    ) : (
+      <span key={i}>
+        <span
+          className={segment.explained ? '' : 'bg-amber-100 ring-1 ring-amber-300 rounded px-0.5'}
+          title={segment.explained ? undefined : 'Unexplained change: not covered by any listed correction'}
+        >
+          {segment.removed && <del className="text-red-600 bg-red-50 decoration-red-400">{segment.removed}</del>}
+          {segment.removed && segment.added && ' '}
+          {segment.added && <ins className="text-green-700 bg-green-50 no-underline font-semibold">{segment.added}</ins>}
+        </span>
+        {segment.trailing}
+      </span>
+    ))}
+  </p>
+);
+
+export const AnalysisResult: React.FC<AnalysisResultProps> = ({ analysis, isStreaming = false, originalText }) => {
+  const [showDiff, setShowDiff] = useState(false);
+  const canDiff = Boolean(originalText) && !isStreaming && Boolean(analysis.correctedEssay);
+
+  const diff = useMemo(
+    () => (canDiff && showDiff
+      ? diffWords(originalText!, analysis.correctedEssay, [...analysis.corrections, ...(analysis.dismissedCorrections ?? [])])
+      : null),
+    [canDiff, showDiff, originalText, analysis]
+  );
+  const unexplainedCount = diff?.filter(s => s.kind === 'change' && !s.explained).length ?? 0;
+
   return (
     <div className="h-full flex flex-col bg-white rounded-xl shadow-sm border border-slate-200 overflow-hidden">
       
@@ -24,7 +70,7 @@ export const AnalysisResult: React.FC<AnalysisResultProps> = ({ analysis, mode =
                           analysis.cefrLevel.startsWith('B') ? 'bg-gradient-to-br from-blue-500 to-cyan-600' : 
                           'bg-gradient-to-br from-green-500 to-emerald-600'}
                     `} title="CEFR Level">
-                        {analysis.cefrLevel}
+                        {analysis.cefrLevel || <Pending className="w-6 h-5 bg-white/40" />}
                     </div>
                     <div className="flex flex-col">
                         <span className="text-[10px] font-bold text-slate-400 uppercase tracking-wider">Level</span>
@@ -37,7 +83,7 @@ export const AnalysisResult: React.FC<AnalysisResultProps> = ({ analysis, mode =
                 {/* IELTS Badge */}
                 <div className="flex items-center gap-3">
                     <div className="w-12 h-12 rounded-lg bg-slate-100 flex items-center justify-center text-slate-700 font-bold text-xl border border-slate-200">
-                        {analysis.ieltsScore}
+                        {analysis.ieltsScore || <Pending />}
                     </div>
                     <div className="flex flex-col">
                         <span className="text-[10px] font-bold text-slate-400 uppercase tracking-wider">IELTS</span>
@@ -57,6 +103,7 @@ export const AnalysisResult: React.FC<AnalysisResultProps> = ({ analysis, mode =
                         <span className={`text-2xl font-bold ${analysis.corrections.length > 5 ? 'text-red-600' : 'text-orange-500'}`}>
                             {analysis.corrections.length}
                         </span>
+                        {isStreaming && <span className="w-1.5 h-1.5 rounded-full bg-orange-400 animate-ping" title="Receiving corrections..." />}
                     </div>
                 </div>
 
@@ -66,13 +113,43 @@ export const AnalysisResult: React.FC<AnalysisResultProps> = ({ analysis, mode =
                 <div className="flex flex-col items-end">
                     <span className="text-[10px] font-bold text-slate-400 uppercase tracking-wider mb-0.5">Assessment</span>
                     <div className="flex items-baseline gap-1">
-                        <span className="text-2xl font-bold text-slate-900">{analysis.estimatedScore}</span>
+                        <span className="text-2xl font-bold text-slate-900">
+                            {Number.isFinite(analysis.estimatedScore) ? analysis.estimatedScore : <Pending />}
+                        </span>
                         <span className="text-sm font-medium text-slate-400">/100</span>
                     </div>
                 </div>
             </div>
         </div>
 
+        {/* Task Relevance */}
+        {analysis.taskRelevance && (
+            <div className={`rounded-lg p-3 border flex items-start gap-2 ${RELEVANCE_STYLES[analysis.taskRelevance.verdict]}`}>
+                <Target size={14} className="mt-0.5 shrink-0" />
+                <p className="text-sm leading-relaxed">
+                    <span className="font-bold">{TASK_RELEVANCE_LABELS[analysis.taskRelevance.verdict]}: </span>
+                    {analysis.taskRelevance.explanation}
+                </p>
+            </div>
+        )}
+
+        {/* Timed Exam Summary */}
+        {analysis.examResult && (
+            <div className="rounded-lg p-3 border border-slate-200 bg-slate-50 flex flex-wrap items-center gap-x-4 gap-y-1 text-sm text-slate-700">
+                <span className="flex items-center gap-1.5 font-bold"><Timer size={14} /> Timed exam</span>
+                <span>{formatDuration(analysis.examResult.elapsedSeconds)} of {formatDuration(analysis.examResult.timeLimitSeconds)}</span>
+                <span className={analysis.examResult.wordCount < analysis.examResult.minWords ? 'text-red-600 font-semibold' : ''}>
+                    {analysis.examResult.wordCount} words (min {analysis.examResult.minWords})
+                </span>
+                {analysis.examResult.lengthPenalty > 0 && (
+                    <span className="text-red-600 text-xs">Under length: -{analysis.examResult.lengthPenalty} Task Response</span>
+                )}
+                {analysis.examResult.autoSubmitted && (
+                    <span className="text-xs text-amber-700 bg-amber-50 border border-amber-200 px-1.5 py-0.5 rounded">Auto-submitted</span>
+                )}
+            </div>
+        )}
+
         {/* Feedback Summary */}
         <div className="bg-slate-50 rounded-lg p-3 border border-slate-100">
             <h4 className="text-xs font-bold text-slate-500 uppercase tracking-wider mb-2 flex items-center gap-1.5">
@@ -80,29 +157,74 @@ export const AnalysisResult: React.FC<AnalysisResultProps> = ({ analysis, mode =
                 Examiner's Feedback
             </h4>
             <p className="text-sm text-slate-700 leading-relaxed">
-                {analysis.generalFeedback}
+                {analysis.generalFeedback || (isStreaming && <Pending className="w-full h-4" />)}
             </p>
         </div>
       </div>
 
-      {/* 2. Scrollable Body: Clean Corrected Essay */}
+      {/* 2. Scrollable Body: Band Breakdown + Clean Corrected Essay */}
       <div className="flex-1 overflow-y-auto relative bg-slate-50/30">
+        {analysis.criteria && (
+            <div className="p-5 border-b border-slate-100 bg-white">
+                <h4 className="text-xs font-bold text-slate-500 uppercase tracking-wider mb-3 flex items-center gap-1.5">
+                    <ListChecks size={12} />
+                    Band Breakdown
+                </h4>
+                <div className="grid grid-cols-1 sm:grid-cols-2 gap-3">
+                    {(Object.keys(WRITING_CRITERIA_LABELS) as (keyof WritingCriteria)[]).map(key => (
+                        <div key={key} className="flex gap-3 bg-slate-50 rounded-lg p-3 border border-slate-100">
+                            <div className="w-10 h-10 shrink-0 rounded-lg bg-white border border-slate-200 flex items-center justify-center font-bold text-slate-700">
+                                {formatBand(analysis.criteria![key].band)}
+                            </div>
+                            <div className="min-w-0">
+                                <p className="text-xs font-semibold text-slate-700 mb-0.5">{WRITING_CRITERIA_LABELS[key]}</p>
+                                <p className="text-xs text-slate-500 leading-relaxed">{analysis.criteria![key].justification}</p>
+                            </div>
+                        </div>
+                    ))}
+                </div>
+            </div>
+        )}
+
         <div className="sticky top-0 z-10 bg-white/90 backdrop-blur-sm border-b border-slate-100 px-5 py-2 flex items-center justify-between">
             <span className="text-xs font-bold text-slate-500 uppercase tracking-wider flex items-center gap-2">
                 <CheckCircle size={14} className="text-green-600"/>
-                {mode === 'writing' ? 'Corrected Essay' : 'Improved Transcript'}
-            </span>
-            <span className="text-[10px] font-medium text-slate-400 bg-slate-100 px-2 py-0.5 rounded-full border border-slate-200">
-                British English
+                Corrected Essay
             </span>
+            <div className="flex items-center gap-2">
+                {diff && unexplainedCount > 0 && (
+                    <span
+                        className="flex items-center gap-1 text-[10px] font-medium text-amber-700 bg-amber-50 px-2 py-0.5 rounded-full border border-amber-200"
+                        title="Edits in the corrected version that no listed correction explains"
+                    >
+                        <HelpCircle size={10} /> {unexplainedCount} unexplained change{unexplainedCount === 1 ? '' : 's'}
+                    </span>
+                )}
+                {canDiff && (
+                    <button
+                        onClick={() => setShowDiff(!showDiff)}
+                        className={`flex items-center gap-1 text-[10px] font-medium px-2 py-0.5 rounded-full border transition-colors ${showDiff ? 'bg-blue-600 text-white border-blue-600' : 'text-slate-500 bg-white border-slate-200 hover:bg-slate-50'}`}
+                        title="Show word-level changes against your original text"
+                    >
+                        <GitCompare size={10} /> Show changes
+                    </button>
+                )}
+                <span className="text-[10px] font-medium text-slate-400 bg-slate-100 px-2 py-0.5 rounded-full border border-slate-200">
+                    British English
+                </span>
+            </div>
         </div>
         
         <div className="p-8 pb-16">
             <div className="bg-white p-8 rounded-lg shadow-sm border border-slate-100 min-h-[300px]">
-                {/* We display the clean corrected version here */}
-                <p className="whitespace-pre-wrap font-serif text-lg leading-relaxed text-slate-900">
-                    {analysis.correctedEssay}
-                </p>
+                {diff ? (
+                    <DiffView segments={diff} />
+                ) : (
+                    // The clean corrected version
+                    <p className="whitespace-pre-wrap font-serif text-lg leading-relaxed text-slate-900">
+                        {analysis.correctedEssay || (isStreaming && <span className="text-sm text-slate-400 animate-pulse">Writing corrected version...</span>)}
+                    </p>
+                )}
             </div>
         </div>
       </div>
@@ -0,0 +1,76 @@
+import React from 'react';
+import { Check, X } from 'lucide-react';
+import { Correction } from '../types';
+
+export interface CorrectionTooltipState {
+  correction: Correction;
+  index: number;
+  x: number;
+  y: number;
+  elemHeight: number;
+  pinned: boolean; // Pinned tooltips stay open and expose accept/reject actions
+}
+
+// Positions the tooltip over the highlighted span that triggered the event
+export const tooltipAt = (e: React.MouseEvent, correction: Correction, index: number, pinned: boolean): CorrectionTooltipState => {
+  const rect = (e.currentTarget as HTMLElement).getBoundingClientRect();
+  return {
+    correction,
+    index,
+    x: rect.left + rect.width / 2,
+    y: rect.top,
+    elemHeight: rect.height,
+    pinned
+  };
+};
+
+interface CorrectionTooltipProps {
+  tooltip: CorrectionTooltipState;
+  canReview?: boolean;
+  onAccept?: (index: number) => void;
+  onReject?: (index: number) => void;
+}
+
+// Fixed overlay so the tooltip is never clipped by a scrolling container
+export const CorrectionTooltip: React.FC<CorrectionTooltipProps> = ({ tooltip, canReview, onAccept, onReject }) => (
+  <div
+      className={`fixed z-[9999] w-72 transition-opacity duration-200 ${tooltip.pinned ? 'pointer-events-auto' : 'pointer-events-none'}`}
+      onClick={(e) => e.stopPropagation()}
+      style={{
+          left: tooltip.x,
+          top: tooltip.y > 250 ? tooltip.y : tooltip.y + tooltip.elemHeight,
+          transform: `translateX(-50%) ${tooltip.y > 250 ? 'translateY(-100%) translateY(-12px)' : 'translateY(12px)'}`
+      }}
+  >
+       <div className="bg-slate-900/95 backdrop-blur-md text-white text-sm rounded-lg shadow-2xl p-4 border border-slate-700 relative animate-in fade-in zoom-in-95 duration-200">
+          <div className="flex items-start justify-between mb-2 pb-2 border-b border-slate-700/50">
+              <span className="font-bold text-green-400 break-words pr-2 font-mono text-base">{tooltip.correction.suggestedText}</span>
+              <span className="text-[10px] uppercase tracking-wider text-slate-300 bg-slate-800 px-1.5 py-0.5 rounded whitespace-nowrap border border-slate-600">
+                  {tooltip.correction.type}
+              </span>
+          </div>
+          <p className="text-slate-300 text-xs leading-relaxed">{tooltip.correction.explanation}</p>
+          {tooltip.pinned ? (
+              <div className="flex items-center gap-2 mt-3 pt-3 border-t border-slate-700/50">
+                  <button
+                      onClick={() => onAccept?.(tooltip.index)}
+                      className="flex-1 flex items-center justify-center gap-1.5 px-2 py-1.5 text-xs font-semibold bg-green-600 hover:bg-green-500 text-white rounded-md transition-colors"
+                  >
+                      <Check size={12} /> Accept
+                  </button>
+                  <button
+                      onClick={() => onReject?.(tooltip.index)}
+                      className="flex-1 flex items-center justify-center gap-1.5 px-2 py-1.5 text-xs font-semibold bg-slate-700 hover:bg-slate-600 text-slate-200 rounded-md transition-colors"
+                  >
+                      <X size={12} /> Reject
+                  </button>
+              </div>
+          ) : canReview && (
+              <p className="text-[10px] text-slate-500 mt-2">Click to accept or reject</p>
+          )}
+          <div
+              className={`absolute left-1/2 -translate-x-1/2 border-8 border-transparent ${tooltip.y > 250 ? 'border-t-slate-900/95 top-full' : 'border-b-slate-900/95 bottom-full'}`}
+          ></div>
+      </div>
+  </div>
+);
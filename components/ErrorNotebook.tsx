@@ -0,0 +1,231 @@
+import React, { useEffect, useMemo, useState } from 'react';
+import { NotebookPen, TrendingUp, TrendingDown, Minus, Award, ChevronDown, ChevronUp, PenTool, Mic, RotateCcw } from 'lucide-react';
+import { Correction, MistakeRecord, MasteredPattern } from '../types';
+import { listMistakes, listMasteredPatterns, setPatternMastered, summarizeNotebook, isSettled, PatternSummary, NOTEBOOK_WEEKS } from '../services/errorNotebook';
+
+type TypeFilter = 'all' | Correction['type'];
+
+const TYPE_STYLES: Record<Correction['type'], string> = {
+  grammar: 'bg-red-50 text-red-700 border-red-200',
+  spelling: 'bg-orange-50 text-orange-700 border-orange-200',
+  vocabulary: 'bg-purple-50 text-purple-700 border-purple-200',
+  clarity: 'bg-blue-50 text-blue-700 border-blue-200',
+  semantic: 'bg-slate-50 text-slate-700 border-slate-200',
+};
+
+const Trend: React.FC<{ current: number; previous: number }> = ({ current, previous }) => {
+  if (current > previous) {
+    return <span className="flex items-center gap-0.5 text-xs text-red-600" title="More than the previous 30 days"><TrendingUp size={14} /> +{current - previous}</span>;
+  }
+  if (current < previous) {
+    return <span className="flex items-center gap-0.5 text-xs text-green-600" title="Fewer than the previous 30 days"><TrendingDown size={14} /> -{previous - current}</span>;
+  }
+  return <span className="flex items-center gap-0.5 text-xs text-slate-400" title="Same as the previous 30 days"><Minus size={14} /></span>;
+};
+
+// Weekly occurrences as tiny bars, oldest on the left
+const WeeklyBars: React.FC<{ weekly: number[] }> = ({ weekly }) => {
+  const max = Math.max(1, ...weekly);
+  return (
+    <div className="flex items-end gap-0.5 h-6" title={`Last ${NOTEBOOK_WEEKS} weeks: ${weekly.join(', ')}`}>
+      {weekly.map((count, i) => (
+        <div
+          key={i}
+          className={`w-1.5 rounded-sm ${count ? 'bg-blue-400' : 'bg-slate-200'}`}
+          style={{ height: `${Math.max(12, (count / max) * 100)}%` }}
+        />
+      ))}
+    </div>
+  );
+};
+
+export const ErrorNotebook: React.FC = () => {
+  const [mistakes, setMistakes] = useState<MistakeRecord[]>([]);
+  const [mastered, setMastered] = useState<MasteredPattern[]>([]);
+  const [isLoading, setIsLoading] = useState(true);
+  const [typeFilter, setTypeFilter] = useState<TypeFilter>('all');
+  const [showMastered, setShowMastered] = useState(false);
+  const [expanded, setExpanded] = useState<string | null>(null);
+
+  useEffect(() => {
+    Promise.all([listMistakes(), listMasteredPatterns()])
+      .then(([records, masteredPatterns]) => {
+        setMistakes(records);
+        setMastered(masteredPatterns);
+      })
+      .catch(err => console.error("Failed to load error notebook", err))
+      .finally(() => setIsLoading(false));
+  }, []);
+
+  const summary = useMemo(() => summarizeNotebook(mistakes, mastered), [mistakes, mastered]);
+
+  const { topThisMonth } = summary;
+  const visible = summary.patterns.filter(p =>
+    (typeFilter === 'all' || p.type === typeFilter) &&
+    (showMastered || !isSettled(p))
+  );
+  const masteredCount = summary.patterns.filter(isSettled).length;
+
+  const toggleMastered = async (item: PatternSummary) => {
+    const isMastered = item.masteredAt === undefined;
+    try {
+      await setPatternMastered(item.pattern.key, isMastered);
+      setMastered(prev => isMastered
+        ? [...prev, { pattern: item.pattern.key, masteredAt: Date.now() }]
+        : prev.filter(m => m.pattern !== item.pattern.key));
+    } catch (err) {
+      console.error(err);
+      alert("Failed to update the notebook.");
+    }
+  };
+
+  if (isLoading) {
+    return <div className="p-8 text-center text-sm text-slate-400">Loading...</div>;
+  }
+
+  if (summary.total === 0) {
+    return (
+      <div className="h-full bg-white rounded-xl border border-dashed border-slate-200 flex flex-col items-center justify-center text-slate-400 p-8 text-center shadow-sm">
+        <div className="bg-slate-50 p-4 rounded-full mb-4 shadow-sm border border-slate-100">
+          <NotebookPen size={32} className="text-slate-300" />
+        </div>
+        <h3 className="text-lg font-semibold text-slate-600 mb-1">Your notebook is empty</h3>
+        <p className="max-w-xs text-sm text-slate-500">
+          Corrections from your analysed essays and speaking sessions will be collected here.
+        </p>
+      </div>
+    );
+  }
+
+  return (
+    <div className="h-full flex flex-col gap-6">
+      <div className="grid grid-cols-1 lg:grid-cols-3 gap-4 shrink-0">
+        {/* Top 5 This Month */}
+        <div className="lg:col-span-2 bg-white rounded-xl border border-slate-200 shadow-sm p-4">
+          <h4 className="text-xs font-bold text-slate-500 uppercase tracking-wider mb-3">Your top 5 recurring mistakes this month</h4>
+          {topThisMonth.length === 0 ? (
+            <p className="text-sm text-slate-400">No open mistakes in the last 30 days.</p>
+          ) : (
+            <ol className="space-y-2">
+              {topThisMonth.map((item, i) => (
+                <li key={item.pattern.key} className="flex items-center gap-3">
+                  <span className="w-6 h-6 rounded-full bg-slate-100 text-slate-600 text-xs font-bold flex items-center justify-center shrink-0">{i + 1}</span>
+                  <span className="flex-1 min-w-0 text-sm text-slate-700 truncate">{item.pattern.label}</span>
+                  {item.sinceMastered > 0 && (
+                    <span className="text-[10px] font-bold text-amber-700 bg-amber-50 border border-amber-200 px-1.5 py-0.5 rounded-full shrink-0" title="Marked as mastered, but it has come back">Back again</span>
+                  )}
+                  <span className="text-sm font-bold text-slate-900">{item.thisMonth}×</span>
+                  <Trend current={item.thisMonth} previous={item.lastMonth} />
+                </li>
+              ))}
+            </ol>
+          )}
+        </div>
+
+        {/* Totals */}
+        <div className="bg-white rounded-xl border border-slate-200 shadow-sm p-4 flex flex-col gap-3">
+          <h4 className="text-xs font-bold text-slate-500 uppercase tracking-wider">Overview</h4>
+          <div className="flex items-baseline justify-between text-sm">
+            <span className="text-slate-500">Mistakes recorded</span>
+            <span className="font-bold text-slate-900">{summary.total}</span>
+          </div>
+          <div className="flex items-baseline justify-between text-sm">
+            <span className="text-slate-500">In the last 30 days</span>
+            <span className="font-bold text-slate-900">{summary.thisMonth}</span>
+          </div>
+          <div className="flex items-baseline justify-between text-sm">
+            <span className="text-slate-500">Patterns mastered</span>
+            <span className="font-bold text-green-600">{masteredCount} / {summary.patterns.length}</span>
+          </div>
+        </div>
+      </div>
+
+      {/* Type Filters */}
+      <div className="flex flex-wrap items-center gap-2 shrink-0">
+        <button
+          onClick={() => setTypeFilter('all')}
+          className={`px-3 py-1.5 text-xs font-medium rounded-md border transition-colors ${typeFilter === 'all' ? 'bg-blue-600 text-white border-blue-600' : 'bg-white text-slate-600 border-slate-200 hover:bg-slate-50'}`}
+        >
+          All ({summary.total})
+        </button>
+        {summary.types.filter(t => t.total > 0).map(t => (
+          <button
+            key={t.type}
+            onClick={() => setTypeFilter(t.type)}
+            className={`flex items-center gap-1.5 px-3 py-1.5 text-xs font-medium rounded-md border transition-colors capitalize ${typeFilter === t.type ? 'bg-blue-600 text-white border-blue-600' : 'bg-white text-slate-600 border-slate-200 hover:bg-slate-50'}`}
+            title={`${t.thisMonth} in the last 30 days, ${t.lastMonth} in the 30 days before`}
+          >
+            {t.type} ({t.total})
+          </button>
+        ))}
+        <label className="ml-auto flex items-center gap-2 text-xs text-slate-500 cursor-pointer">
+          <input type="checkbox" checked={showMastered} onChange={(e) => setShowMastered(e.target.checked)} />
+          Show mastered
+        </label>
+      </div>
+
+      {/* Pattern List */}
+      <div className="flex-1 min-h-0 bg-white rounded-xl border border-slate-200 shadow-sm overflow-hidden flex flex-col">
+        <div className="px-4 py-3 border-b border-slate-100 bg-slate-50 text-sm font-semibold text-slate-600 flex items-center gap-2 shrink-0">
+          <NotebookPen size={16} /> Patterns ({visible.length})
+        </div>
+        <div className="flex-1 overflow-y-auto divide-y divide-slate-100">
+          {visible.length === 0 ? (
+            <div className="p-8 text-center text-sm text-slate-400">No patterns match this filter.</div>
+          ) : visible.map(item => {
+            const isExpanded = expanded === item.pattern.key;
+            return (
+              <div key={item.pattern.key} className={item.masteredAt !== undefined ? 'bg-green-50/40' : ''}>
+                <div
+                  onClick={() => setExpanded(isExpanded ? null : item.pattern.key)}
+                  className="flex items-center gap-4 px-4 py-3 hover:bg-slate-50 cursor-pointer transition-colors"
+                >
+                  <span className={`text-[10px] font-bold uppercase tracking-wider px-1.5 py-0.5 rounded border shrink-0 ${TYPE_STYLES[item.type]}`}>
+                    {item.type}
+                  </span>
+                  <div className="flex-1 min-w-0">
+                    <p className="text-sm font-medium text-slate-700 truncate">{item.pattern.label}</p>
+                    <p className="text-xs text-slate-400">
+                      Last seen {new Date(item.lastSeen).toLocaleDateString()}
+                      {item.sinceMastered > 0 && <span className="text-amber-600"> · {item.sinceMastered} since mastered</span>}
+                    </p>
+                  </div>
+                  <WeeklyBars weekly={item.weekly} />
+                  <div className="flex flex-col items-end w-16 shrink-0">
+                    <span className="text-sm font-bold text-slate-900">{item.total}×</span>
+                    <Trend current={item.thisMonth} previous={item.lastMonth} />
+                  </div>
+                  <button
+                    onClick={(e) => { e.stopPropagation(); toggleMastered(item); }}
+                    className={`flex items-center gap-1 px-2.5 py-1 text-xs font-medium rounded-md border transition-colors shrink-0 ${item.masteredAt !== undefined ? 'text-slate-500 bg-white border-slate-200 hover:bg-slate-50' : 'text-green-700 bg-green-50 border-green-200 hover:bg-green-100'}`}
+                  >
+                    {item.masteredAt !== undefined ? <><RotateCcw size={12} /> Reopen</> : <><Award size={12} /> Mastered</>}
+                  </button>
+                  {isExpanded ? <ChevronUp size={16} className="text-slate-400" /> : <ChevronDown size={16} className="text-slate-400" />}
+                </div>
+                {isExpanded && (
+                  <div className="px-4 pb-4 pl-16 space-y-2">
+                    {item.pattern.description && <p className="text-xs text-slate-500 italic">{item.pattern.description}</p>}
+                    {item.examples.map(example => (
+                      <div key={example.id} className="flex items-start gap-2 text-sm bg-slate-50 rounded-lg p-2.5 border border-slate-100">
+                        {example.mode === 'writing' ? <PenTool size={14} className="text-slate-400 mt-0.5 shrink-0" /> : <Mic size={14} className="text-slate-400 mt-0.5 shrink-0" />}
+                        <div className="min-w-0">
+                          <p>
+                            <span className="line-through text-red-500">{example.correction.originalText}</span>
+                            <span className="text-slate-400 mx-1.5">→</span>
+                            <span className="font-semibold text-green-700">{example.correction.suggestedText}</span>
+                          </p>
+                          <p className="text-xs text-slate-500 leading-relaxed">{example.correction.explanation}</p>
+                        </div>
+                      </div>
+                    ))}
+                  </div>
+                )}
+              </div>
+            );
+          })}
+        </div>
+      </div>
+    </div>
+  );
+};
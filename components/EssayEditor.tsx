@@ -1,20 +1,33 @@
 import React, { useRef, useState, useMemo, useEffect } from 'react';
-import { Upload, Image as ImageIcon, X, Edit3, AlertCircle, FileText } from 'lucide-react';
-import { transcribeImage } from '../services/geminiService';
+import { Upload, Image as ImageIcon, X, Edit3, AlertCircle, FileText, Undo2, CheckCheck } from 'lucide-react';
+import { transcribeImage } from '../services/aiService';
+import { QuotaExceededError, isAbortError } from '../services/aiErrors';
 import { EssayAnalysis, Correction } from '../types';
+import { isAnchored, applyCorrections, dismissCorrections } from '../services/correctionAnchors';
+import { CorrectionTooltip, CorrectionTooltipState, tooltipAt } from './CorrectionTooltip';
+
+type IndexedCorrection = Correction & { index: number };
 
 interface EssayEditorProps {
   value: string;
   onChange: (val: string) => void;
   disabled?: boolean;
   analysis?: EssayAnalysis | null;
+  // Accept/reject updates text and analysis together so the analysis is not discarded
+  onReviewCorrections?: (text: string, analysis: EssayAnalysis) => void;
+  onUndoReview?: () => void;
+  canUndoReview?: boolean;
+  lockImport?: boolean; // Exam conditions: no paste, drop or file/photo import
 }
 
-export const EssayEditor: React.FC<EssayEditorProps> = ({ value, onChange, disabled, analysis }) => {
+export const EssayEditor: React.FC<EssayEditorProps> = ({ value, onChange, disabled, analysis, onReviewCorrections, onUndoReview, canUndoReview, lockImport }) => {
   const fileInputRef = useRef<HTMLInputElement>(null);
   const textFileInputRef = useRef<HTMLInputElement>(null);
   const [isUploading, setIsUploading] = useState(false);
   const [isEditing, setIsEditing] = useState(true);
+  const uploadAbortRef = useRef<AbortController | null>(null);
+
+  useEffect(() => () => uploadAbortRef.current?.abort(), []);
 
   // Switch to view mode automatically when analysis arrives
   useEffect(() => {
@@ -48,12 +61,16 @@ export const EssayEditor: React.FC<EssayEditorProps> = ({ value, onChange, disab
       const base64Data = base64.split(',')[1];
       const mimeType = file.type;
       
-      const transcribedText = await transcribeImage(base64Data, mimeType);
+      const controller = new AbortController();
+      uploadAbortRef.current = controller;
+      const transcribedText = await transcribeImage(base64Data, mimeType, controller.signal);
       onChange(transcribedText);
     } catch (error) {
+      if (isAbortError(error)) return;
       console.error(error);
-      alert('Failed to transcribe image.');
+      alert(error instanceof QuotaExceededError ? error.message : 'Failed to transcribe image.');
     } finally {
+      uploadAbortRef.current = null;
       setIsUploading(false);
     }
   };
@@ -74,113 +91,138 @@ export const EssayEditor: React.FC<EssayEditorProps> = ({ value, onChange, disab
   };
 
   // --- ANNOTATION LOGIC (Moved from AnalysisResult) ---
-  const [tooltip, setTooltip] = useState<{
-    correction: Correction;
-    x: number;
-    y: number;
-    elemHeight: number;
-  } | null>(null);
-
-  const handleMouseEnter = (e: React.MouseEvent, correction: Correction) => {
-    const rect = (e.currentTarget as HTMLElement).getBoundingClientRect();
-    setTooltip({
-      correction,
-      x: rect.left + rect.width / 2,
-      y: rect.top,
-      elemHeight: rect.height
-    });
+  const [tooltip, setTooltip] = useState<CorrectionTooltipState | null>(null);
+
+  const canReview = Boolean(onReviewCorrections) && !disabled;
+
+  const showTooltip = (e: React.MouseEvent, correction: IndexedCorrection, pinned: boolean) => {
+    setTooltip(tooltipAt(e, correction, correction.index, pinned));
+  };
+
+  const handleMouseEnter = (e: React.MouseEvent, correction: IndexedCorrection) => {
+    if (tooltip?.pinned) return;
+    showTooltip(e, correction, false);
   };
 
   const handleMouseLeave = () => {
+    setTooltip(prev => (prev?.pinned ? prev : null));
+  };
+
+  const handleCorrectionClick = (e: React.MouseEvent, correction: IndexedCorrection) => {
+    if (!canReview) return;
+    e.stopPropagation();
+    showTooltip(e, correction, true);
+  };
+
+  const handleAccept = (indices: number[]) => {
+    if (!analysis || !onReviewCorrections) return;
+    const next = applyCorrections(value, analysis, indices);
+    onReviewCorrections(next.text, next.analysis);
     setTooltip(null);
   };
 
+  const handleReject = (indices: number[]) => {
+    if (!analysis || !onReviewCorrections) return;
+    onReviewCorrections(value, dismissCorrections(analysis, indices));
+    setTooltip(null);
+  };
+
+  const anchoredCorrections = useMemo(
+    () => (analysis?.corrections ?? [])
+        .map((c, index) => ({ ...c, index }))
+        .filter(isAnchored)
+        .sort((a, b) => a.start - b.start),
+    [analysis]
+  );
+
+  // Anchored corrections grouped by type, for the "accept all" actions
+  const correctionsByType = useMemo(() => {
+    const groups = new Map<Correction['type'], number[]>();
+    for (const c of anchoredCorrections) {
+        groups.set(c.type, [...(groups.get(c.type) ?? []), c.index]);
+    }
+    return [...groups.entries()];
+  }, [anchoredCorrections]);
+
+  // Paraphrased corrections cannot be applied to the text, only dismissed
+  const unanchoredCorrections = useMemo(
+    () => (analysis?.corrections ?? [])
+        .map((c, index) => ({ ...c, index }))
+        .filter(c => !isAnchored(c)),
+    [analysis]
+  );
+
   const renderedText = useMemo(() => {
-    if (!analysis?.corrections || analysis.corrections.length === 0) {
+    if (anchoredCorrections.length === 0) {
       return <span className="font-serif text-lg leading-relaxed text-slate-900">{value}</span>;
     }
 
     const segments: React.ReactNode[] = [];
     let currentIndex = 0;
-    const remainingCorrections = [...analysis.corrections];
-
-    while (currentIndex < value.length) {
-        let bestMatchIndex = -1;
-        let bestMatchCorrection: Correction | null = null;
-        let correctionIdxToRemove = -1;
-
-        for (let i = 0; i < remainingCorrections.length; i++) {
-            const corr = remainingCorrections[i];
-            const idx = value.indexOf(corr.originalText, currentIndex);
-            
-            if (idx !== -1) {
-                if (bestMatchIndex === -1 || idx < bestMatchIndex) {
-                    bestMatchIndex = idx;
-                    bestMatchCorrection = corr;
-                    correctionIdxToRemove = i;
-                }
-            }
+
+    for (const correction of anchoredCorrections) {
+        // Offsets are resolved against the analysed text; skip anything that no longer fits
+        if (correction.start < currentIndex || correction.end > value.length) continue;
+
+        if (correction.start > currentIndex) {
+            segments.push(
+                <span key={`text-${currentIndex}`} className="font-serif text-lg leading-relaxed text-slate-900">
+                    {value.substring(currentIndex, correction.start)}
+                </span>
+            );
         }
 
-        if (bestMatchIndex !== -1 && bestMatchCorrection) {
-            if (bestMatchIndex > currentIndex) {
-                segments.push(
-                    <span key={`text-${currentIndex}`} className="font-serif text-lg leading-relaxed text-slate-900">
-                        {value.substring(currentIndex, bestMatchIndex)}
-                    </span>
-                );
-            }
-
-            const isSuffixInsertion = bestMatchCorrection.suggestedText.startsWith(bestMatchCorrection.originalText);
-            const isPrefixInsertion = bestMatchCorrection.suggestedText.endsWith(bestMatchCorrection.originalText);
-
-            let content;
-            const interactionProps = {
-                onMouseEnter: (e: React.MouseEvent) => handleMouseEnter(e, bestMatchCorrection!),
-                onMouseLeave: handleMouseLeave,
-                className: "inline-block cursor-help relative group"
-            };
-
-            if (isSuffixInsertion && bestMatchCorrection.suggestedText !== bestMatchCorrection.originalText) {
-                const insertion = bestMatchCorrection.suggestedText.slice(bestMatchCorrection.originalText.length);
-                content = (
-                    <span {...interactionProps}>
-                        <span className="text-slate-900">{bestMatchCorrection.originalText}</span>
-                        <span className="text-red-600 font-bold bg-red-100 rounded px-0.5 ml-0.5 border border-red-200 shadow-sm">{insertion}</span>
-                    </span>
-                );
-            } else if (isPrefixInsertion && bestMatchCorrection.suggestedText !== bestMatchCorrection.originalText) {
-                 const insertion = bestMatchCorrection.suggestedText.slice(0, -bestMatchCorrection.originalText.length);
-                 content = (
-                    <span {...interactionProps}>
-                        <span className="text-red-600 font-bold bg-red-100 rounded px-0.5 mr-0.5 border border-red-200 shadow-sm">{insertion}</span>
-                        <span className="text-slate-900">{bestMatchCorrection.originalText}</span>
-                    </span>
-                );
-            } else {
-                content = (
-                    <span {...interactionProps}>
-                        <span className="font-serif text-lg leading-relaxed text-red-600 bg-red-50 decoration-red-400 decoration-wavy underline underline-offset-4 rounded px-0.5 mx-0.5">
-                            {bestMatchCorrection.originalText}
-                        </span>
-                    </span>
-                );
-            }
+        const originalText = value.substring(correction.start, correction.end);
+        const isSuffixInsertion = correction.suggestedText.startsWith(originalText);
+        const isPrefixInsertion = correction.suggestedText.endsWith(originalText);
+
+        let content;
+        const interactionProps = {
+            onMouseEnter: (e: React.MouseEvent) => handleMouseEnter(e, correction),
+            onMouseLeave: handleMouseLeave,
+            onClick: (e: React.MouseEvent) => handleCorrectionClick(e, correction),
+            className: `inline-block relative group ${canReview ? 'cursor-pointer' : 'cursor-help'}`
+        };
 
-            segments.push(<span key={`err-${bestMatchIndex}`}>{content}</span>);
-            currentIndex = bestMatchIndex + bestMatchCorrection.originalText.length;
-            remainingCorrections.splice(correctionIdxToRemove, 1);
+        if (isSuffixInsertion && correction.suggestedText !== originalText) {
+            const insertion = correction.suggestedText.slice(originalText.length);
+            content = (
+                <span {...interactionProps}>
+                    <span className="text-slate-900">{originalText}</span>
+                    <span className="text-red-600 font-bold bg-red-100 rounded px-0.5 ml-0.5 border border-red-200 shadow-sm">{insertion}</span>
+                </span>
+            );
+        } else if (isPrefixInsertion && correction.suggestedText !== originalText) {
+             const insertion = correction.suggestedText.slice(0, -originalText.length);
+             content = (
+                <span {...interactionProps}>
+                    <span className="text-red-600 font-bold bg-red-100 rounded px-0.5 mr-0.5 border border-red-200 shadow-sm">{insertion}</span>
+                    <span className="text-slate-900">{originalText}</span>
+                </span>
+            );
         } else {
-            segments.push(
-                <span key={`text-end`} className="font-serif text-lg leading-relaxed text-slate-900">
-                    {value.substring(currentIndex)}
+            content = (
+                <span {...interactionProps}>
+                    <span className="font-serif text-lg leading-relaxed text-red-600 bg-red-50 decoration-red-400 decoration-wavy underline underline-offset-4 rounded px-0.5 mx-0.5">
+                        {originalText}
+                    </span>
                 </span>
             );
-            break;
         }
+
+        segments.push(<span key={`err-${correction.start}`}>{content}</span>);
+        currentIndex = correction.end;
+    }
+
+    if (currentIndex < value.length) {
+        segments.push(
+            <span key={`text-end`} className="font-serif text-lg leading-relaxed text-slate-900">
+                {value.substring(currentIndex)}
+            </span>
+        );
     }
     return segments;
-  }, [value, analysis]);
+  }, [value, anchoredCorrections, canReview, tooltip?.pinned]);
 
   return (
     <div className="flex flex-col h-full bg-white rounded-xl shadow-sm border border-slate-200 overflow-hidden relative">
@@ -209,7 +251,7 @@ export const EssayEditor: React.FC<EssayEditorProps> = ({ value, onChange, disab
             <div className="flex items-center space-x-2">
                 <button
                     onClick={() => textFileInputRef.current?.click()}
-                    disabled={disabled || isUploading}
+                    disabled={disabled || isUploading || lockImport}
                     className="flex items-center space-x-1.5 px-3 py-1.5 text-xs font-medium text-slate-600 bg-white border border-slate-200 hover:bg-slate-50 rounded-md transition-colors disabled:opacity-50"
                     title="Import Text File"
                 >
@@ -219,7 +261,7 @@ export const EssayEditor: React.FC<EssayEditorProps> = ({ value, onChange, disab
 
                 <button
                     onClick={() => fileInputRef.current?.click()}
-                    disabled={disabled || isUploading}
+                    disabled={disabled || isUploading || lockImport}
                     className="flex items-center space-x-1.5 px-3 py-1.5 text-xs font-medium text-blue-600 bg-blue-50 hover:bg-blue-100 rounded-md transition-colors disabled:opacity-50"
                     title="Import Image"
                 >
@@ -258,12 +300,84 @@ export const EssayEditor: React.FC<EssayEditorProps> = ({ value, onChange, disab
             placeholder="Start typing your essay here, upload a photo, or import a text file..."
             value={value}
             onChange={(e) => onChange(e.target.value)}
+            onPaste={lockImport ? (e) => e.preventDefault() : undefined}
+            onDrop={lockImport ? (e) => e.preventDefault() : undefined}
             disabled={disabled}
             spellCheck={false}
           />
       ) : (
-          <div className="flex-1 w-full p-6 overflow-y-auto bg-white">
-              <p className="whitespace-pre-wrap">{renderedText}</p>
+          <div className="flex-1 w-full overflow-y-auto bg-white" onClick={() => setTooltip(null)}>
+              {canReview && (correctionsByType.length > 0 || canUndoReview) && (
+                  <div className="sticky top-0 z-10 bg-white/90 backdrop-blur-sm border-b border-slate-100 px-6 py-2 flex items-center gap-2 flex-wrap">
+                      {correctionsByType.map(([type, indices]) => (
+                          <button
+                              key={type}
+                              onClick={(e) => { e.stopPropagation(); handleAccept(indices); }}
+                              className="flex items-center gap-1 px-2 py-1 text-[11px] font-medium text-green-700 bg-green-50 hover:bg-green-100 border border-green-200 rounded-md transition-colors"
+                              title={`Apply all ${type} corrections`}
+                          >
+                              <CheckCheck size={12} />
+                              <span>Accept all {type} ({indices.length})</span>
+                          </button>
+                      ))}
+                      {canUndoReview && (
+                          <button
+                              onClick={(e) => { e.stopPropagation(); onUndoReview?.(); setTooltip(null); }}
+                              className="ml-auto flex items-center gap-1 px-2 py-1 text-[11px] font-medium text-slate-600 bg-white hover:bg-slate-50 border border-slate-200 rounded-md transition-colors"
+                              title="Undo last accept/reject"
+                          >
+                              <Undo2 size={12} />
+                              <span>Undo</span>
+                          </button>
+                      )}
+                  </div>
+              )}
+
+              <div className="p-6">
+                  <p className="whitespace-pre-wrap">{renderedText}</p>
+
+                  {/* Corrections the model reported but which could not be located in the text */}
+                  {unanchoredCorrections.length > 0 && (
+                      <div className="mt-8 bg-amber-50 border border-amber-200 rounded-lg p-4">
+                          <div className="flex items-center justify-between gap-2 mb-3">
+                              <h4 className="text-xs font-bold text-amber-700 uppercase tracking-wider flex items-center gap-1.5">
+                                  <AlertCircle size={12} />
+                                  {unanchoredCorrections.length} correction{unanchoredCorrections.length > 1 ? 's' : ''} could not be located in your text
+                              </h4>
+                              {canReview && unanchoredCorrections.length > 1 && (
+                                  <button
+                                      onClick={(e) => { e.stopPropagation(); handleReject(unanchoredCorrections.map(c => c.index)); }}
+                                      className="text-[11px] font-medium text-amber-700 hover:text-amber-900 hover:underline shrink-0"
+                                  >
+                                      Dismiss all
+                                  </button>
+                              )}
+                          </div>
+                          <ul className="space-y-3">
+                              {unanchoredCorrections.map((c) => (
+                                  <li key={c.index} className="text-sm">
+                                      <div className="flex items-center gap-2 flex-wrap">
+                                          <span className="text-red-600 line-through decoration-red-300">{c.originalText}</span>
+                                          <span className="text-slate-400">→</span>
+                                          <span className="text-green-700 font-semibold">{c.suggestedText}</span>
+                                          <span className="text-[10px] uppercase tracking-wider text-slate-500 bg-white px-1.5 py-0.5 rounded border border-slate-200">{c.type}</span>
+                                          {canReview && (
+                                              <button
+                                                  onClick={(e) => { e.stopPropagation(); handleReject([c.index]); }}
+                                                  className="ml-auto p-0.5 text-slate-400 hover:text-red-600"
+                                                  title="Dismiss correction"
+                                              >
+                                                  <X size={14} />
+                                              </button>
+                                          )}
+                                      </div>
+                                      <p className="text-xs text-slate-600 mt-1 leading-relaxed">{c.explanation}</p>
+                                  </li>
+                              ))}
+                          </ul>
+                      </div>
+                  )}
+              </div>
           </div>
       )}
 
@@ -279,27 +393,12 @@ export const EssayEditor: React.FC<EssayEditorProps> = ({ value, onChange, disab
 
     {/* FIXED TOOLTIP OVERLAY (Moved here) */}
       {!isEditing && tooltip && (
-        <div 
-            className="fixed z-[9999] w-72 pointer-events-none transition-opacity duration-200"
-            style={{ 
-                left: tooltip.x, 
-                top: tooltip.y > 250 ? tooltip.y : tooltip.y + tooltip.elemHeight,
-                transform: `translateX(-50%) ${tooltip.y > 250 ? 'translateY(-100%) translateY(-12px)' : 'translateY(12px)'}`
-            }}
-        >
-             <div className="bg-slate-900/95 backdrop-blur-md text-white text-sm rounded-lg shadow-2xl p-4 border border-slate-700 relative animate-in fade-in zoom-in-95 duration-200">
-                <div className="flex items-start justify-between mb-2 pb-2 border-b border-slate-700/50">
-                    <span className="font-bold text-green-400 break-words pr-2 font-mono text-base">{tooltip.correction.suggestedText}</span>
-                    <span className="text-[10px] uppercase tracking-wider text-slate-300 bg-slate-800 px-1.5 py-0.5 rounded whitespace-nowrap border border-slate-600">
-                        {tooltip.correction.type}
-                    </span>
-                </div>
-                <p className="text-slate-300 text-xs leading-relaxed">{tooltip.correction.explanation}</p>
-                <div 
-                    className={`absolute left-1/2 -translate-x-1/2 border-8 border-transparent ${tooltip.y > 250 ? 'border-t-slate-900/95 top-full' : 'border-b-slate-900/95 bottom-full'}`}
-                ></div>
-            </div>
-        </div>
+        <CorrectionTooltip
+            tooltip={tooltip}
+            canReview={canReview}
+            onAccept={(index) => handleAccept([index])}
+            onReject={(index) => handleReject([index])}
+        />
       )}
     </div>
   );
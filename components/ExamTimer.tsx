@@ -0,0 +1,49 @@
+import React from 'react';
+import { Timer, Flag } from 'lucide-react';
+import { WritingTaskType, WRITING_TASK_LABELS } from '../types';
+
+interface ExamTimerProps {
+  taskType: WritingTaskType;
+  remainingSeconds: number;
+  wordCount: number;
+  minWords: number;
+  onAbandon: () => void;
+}
+
+const formatClock = (seconds: number) => {
+  const s = Math.max(0, Math.ceil(seconds));
+  return `${Math.floor(s / 60)}:${String(s % 60).padStart(2, '0')}`;
+};
+
+export const ExamTimer: React.FC<ExamTimerProps> = ({ taskType, remainingSeconds, wordCount, minWords, onAbandon }) => {
+  const isLow = remainingSeconds <= 5 * 60;
+  const isLongEnough = wordCount >= minWords;
+
+  return (
+    <div className="bg-slate-900 text-white rounded-xl px-4 py-3 flex flex-wrap items-center gap-6 shadow-lg">
+      <div className="flex items-center gap-2">
+        <Flag size={16} className="text-amber-400" />
+        <span className="text-xs font-bold uppercase tracking-wider text-slate-300">Timed Exam · {WRITING_TASK_LABELS[taskType]}</span>
+      </div>
+
+      <div className={`flex items-center gap-2 font-mono text-2xl font-bold ${isLow ? 'text-red-400 animate-pulse' : 'text-white'}`}>
+        <Timer size={20} />
+        {formatClock(remainingSeconds)}
+      </div>
+
+      <div className="flex items-baseline gap-1">
+        <span className={`text-xl font-bold ${isLongEnough ? 'text-green-400' : 'text-amber-300'}`}>{wordCount}</span>
+        <span className="text-sm text-slate-400">/ {minWords} words</span>
+      </div>
+
+      <span className="text-xs text-slate-400">Paste and import are disabled. The essay is submitted automatically when time runs out.</span>
+
+      <button
+        onClick={onAbandon}
+        className="ml-auto text-xs font-medium text-slate-300 hover:text-white border border-slate-600 hover:border-slate-400 px-3 py-1.5 rounded-md transition-colors"
+      >
+        Abandon Exam
+      </button>
+    </div>
+  );
+};
@@ -0,0 +1,80 @@
+import React from 'react';
+import { ExaminerSettings, ExaminerVoice, ExaminerAccent, EXAMINER_VOICE_LABELS, EXAMINER_ACCENT_LABELS } from '../types';
+import { TARGET_BANDS, SPEAKING_TOPICS } from '../services/examinerSettings';
+
+interface ExaminerSetupProps {
+  settings: ExaminerSettings;
+  onChange: (settings: ExaminerSettings) => void;
+}
+
+const selectClassName = "w-full text-sm border border-slate-200 rounded-md px-2 py-1.5 bg-white";
+const labelClassName = "block text-[10px] font-bold text-slate-500 uppercase tracking-wider mb-1";
+
+export const ExaminerSetup: React.FC<ExaminerSetupProps> = ({ settings, onChange }) => {
+  const update = (changes: Partial<ExaminerSettings>) => onChange({ ...settings, ...changes });
+
+  const toggleTopic = (topic: string) => update({
+    topics: settings.topics.includes(topic)
+      ? settings.topics.filter((t: string) => t !== topic)
+      : [...settings.topics, topic],
+  });
+
+  return (
+    <div className="w-full max-w-md bg-slate-50 border border-slate-100 rounded-xl p-4 mb-8 text-left">
+      <div className="grid grid-cols-3 gap-3 mb-4">
+        <label>
+          <span className={labelClassName}>Voice</span>
+          <select
+            value={settings.voice}
+            onChange={(e) => update({ voice: e.target.value as ExaminerVoice })}
+            className={selectClassName}
+            title="Used for live calls"
+          >
+            {(Object.keys(EXAMINER_VOICE_LABELS) as ExaminerVoice[]).map(voice => (
+              <option key={voice} value={voice}>{EXAMINER_VOICE_LABELS[voice]}</option>
+            ))}
+          </select>
+        </label>
+        <label>
+          <span className={labelClassName}>Accent</span>
+          <select
+            value={settings.accent}
+            onChange={(e) => update({ accent: e.target.value as ExaminerAccent })}
+            className={selectClassName}
+          >
+            {(Object.keys(EXAMINER_ACCENT_LABELS) as ExaminerAccent[]).map(accent => (
+              <option key={accent} value={accent}>{EXAMINER_ACCENT_LABELS[accent]}</option>
+            ))}
+          </select>
+        </label>
+        <label>
+          <span className={labelClassName}>Target band</span>
+          <select
+            value={settings.targetBand}
+            onChange={(e) => update({ targetBand: Number(e.target.value) })}
+            className={selectClassName}
+          >
+            {TARGET_BANDS.map(band => (
+              <option key={band} value={band}>{band.toFixed(1)}</option>
+            ))}
+          </select>
+        </label>
+      </div>
+      <span className={labelClassName}>Preferred topics {settings.topics.length === 0 && <span className="normal-case font-medium text-slate-400">· any</span>}</span>
+      <div className="flex flex-wrap gap-1.5">
+        {SPEAKING_TOPICS.map(topic => {
+          const selected = settings.topics.includes(topic);
+          return (
+            <button
+              key={topic}
+              onClick={() => toggleTopic(topic)}
+              className={`text-xs font-medium px-2.5 py-1 rounded-full border transition-colors ${selected ? 'bg-blue-600 text-white border-blue-600' : 'text-slate-600 bg-white border-slate-200 hover:bg-slate-50'}`}
+            >
+              {topic}
+            </button>
+          );
+        })}
+      </div>
+    </div>
+  );
+};
@@ -0,0 +1,180 @@
+import React, { useState } from 'react';
+import { WalletCards, Plus, Trash2, Pencil, Download, GraduationCap, X } from 'lucide-react';
+import { Flashcard, FlashcardDeck } from '../types';
+import {
+  loadDecks, createDeck, renameDeck, deleteDeck, removeCard, saveCard, downloadDeck, DeckExportFormat, DECK_EXPORT_FORMAT_LABELS,
+} from '../services/flashcardDecks';
+import { isDue } from '../services/spacedRepetition';
+import { languageName } from '../services/translatorSettings';
+import { FlashcardReview } from './FlashcardReview';
+
+const dueCount = (deck: FlashcardDeck) => deck.cards.filter(card => isDue(card)).length;
+
+const formatDue = (card: Flashcard) =>
+  isDue(card) ? 'Due now' : `Due ${new Date(card.dueAt).toLocaleDateString()}`;
+
+export const FlashcardDecks: React.FC = () => {
+  const [decks, setDecks] = useState<FlashcardDeck[]>(loadDecks);
+  const [selectedId, setSelectedId] = useState<string | null>(null);
+  const [newDeckName, setNewDeckName] = useState('');
+  const [isReviewing, setIsReviewing] = useState(false);
+
+  const selected = decks.find(d => d.id === selectedId) ?? decks[0] ?? null;
+
+  const handleCreate = () => {
+    if (!newDeckName.trim()) return;
+    const next = createDeck(newDeckName);
+    setDecks(next);
+    setSelectedId(next[next.length - 1].id);
+    setNewDeckName('');
+  };
+
+  const handleRename = (deck: FlashcardDeck) => {
+    const name = prompt("Rename deck:", deck.name);
+    if (name !== null) setDecks(renameDeck(deck.id, name));
+  };
+
+  const handleDelete = (deck: FlashcardDeck) => {
+    if (!confirm(`Delete the deck "${deck.name}" and its ${deck.cards.length} cards?`)) return;
+    setDecks(deleteDeck(deck.id));
+    setSelectedId(null);
+  };
+
+  const handleExport = (deck: FlashcardDeck, format: DeckExportFormat) => {
+    if (deck.cards.length === 0) {
+      alert("This deck has no cards to export.");
+      return;
+    }
+    downloadDeck(deck, format);
+  };
+
+  if (isReviewing && selected) {
+    return (
+      <FlashcardReview
+        deck={selected}
+        onGrade={(card: Flashcard) => setDecks(saveCard(selected.id, card))}
+        onClose={() => setIsReviewing(false)}
+      />
+    );
+  }
+
+  return (
+    <div className="h-full flex flex-col lg:flex-row gap-6">
+      {/* Deck List */}
+      <div className="lg:w-72 shrink-0 bg-white rounded-xl border border-slate-200 shadow-sm flex flex-col overflow-hidden">
+        <div className="px-4 py-3 border-b border-slate-100 bg-slate-50 text-sm font-semibold text-slate-600 flex items-center gap-2">
+          <WalletCards size={16} /> Decks ({decks.length})
+        </div>
+        <div className="flex-1 overflow-y-auto divide-y divide-slate-100">
+          {decks.map(deck => {
+            const due = dueCount(deck);
+            return (
+              <button
+                key={deck.id}
+                onClick={() => setSelectedId(deck.id)}
+                className={`w-full px-4 py-3 text-left flex items-center justify-between gap-2 transition-colors ${selected?.id === deck.id ? 'bg-blue-50' : 'hover:bg-slate-50'}`}
+              >
+                <span className="min-w-0">
+                  <span className="block text-sm font-medium text-slate-700 truncate">{deck.name}</span>
+                  <span className="block text-xs text-slate-400">{deck.cards.length} card{deck.cards.length === 1 ? '' : 's'}</span>
+                </span>
+                {due > 0 && (
+                  <span className="text-[10px] font-bold text-blue-700 bg-blue-100 px-1.5 py-0.5 rounded-full shrink-0">{due} due</span>
+                )}
+              </button>
+            );
+          })}
+        </div>
+        <div className="p-3 border-t border-slate-100 flex gap-2">
+          <input
+            value={newDeckName}
+            onChange={(e) => setNewDeckName(e.target.value)}
+            onKeyDown={(e) => e.key === 'Enter' && handleCreate()}
+            placeholder="New deck name"
+            className="flex-1 min-w-0 text-sm border border-slate-200 rounded-md px-2 py-1.5"
+          />
+          <button
+            onClick={handleCreate}
+            disabled={!newDeckName.trim()}
+            className="p-2 rounded-md bg-blue-600 hover:bg-blue-700 disabled:bg-slate-300 text-white"
+            title="Create deck"
+          >
+            <Plus size={16} />
+          </button>
+        </div>
+      </div>
+
+      {/* Selected Deck */}
+      {!selected ? (
+        <div className="flex-1 bg-white rounded-xl border border-dashed border-slate-200 flex flex-col items-center justify-center text-slate-400 p-8 text-center shadow-sm">
+          <div className="bg-slate-50 p-4 rounded-full mb-4 shadow-sm border border-slate-100">
+            <WalletCards size={32} className="text-slate-300" />
+          </div>
+          <h3 className="text-lg font-semibold text-slate-600 mb-1">No flashcards yet</h3>
+          <p className="max-w-xs text-sm text-slate-500">
+            Save words and phrases from the Translator with the bookmark button, or create a deck here.
+          </p>
+        </div>
+      ) : (
+        <div className="flex-1 min-h-0 bg-white rounded-xl border border-slate-200 shadow-sm flex flex-col overflow-hidden">
+          <div className="px-4 py-3 border-b border-slate-100 bg-slate-50 flex flex-wrap items-center justify-between gap-3 shrink-0">
+            <div className="flex items-center gap-2 min-w-0">
+              <h3 className="text-sm font-semibold text-slate-700 truncate">{selected.name}</h3>
+              <button onClick={() => handleRename(selected)} className="p-1 text-slate-400 hover:text-blue-600" title="Rename deck">
+                <Pencil size={14} />
+              </button>
+              <button onClick={() => handleDelete(selected)} className="p-1 text-slate-400 hover:text-red-600" title="Delete deck">
+                <Trash2 size={14} />
+              </button>
+            </div>
+            <div className="flex items-center gap-2">
+              {(Object.keys(DECK_EXPORT_FORMAT_LABELS) as DeckExportFormat[]).map(format => (
+                <button
+                  key={format}
+                  onClick={() => handleExport(selected, format)}
+                  className="flex items-center gap-1.5 px-3 py-1.5 text-xs font-medium text-slate-600 bg-white border border-slate-200 rounded-md hover:bg-slate-50"
+                  title="Import in Anki with File > Import"
+                >
+                  <Download size={12} /> {DECK_EXPORT_FORMAT_LABELS[format]}
+                </button>
+              ))}
+              <button
+                onClick={() => setIsReviewing(true)}
+                disabled={dueCount(selected) === 0}
+                className="flex items-center gap-1.5 px-4 py-1.5 text-sm font-medium text-white bg-blue-600 hover:bg-blue-700 disabled:bg-slate-300 disabled:cursor-not-allowed rounded-md shadow-sm"
+              >
+                <GraduationCap size={16} /> Review ({dueCount(selected)})
+              </button>
+            </div>
+          </div>
+
+          <div className="flex-1 overflow-y-auto divide-y divide-slate-100">
+            {selected.cards.length === 0 ? (
+              <div className="p-8 text-center text-sm text-slate-400">
+                This deck is empty. Save words from the Translator to fill it.
+              </div>
+            ) : selected.cards.map(card => (
+              <div key={card.id} className="flex items-center gap-4 px-4 py-3">
+                <div className="flex-1 min-w-0">
+                  <p className="text-sm font-medium text-slate-800">
+                    {card.term}
+                    <span className="ml-2 text-[10px] font-bold text-slate-400 uppercase tracking-wider">{languageName(card.language)}</span>
+                  </p>
+                  <p className="text-xs text-slate-500 truncate">{card.definition}</p>
+                </div>
+                <span className={`text-xs shrink-0 ${isDue(card) ? 'text-blue-600 font-medium' : 'text-slate-400'}`}>{formatDue(card)}</span>
+                <button
+                  onClick={() => setDecks(removeCard(selected.id, card.id))}
+                  className="p-1 text-slate-300 hover:text-red-600 shrink-0"
+                  title="Remove card"
+                >
+                  <X size={14} />
+                </button>
+              </div>
+            ))}
+          </div>
+        </div>
+      )}
+    </div>
+  );
+};
@@ -0,0 +1,114 @@
+import React, { useEffect, useState } from 'react';
+import { ArrowLeft, CheckCircle, Eye } from 'lucide-react';
+import { Flashcard, FlashcardDeck, ReviewGrade, REVIEW_GRADE_LABELS } from '../types';
+import { formatInterval, isDue, scheduleReview } from '../services/spacedRepetition';
+import { languageName } from '../services/translatorSettings';
+
+interface FlashcardReviewProps {
+  deck: FlashcardDeck;
+  onGrade: (card: Flashcard) => void; // Called with the rescheduled card after every answer
+  onClose: () => void;
+}
+
+const GRADE_STYLES: Record<ReviewGrade, string> = {
+  again: 'bg-red-50 text-red-700 border-red-200 hover:bg-red-100',
+  hard: 'bg-amber-50 text-amber-700 border-amber-200 hover:bg-amber-100',
+  good: 'bg-green-50 text-green-700 border-green-200 hover:bg-green-100',
+  easy: 'bg-blue-50 text-blue-700 border-blue-200 hover:bg-blue-100',
+};
+
+const GRADES = Object.keys(REVIEW_GRADE_LABELS) as ReviewGrade[];
+
+// Cards due when the session starts, oldest first. Forgotten cards go to the back of the
+// queue and come round again; Space shows the answer and keys 1-4 grade it.
+export const FlashcardReview: React.FC<FlashcardReviewProps> = ({ deck, onGrade, onClose }) => {
+  const [queue, setQueue] = useState<Flashcard[]>(() =>
+    deck.cards.filter((card: Flashcard) => isDue(card)).sort((a: Flashcard, b: Flashcard) => a.dueAt - b.dueAt)
+  );
+  const [isRevealed, setIsRevealed] = useState(false);
+  const [reviewed, setReviewed] = useState(0);
+
+  const card: Flashcard | undefined = queue[0];
+
+  const grade = (value: ReviewGrade) => {
+    if (!card) return;
+    const next = scheduleReview(card, value);
+    onGrade(next);
+    setQueue(prev => value === 'again' ? [...prev.slice(1), next] : prev.slice(1));
+    setReviewed(n => n + 1);
+    setIsRevealed(false);
+  };
+
+  useEffect(() => {
+    const handleKey = (e: KeyboardEvent) => {
+      if (!card) return;
+      if (!isRevealed && (e.key === ' ' || e.key === 'Enter')) {
+        e.preventDefault();
+        setIsRevealed(true);
+      } else if (isRevealed && ['1', '2', '3', '4'].includes(e.key)) {
+        grade(GRADES[Number(e.key) - 1]);
+      }
+    };
+    window.addEventListener('keydown', handleKey);
+    return () => window.removeEventListener('keydown', handleKey);
+  });
+
+  return (
+    <div className="h-full flex flex-col bg-white rounded-xl border border-slate-200 shadow-sm overflow-hidden">
+      <div className="px-4 py-3 border-b border-slate-100 bg-slate-50 flex items-center justify-between shrink-0">
+        <button onClick={onClose} className="flex items-center gap-1.5 text-sm font-medium text-slate-600 hover:text-blue-600">
+          <ArrowLeft size={16} /> {deck.name}
+        </button>
+        <span className="text-xs text-slate-400">{reviewed} reviewed · {queue.length} left</span>
+      </div>
+
+      {!card ? (
+        <div className="flex-1 flex flex-col items-center justify-center p-8 text-center">
+          <CheckCircle size={40} className="text-green-500 mb-4" />
+          <h3 className="text-lg font-semibold text-slate-700 mb-1">All done for now</h3>
+          <p className="text-sm text-slate-500 mb-6">{reviewed ? `You reviewed ${reviewed} card${reviewed === 1 ? '' : 's'}.` : 'No cards in this deck are due.'}</p>
+          <button onClick={onClose} className="px-4 py-2 text-sm font-medium text-white bg-blue-600 hover:bg-blue-700 rounded-lg shadow-sm">
+            Back to deck
+          </button>
+        </div>
+      ) : (
+        <div className="flex-1 flex flex-col items-center justify-center p-8 gap-8">
+          <div className="w-full max-w-lg bg-slate-50 rounded-2xl border border-slate-200 p-8 text-center shadow-sm">
+            <span className="text-[10px] font-bold text-slate-400 uppercase tracking-wider">{languageName(card.language)}</span>
+            <p className="font-serif text-3xl text-slate-900 mt-2">{card.term}</p>
+            {isRevealed && (
+              <div className="mt-6 pt-6 border-t border-slate-200 animate-in fade-in duration-200">
+                <p className="text-base text-slate-700 leading-relaxed">{card.definition || <span className="text-slate-400">No definition saved</span>}</p>
+                {card.context && <p className="text-sm text-slate-400 italic mt-3">"{card.context}"</p>}
+              </div>
+            )}
+          </div>
+
+          {isRevealed ? (
+            <div className="grid grid-cols-4 gap-2 w-full max-w-lg">
+              {GRADES.map((value, i) => (
+                <button
+                  key={value}
+                  onClick={() => grade(value)}
+                  className={`flex flex-col items-center py-2 rounded-lg border text-sm font-semibold transition-colors ${GRADE_STYLES[value]}`}
+                  title={`Key ${i + 1}`}
+                >
+                  {REVIEW_GRADE_LABELS[value]}
+                  <span className="text-[10px] font-medium opacity-70">{formatInterval(scheduleReview(card, value).intervalDays)}</span>
+                </button>
+              ))}
+            </div>
+          ) : (
+            <button
+              onClick={() => setIsRevealed(true)}
+              className="flex items-center gap-2 px-6 py-2.5 text-sm font-medium text-white bg-blue-600 hover:bg-blue-700 rounded-lg shadow-md shadow-blue-600/20"
+              title="Space"
+            >
+              <Eye size={16} /> Show Answer
+            </button>
+          )}
+        </div>
+      )}
+    </div>
+  );
+};
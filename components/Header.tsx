@@ -1,5 +1,6 @@
 import React from 'react';
-import { PenTool, GraduationCap } from 'lucide-react';
+import { PenTool, GraduationCap, WifiOff } from 'lucide-react';
+import { getAIProvider } from '../services/aiService';
 
 export const Header: React.FC = () => {
   return (
@@ -15,6 +16,12 @@ export const Header: React.FC = () => {
           </div>
         </div>
         <div className="hidden md:flex items-center space-x-4 text-sm text-slate-600">
+           {getAIProvider().id === 'mock' && (
+             <span className="flex items-center space-x-1 text-xs font-semibold text-amber-700 bg-amber-50 border border-amber-200 px-2 py-1 rounded-md" title="Responses are canned offline data">
+               <WifiOff size={14} />
+               <span>{getAIProvider().label}</span>
+             </span>
+           )}
            <span className="flex items-center space-x-1">
             <PenTool size={16} />
             <span>Smart Correction</span>
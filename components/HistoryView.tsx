@@ -0,0 +1,169 @@
+import React, { useEffect, useMemo, useState } from 'react';
+import { History, PenTool, Mic, Trash2, ArrowLeft } from 'lucide-react';
+import { SubmissionRecord, MODEL_LABELS, CEFR_LEVELS, WRITING_TASK_LABELS } from '../types';
+import { listSubmissions, deleteSubmission } from '../services/historyStore';
+import { ProgressChart, ChartPoint } from './ProgressChart';
+import { AnalysisResult } from './AnalysisResult';
+import { SpeakingResult } from './SpeakingResult';
+import { ReportExportMenu } from './ReportExportMenu';
+import { TaskChartTable } from './TaskChartTable';
+
+type ModeFilter = 'all' | SubmissionRecord['mode'];
+
+const cefrIndex = (level: string) => CEFR_LEVELS.findIndex(l => level.toUpperCase().startsWith(l));
+
+export const HistoryView: React.FC = () => {
+  const [records, setRecords] = useState<SubmissionRecord[]>([]);
+  const [isLoading, setIsLoading] = useState(true);
+  const [filter, setFilter] = useState<ModeFilter>('all');
+  const [selected, setSelected] = useState<SubmissionRecord | null>(null);
+
+  useEffect(() => {
+    listSubmissions()
+      .then(setRecords)
+      .catch(err => console.error("Failed to load history", err))
+      .finally(() => setIsLoading(false));
+  }, []);
+
+  const visible = useMemo(
+    () => records.filter(r => filter === 'all' || r.mode === filter),
+    [records, filter]
+  );
+
+  const scorePoints: ChartPoint[] = visible.map(r => ({ x: r.createdAt, y: r.analysis.estimatedScore }));
+  const ieltsPoints: ChartPoint[] = visible
+    .map(r => ({ x: r.createdAt, y: parseFloat(r.analysis.ieltsScore) }))
+    .filter(p => !isNaN(p.y));
+  const cefrPoints: ChartPoint[] = visible
+    .map(r => ({ x: r.createdAt, y: cefrIndex(r.analysis.cefrLevel) }))
+    .filter(p => p.y >= 0);
+
+  const handleDelete = async (id?: number) => {
+    if (id === undefined || !confirm("Delete this submission from your history?")) return;
+    try {
+      await deleteSubmission(id);
+      setRecords(prev => prev.filter(r => r.id !== id));
+    } catch (err) {
+      console.error(err);
+      alert("Failed to delete submission.");
+    }
+  };
+
+  if (selected) {
+    return (
+      <div className="h-full flex flex-col gap-4">
+        <div className="flex items-center justify-between shrink-0">
+          <button
+            onClick={() => setSelected(null)}
+            className="flex items-center gap-2 text-sm font-medium text-blue-600 hover:text-blue-700 bg-white px-4 py-2 rounded-lg border border-slate-200 shadow-sm"
+          >
+            <ArrowLeft size={16} /> Back to History
+          </button>
+          <div className="flex items-center gap-3">
+            <span className="text-xs text-slate-400">
+              {new Date(selected.createdAt).toLocaleString()} · {MODEL_LABELS[selected.model] ?? selected.model}
+            </span>
+            <ReportExportMenu source={selected} />
+          </div>
+        </div>
+        <div className="flex-1 min-h-0 grid grid-cols-1 lg:grid-cols-2 gap-6">
+          <div className="bg-white rounded-xl border border-slate-200 shadow-sm p-6 overflow-y-auto">
+            {selected.task && (
+              <div className="mb-4 bg-slate-50 rounded-lg p-3 border border-slate-100">
+                <span className="text-[10px] font-bold text-slate-400 uppercase tracking-wider">{WRITING_TASK_LABELS[selected.task.type]}</span>
+                <p className="text-sm text-slate-700 leading-relaxed">{selected.task.question}</p>
+                {selected.task.chart && <TaskChartTable chart={selected.task.chart} />}
+              </div>
+            )}
+            <h4 className="text-xs font-bold text-slate-500 uppercase tracking-wider mb-3">
+              {selected.mode === 'writing' ? 'Submitted Essay' : 'Transcript'}
+            </h4>
+            <p className="whitespace-pre-wrap font-serif text-lg leading-relaxed text-slate-900">{selected.text}</p>
+          </div>
+          <div className="min-h-0">
+            {selected.mode === 'speaking' ? (
+              <SpeakingResult analysis={selected.analysis} />
+            ) : (
+              <AnalysisResult analysis={selected.analysis} originalText={selected.text} />
+            )}
+          </div>
+        </div>
+      </div>
+    );
+  }
+
+  return (
+    <div className="h-full flex flex-col gap-6">
+      <div className="flex items-center gap-2 shrink-0">
+        {(['all', 'writing', 'speaking'] as ModeFilter[]).map(f => (
+          <button
+            key={f}
+            onClick={() => setFilter(f)}
+            className={`px-3 py-1.5 text-xs font-medium rounded-md border transition-colors capitalize ${filter === f ? 'bg-blue-600 text-white border-blue-600' : 'bg-white text-slate-600 border-slate-200 hover:bg-slate-50'}`}
+          >
+            {f}
+          </button>
+        ))}
+      </div>
+
+      <div className="grid grid-cols-1 lg:grid-cols-3 gap-4 shrink-0">
+        <ProgressChart title="Assessment (0-100)" points={scorePoints} yMin={0} yMax={100} yTicks={[0, 25, 50, 75, 100]} />
+        <ProgressChart title="IELTS Band" points={ieltsPoints} yMin={0} yMax={9} yTicks={[0, 3, 5, 7, 9]} color="#0f172a" />
+        <ProgressChart
+          title="CEFR Level"
+          points={cefrPoints}
+          yMin={0}
+          yMax={CEFR_LEVELS.length - 1}
+          yTicks={CEFR_LEVELS.map((_, i) => i)}
+          formatY={(v) => CEFR_LEVELS[Math.round(v)] ?? ''}
+          color="#7c3aed"
+        />
+      </div>
+
+      <div className="flex-1 min-h-0 bg-white rounded-xl border border-slate-200 shadow-sm overflow-hidden flex flex-col">
+        <div className="px-4 py-3 border-b border-slate-100 bg-slate-50 text-sm font-semibold text-slate-600 flex items-center gap-2 shrink-0">
+          <History size={16} /> Submissions ({visible.length})
+        </div>
+        <div className="flex-1 overflow-y-auto divide-y divide-slate-100">
+          {isLoading ? (
+            <div className="p-8 text-center text-sm text-slate-400">Loading...</div>
+          ) : visible.length === 0 ? (
+            <div className="p-8 text-center text-sm text-slate-400">
+              Your analysed essays and speaking sessions will appear here.
+            </div>
+          ) : (
+            [...visible].reverse().map(record => (
+              <div
+                key={record.id}
+                onClick={() => setSelected(record)}
+                className="flex items-center gap-4 px-4 py-3 hover:bg-slate-50 cursor-pointer transition-colors"
+              >
+                <div className="w-8 h-8 rounded-lg bg-slate-100 text-slate-500 flex items-center justify-center shrink-0">
+                  {record.mode === 'writing' ? <PenTool size={16} /> : <Mic size={16} />}
+                </div>
+                <div className="flex-1 min-w-0">
+                  <p className="text-sm text-slate-700 truncate">{record.text}</p>
+                  <p className="text-xs text-slate-400">
+                    {new Date(record.createdAt).toLocaleString()} · {MODEL_LABELS[record.model] ?? record.model}
+                  </p>
+                </div>
+                <div className="flex items-center gap-3 shrink-0 text-sm">
+                  <span className="font-bold text-slate-700">{record.analysis.cefrLevel}</span>
+                  <span className="text-slate-500">Band {record.analysis.ieltsScore}</span>
+                  <span className="text-slate-400">{record.analysis.estimatedScore}/100</span>
+                  <button
+                    onClick={(e) => { e.stopPropagation(); handleDelete(record.id); }}
+                    className="p-1.5 text-slate-300 hover:text-red-500 rounded transition-colors"
+                    title="Delete"
+                  >
+                    <Trash2 size={14} />
+                  </button>
+                </div>
+              </div>
+            ))
+          )}
+        </div>
+      </div>
+    </div>
+  );
+};
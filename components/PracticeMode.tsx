@@ -0,0 +1,299 @@
+import React, { useEffect, useMemo, useState } from 'react';
+import { Dumbbell, PenTool, Mic, CheckCircle, XCircle, ArrowRight, RefreshCw, Play } from 'lucide-react';
+import { SubmissionRecord } from '../types';
+import { listSubmissions } from '../services/historyStore';
+import {
+  generateExercises, gradeExercise, sentenceWords, Exercise, ExerciseGrade, EXERCISE_KIND_LABELS,
+} from '../services/exerciseGenerator';
+
+// Analyses offered for practice, newest first
+const MAX_SOURCES = 20;
+const EXERCISES_PER_SET = 10;
+
+type Phase = 'setup' | 'running' | 'done';
+
+export const PracticeMode: React.FC = () => {
+  const [submissions, setSubmissions] = useState<SubmissionRecord[]>([]);
+  const [isLoading, setIsLoading] = useState(true);
+  const [selectedIds, setSelectedIds] = useState<Set<number>>(new Set());
+
+  const [phase, setPhase] = useState<Phase>('setup');
+  const [exercises, setExercises] = useState<Exercise[]>([]);
+  const [current, setCurrent] = useState(0);
+  const [grades, setGrades] = useState<ExerciseGrade[]>([]);
+
+  // Answer for the current exercise
+  const [textAnswer, setTextAnswer] = useState('');
+  const [selectedWords, setSelectedWords] = useState<number[]>([]);
+
+  useEffect(() => {
+    listSubmissions()
+      .then(records => {
+        const recent = records.filter(r => r.analysis.corrections.length > 0).reverse().slice(0, MAX_SOURCES);
+        setSubmissions(recent);
+        if (recent[0]?.id !== undefined) setSelectedIds(new Set([recent[0].id]));
+      })
+      .catch(err => console.error("Failed to load history", err))
+      .finally(() => setIsLoading(false));
+  }, []);
+
+  const selected = useMemo(() => submissions.filter(s => s.id !== undefined && selectedIds.has(s.id)), [submissions, selectedIds]);
+  const preview = useMemo(() => generateExercises(selected, EXERCISES_PER_SET), [selected]);
+
+  const exercise = exercises[current];
+  const grade = grades[current];
+
+  const toggleSource = (id?: number) => {
+    if (id === undefined) return;
+    setSelectedIds(prev => {
+      const next = new Set(prev);
+      if (next.has(id)) next.delete(id); else next.add(id);
+      return next;
+    });
+  };
+
+  const startPractice = () => {
+    setExercises(preview);
+    setGrades([]);
+    setCurrent(0);
+    setTextAnswer('');
+    setSelectedWords([]);
+    setPhase('running');
+  };
+
+  const checkAnswer = () => {
+    if (!exercise) return;
+    const result = gradeExercise(exercise, exercise.kind === 'error-spotting' ? selectedWords : textAnswer);
+    setGrades(prev => [...prev, result]);
+  };
+
+  const nextExercise = () => {
+    setTextAnswer('');
+    setSelectedWords([]);
+    if (current + 1 >= exercises.length) {
+      setPhase('done');
+    } else {
+      setCurrent(current + 1);
+    }
+  };
+
+  const toggleWord = (index: number) => {
+    if (grade) return;
+    setSelectedWords(prev => prev.includes(index) ? prev.filter(i => i !== index) : [...prev, index]);
+  };
+
+  const canCheck = exercise?.kind === 'error-spotting' ? selectedWords.length > 0 : Boolean(textAnswer.trim());
+
+  if (isLoading) {
+    return <div className="p-8 text-center text-sm text-slate-400">Loading...</div>;
+  }
+
+  // --- Setup ---
+
+  if (phase === 'setup') {
+    if (submissions.length === 0) {
+      return (
+        <div className="h-full bg-white rounded-xl border border-dashed border-slate-200 flex flex-col items-center justify-center text-slate-400 p-8 text-center shadow-sm">
+          <div className="bg-slate-50 p-4 rounded-full mb-4 shadow-sm border border-slate-100">
+            <Dumbbell size={32} className="text-slate-300" />
+          </div>
+          <h3 className="text-lg font-semibold text-slate-600 mb-1">Nothing to practise yet</h3>
+          <p className="max-w-xs text-sm text-slate-500">
+            Analyse an essay or a speaking session first. Exercises are built from the mistakes it finds.
+          </p>
+        </div>
+      );
+    }
+
+    return (
+      <div className="h-full flex flex-col gap-4">
+        <div className="flex-1 min-h-0 bg-white rounded-xl border border-slate-200 shadow-sm overflow-hidden flex flex-col">
+          <div className="px-4 py-3 border-b border-slate-100 bg-slate-50 text-sm font-semibold text-slate-600 shrink-0">
+            Choose the analyses to practise
+          </div>
+          <div className="flex-1 overflow-y-auto divide-y divide-slate-100">
+            {submissions.map(record => (
+              <label key={record.id} className="flex items-center gap-4 px-4 py-3 hover:bg-slate-50 cursor-pointer transition-colors">
+                <input
+                  type="checkbox"
+                  checked={record.id !== undefined && selectedIds.has(record.id)}
+                  onChange={() => toggleSource(record.id)}
+                />
+                <div className="w-8 h-8 rounded-lg bg-slate-100 text-slate-500 flex items-center justify-center shrink-0">
+                  {record.mode === 'writing' ? <PenTool size={16} /> : <Mic size={16} />}
+                </div>
+                <div className="flex-1 min-w-0">
+                  <p className="text-sm text-slate-700 truncate">{record.text}</p>
+                  <p className="text-xs text-slate-400">{new Date(record.createdAt).toLocaleString()}</p>
+                </div>
+                <span className="text-sm text-slate-500 shrink-0">{record.analysis.corrections.length} corrections</span>
+              </label>
+            ))}
+          </div>
+        </div>
+        <div className="flex items-center justify-between shrink-0">
+          <span className="text-sm text-slate-500">
+            {preview.length} exercise{preview.length === 1 ? '' : 's'} from {selected.length} analys{selected.length === 1 ? 'is' : 'es'}
+          </span>
+          <button
+            onClick={startPractice}
+            disabled={preview.length === 0}
+            className="flex items-center gap-2 bg-blue-600 hover:bg-blue-700 disabled:bg-blue-300 text-white px-5 py-2.5 rounded-lg font-medium shadow-md shadow-blue-600/20 transition-all active:scale-95"
+          >
+            <Play size={18} /> Start Practice
+          </button>
+        </div>
+      </div>
+    );
+  }
+
+  // --- Results ---
+
+  if (phase === 'done') {
+    const score = grades.filter(g => g.correct).length;
+    return (
+      <div className="h-full flex flex-col gap-4">
+        <div className="bg-white rounded-xl border border-slate-200 shadow-sm p-6 flex items-center justify-between shrink-0">
+          <div>
+            <h3 className="text-lg font-bold text-slate-900">Practice complete</h3>
+            <p className="text-sm text-slate-500">You answered {score} of {exercises.length} correctly.</p>
+          </div>
+          <div className="flex items-center gap-3">
+            <button
+              onClick={startPractice}
+              className="flex items-center gap-2 text-sm font-medium text-blue-600 hover:text-blue-700 bg-white px-4 py-2 rounded-lg border border-slate-200 shadow-sm"
+            >
+              <RefreshCw size={16} /> Try Again
+            </button>
+            <button
+              onClick={() => setPhase('setup')}
+              className="text-sm font-medium text-slate-600 hover:text-slate-800 bg-white px-4 py-2 rounded-lg border border-slate-200 shadow-sm"
+            >
+              New Set
+            </button>
+          </div>
+        </div>
+        <div className="flex-1 min-h-0 bg-white rounded-xl border border-slate-200 shadow-sm overflow-y-auto divide-y divide-slate-100">
+          {exercises.map((item, i) => (
+            <div key={item.id} className="flex items-start gap-3 px-4 py-3">
+              {grades[i]?.correct
+                ? <CheckCircle size={18} className="text-green-600 mt-0.5 shrink-0" />
+                : <XCircle size={18} className="text-red-500 mt-0.5 shrink-0" />}
+              <div className="min-w-0">
+                <p className="text-[10px] font-bold text-slate-400 uppercase tracking-wider">{EXERCISE_KIND_LABELS[item.kind]}</p>
+                <p className="text-sm text-slate-700">{item.sentence}</p>
+                <p className="text-xs text-slate-500 leading-relaxed">{grades[i]?.feedback}</p>
+              </div>
+            </div>
+          ))}
+        </div>
+      </div>
+    );
+  }
+
+  // --- Exercise ---
+
+  const before = exercise.sentence.slice(0, exercise.errorStart);
+  const after = exercise.sentence.slice(exercise.errorEnd);
+
+  return (
+    <div className="h-full flex flex-col gap-4">
+      <div className="flex items-center justify-between shrink-0">
+        <span className="text-sm font-medium text-slate-500">Exercise {current + 1} of {exercises.length}</span>
+        <div className="w-48 h-2 bg-slate-200 rounded-full overflow-hidden">
+          <div className="h-full bg-blue-600 transition-all" style={{ width: `${(current / exercises.length) * 100}%` }} />
+        </div>
+      </div>
+
+      <div className="bg-white rounded-xl border border-slate-200 shadow-sm p-6 flex flex-col gap-5">
+        <div className="flex items-center gap-2">
+          <span className="text-xs font-bold text-blue-600 uppercase tracking-wider">{EXERCISE_KIND_LABELS[exercise.kind]}</span>
+          <span className="text-[10px] font-medium text-slate-500 bg-slate-100 px-2 py-0.5 rounded-full border border-slate-200 capitalize">
+            {exercise.correction.type}
+          </span>
+        </div>
+
+        {exercise.kind === 'gap-fill' && (
+          <>
+            <p className="text-sm text-slate-500">Complete the sentence from your own writing. The word in brackets is what you originally wrote.</p>
+            <p className="font-serif text-lg leading-relaxed text-slate-900">
+              {before}
+              <span className="inline-block min-w-[4rem] border-b-2 border-blue-400 mx-1 text-center text-blue-700">{grade ? exercise.expected : ' '}</span>
+              <span className="text-slate-400 text-base">({exercise.correction.originalText})</span>
+              {after}
+            </p>
+          </>
+        )}
+
+        {exercise.kind === 'error-spotting' && (
+          <>
+            <p className="text-sm text-slate-500">Click the word or words that contain the mistake.</p>
+            <p className="font-serif text-lg leading-loose text-slate-900 flex flex-wrap gap-x-1.5">
+              {sentenceWords(exercise.sentence).map((word, i) => {
+                const isError = word.start < exercise.errorEnd && word.end > exercise.errorStart;
+                const isSelected = selectedWords.includes(i);
+                return (
+                  <span
+                    key={i}
+                    onClick={() => toggleWord(i)}
+                    className={`rounded px-0.5 transition-colors ${grade ? '' : 'cursor-pointer hover:bg-blue-50'} ${
+                      grade && isError ? 'bg-red-100 text-red-700' :
+                      isSelected ? 'bg-blue-100 text-blue-800 ring-1 ring-blue-300' : ''
+                    }`}
+                  >
+                    {word.text}
+                  </span>
+                );
+              })}
+            </p>
+          </>
+        )}
+
+        {exercise.kind === 'transformation' && (
+          <>
+            <p className="text-sm text-slate-500">Rewrite your sentence so that it is correct.</p>
+            <p className="font-serif text-lg leading-relaxed text-slate-900 bg-slate-50 rounded-lg p-3 border border-slate-100">{exercise.sentence}</p>
+          </>
+        )}
+
+        {exercise.kind !== 'error-spotting' && (
+          <input
+            value={textAnswer}
+            onChange={(e) => setTextAnswer(e.target.value)}
+            onKeyDown={(e) => { if (e.key === 'Enter' && canCheck && !grade) checkAnswer(); }}
+            disabled={Boolean(grade)}
+            placeholder={exercise.kind === 'gap-fill' ? 'Your answer...' : 'Corrected sentence...'}
+            className="w-full text-base border border-slate-200 rounded-lg px-3 py-2 focus:outline-none focus:ring-2 focus:ring-blue-100 disabled:bg-slate-50"
+            autoFocus
+          />
+        )}
+
+        {grade && (
+          <div className={`rounded-lg p-3 border flex items-start gap-2 text-sm ${grade.correct ? 'bg-green-50 text-green-700 border-green-200' : 'bg-red-50 text-red-700 border-red-200'}`}>
+            {grade.correct ? <CheckCircle size={16} className="mt-0.5 shrink-0" /> : <XCircle size={16} className="mt-0.5 shrink-0" />}
+            <p className="leading-relaxed">{grade.feedback}</p>
+          </div>
+        )}
+
+        <div className="flex justify-end">
+          {grade ? (
+            <button
+              onClick={nextExercise}
+              className="flex items-center gap-2 bg-blue-600 hover:bg-blue-700 text-white px-5 py-2 rounded-lg font-medium shadow-md shadow-blue-600/20 transition-all active:scale-95"
+            >
+              {current + 1 >= exercises.length ? 'See Results' : 'Next'} <ArrowRight size={16} />
+            </button>
+          ) : (
+            <button
+              onClick={checkAnswer}
+              disabled={!canCheck}
+              className="bg-blue-600 hover:bg-blue-700 disabled:bg-blue-300 text-white px-5 py-2 rounded-lg font-medium shadow-md shadow-blue-600/20 transition-all active:scale-95"
+            >
+              Check
+            </button>
+          )}
+        </div>
+      </div>
+    </div>
+  );
+};
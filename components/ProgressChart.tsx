@@ -0,0 +1,69 @@
+import React from 'react';
+
+export interface ChartPoint {
+  x: number; // Timestamp (ms)
+  y: number;
+}
+
+interface ProgressChartProps {
+  title: string;
+  points: ChartPoint[];
+  yMin: number;
+  yMax: number;
+  yTicks: number[];
+  formatY?: (value: number) => string;
+  color?: string;
+}
+
+const WIDTH = 480;
+const HEIGHT = 180;
+const PADDING = { top: 12, right: 16, bottom: 28, left: 36 };
+
+const formatDate = (ts: number) => new Date(ts).toLocaleDateString(undefined, { day: 'numeric', month: 'short' });
+
+// Lightweight SVG line chart; scales to its container width
+export const ProgressChart: React.FC<ProgressChartProps> = ({ title, points, yMin, yMax, yTicks, formatY = String, color = '#2563eb' }) => {
+  const innerW = WIDTH - PADDING.left - PADDING.right;
+  const innerH = HEIGHT - PADDING.top - PADDING.bottom;
+
+  const xMin = points.length ? points[0].x : 0;
+  const xMax = points.length ? points[points.length - 1].x : 1;
+  const xSpan = xMax - xMin || 1;
+
+  const scaleX = (x: number) => PADDING.left + (points.length > 1 ? ((x - xMin) / xSpan) * innerW : innerW / 2);
+  const scaleY = (y: number) => PADDING.top + innerH - ((y - yMin) / (yMax - yMin || 1)) * innerH;
+
+  const path = points.map((p, i) => `${i === 0 ? 'M' : 'L'}${scaleX(p.x).toFixed(1)},${scaleY(p.y).toFixed(1)}`).join(' ');
+
+  return (
+    <div className="bg-white rounded-xl border border-slate-200 shadow-sm p-4">
+      <h4 className="text-xs font-bold text-slate-500 uppercase tracking-wider mb-2">{title}</h4>
+      {points.length === 0 ? (
+        <div className="h-[180px] flex items-center justify-center text-sm text-slate-300">No data yet</div>
+      ) : (
+        <svg viewBox={`0 0 ${WIDTH} ${HEIGHT}`} className="w-full h-auto">
+          {yTicks.map(tick => (
+            <g key={tick}>
+              <line x1={PADDING.left} x2={WIDTH - PADDING.right} y1={scaleY(tick)} y2={scaleY(tick)} stroke="#f1f5f9" />
+              <text x={PADDING.left - 6} y={scaleY(tick)} textAnchor="end" dominantBaseline="middle" className="fill-slate-400 text-[10px]">
+                {formatY(tick)}
+              </text>
+            </g>
+          ))}
+
+          <text x={PADDING.left} y={HEIGHT - 8} className="fill-slate-400 text-[10px]">{formatDate(xMin)}</text>
+          {points.length > 1 && (
+            <text x={WIDTH - PADDING.right} y={HEIGHT - 8} textAnchor="end" className="fill-slate-400 text-[10px]">{formatDate(xMax)}</text>
+          )}
+
+          <path d={path} fill="none" stroke={color} strokeWidth={2} strokeLinejoin="round" strokeLinecap="round" />
+          {points.map((p, i) => (
+            <circle key={i} cx={scaleX(p.x)} cy={scaleY(p.y)} r={3.5} fill="white" stroke={color} strokeWidth={2}>
+              <title>{`${formatDate(p.x)}: ${formatY(p.y)}`}</title>
+            </circle>
+          ))}
+        </svg>
+      )}
+    </div>
+  );
+};
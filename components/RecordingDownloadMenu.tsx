@@ -0,0 +1,65 @@
+import React, { useEffect, useRef, useState } from 'react';
+import { Headphones } from 'lucide-react';
+import { SessionRecorder, RecordingFormat, RECORDING_FORMAT_LABELS, downloadRecording } from '../services/sessionRecorder';
+
+interface RecordingDownloadMenuProps {
+  recorder: SessionRecorder;
+}
+
+export const RecordingDownloadMenu: React.FC<RecordingDownloadMenuProps> = ({ recorder }) => {
+  const [isOpen, setIsOpen] = useState(false);
+  const menuRef = useRef<HTMLDivElement>(null);
+
+  // Close when clicking anywhere outside the menu
+  useEffect(() => {
+    if (!isOpen) return;
+    const handleClick = (e: MouseEvent) => {
+      if (!menuRef.current?.contains(e.target as Node)) setIsOpen(false);
+    };
+    document.addEventListener('mousedown', handleClick);
+    return () => document.removeEventListener('mousedown', handleClick);
+  }, [isOpen]);
+
+  const handleDownload = async (format: RecordingFormat) => {
+    setIsOpen(false);
+    try {
+      // The Opus file is only complete once the media recorder has flushed
+      await recorder.stop();
+      const blob = recorder.exportSession(format);
+      if (!blob) {
+        alert("Nothing was recorded in this session.");
+        return;
+      }
+      downloadRecording(blob, format);
+    } catch (err) {
+      console.error("Failed to export recording", err);
+      alert("Failed to export the recording.");
+    }
+  };
+
+  return (
+    <div className="relative" ref={menuRef}>
+      <button
+        onClick={() => setIsOpen(!isOpen)}
+        className="flex items-center gap-2 bg-white hover:bg-slate-50 text-slate-700 px-4 py-2 rounded-lg text-sm font-medium border border-slate-200 shadow-sm transition-all"
+      >
+        <Headphones size={16} /> Recording
+      </button>
+      {isOpen && (
+        <div className="absolute right-0 top-full mt-1 z-50 w-48 bg-white rounded-lg border border-slate-200 shadow-lg py-1">
+          {(Object.keys(RECORDING_FORMAT_LABELS) as RecordingFormat[]).map(format => (
+            <button
+              key={format}
+              onClick={() => handleDownload(format)}
+              disabled={format === 'opus' && !recorder.hasOpus}
+              className="w-full px-3 py-2 text-sm text-slate-700 hover:bg-slate-50 disabled:text-slate-300 disabled:hover:bg-white text-left"
+              title={format === 'opus' && !recorder.hasOpus ? 'This browser cannot record Opus audio' : undefined}
+            >
+              {RECORDING_FORMAT_LABELS[format]}
+            </button>
+          ))}
+        </div>
+      )}
+    </div>
+  );
+};
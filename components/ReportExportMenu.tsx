@@ -0,0 +1,65 @@
+import React, { useEffect, useRef, useState } from 'react';
+import { Download, FileText, FileType, FileDown } from 'lucide-react';
+import { exportReport, ReportFormat, ReportSource, REPORT_FORMAT_LABELS } from '../services/reportExport';
+
+interface ReportExportMenuProps {
+  source: ReportSource;
+  disabled?: boolean;
+}
+
+const FORMAT_ICONS: Record<ReportFormat, React.ReactNode> = {
+  pdf: <FileDown size={14} />,
+  docx: <FileType size={14} />,
+  markdown: <FileText size={14} />,
+};
+
+export const ReportExportMenu: React.FC<ReportExportMenuProps> = ({ source, disabled }) => {
+  const [isOpen, setIsOpen] = useState(false);
+  const menuRef = useRef<HTMLDivElement>(null);
+
+  // Close when clicking anywhere outside the menu
+  useEffect(() => {
+    if (!isOpen) return;
+    const handleClick = (e: MouseEvent) => {
+      if (!menuRef.current?.contains(e.target as Node)) setIsOpen(false);
+    };
+    document.addEventListener('mousedown', handleClick);
+    return () => document.removeEventListener('mousedown', handleClick);
+  }, [isOpen]);
+
+  const handleExport = (format: ReportFormat) => {
+    setIsOpen(false);
+    try {
+      exportReport(source, format);
+    } catch (err) {
+      console.error("Failed to export report", err);
+      alert("Failed to export the report.");
+    }
+  };
+
+  return (
+    <div className="relative" ref={menuRef}>
+      <button
+        onClick={() => setIsOpen(!isOpen)}
+        disabled={disabled}
+        className="flex items-center gap-2 bg-white hover:bg-slate-50 disabled:opacity-50 text-slate-700 px-4 py-2 rounded-lg text-sm font-medium border border-slate-200 shadow-sm transition-all"
+      >
+        <Download size={16} /> Export Report
+      </button>
+      {isOpen && (
+        <div className="absolute right-0 top-full mt-1 z-50 w-48 bg-white rounded-lg border border-slate-200 shadow-lg py-1">
+          {(Object.keys(REPORT_FORMAT_LABELS) as ReportFormat[]).map(format => (
+            <button
+              key={format}
+              onClick={() => handleExport(format)}
+              className="w-full flex items-center gap-2 px-3 py-2 text-sm text-slate-700 hover:bg-slate-50 text-left"
+              title={format === 'pdf' ? 'Opens the print dialog; choose "Save as PDF"' : undefined}
+            >
+              {FORMAT_ICONS[format]} {REPORT_FORMAT_LABELS[format]}
+            </button>
+          ))}
+        </div>
+      )}
+    </div>
+  );
+};
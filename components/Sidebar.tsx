@@ -1,5 +1,5 @@
 import React from 'react';
-import { PenTool, Mic, Languages } from 'lucide-react';
+import { PenTool, Mic, Languages, History, NotebookPen, Dumbbell, WalletCards } from 'lucide-react';
 import { AppMode } from '../types';
 
 interface SidebarProps {
@@ -47,6 +47,54 @@ export const Sidebar: React.FC<SidebarProps> = ({ currentMode, onModeChange, dis
       >
         <Languages size={24} />
       </button>
+      <button
+        onClick={() => onModeChange('history')}
+        disabled={disabled}
+        className={`p-3 rounded-xl transition-all ${
+          currentMode === 'history'
+            ? 'bg-blue-600 text-white shadow-md shadow-blue-600/20'
+            : 'text-slate-400 hover:bg-slate-50 hover:text-slate-600'
+        }`}
+        title="Progress History"
+      >
+        <History size={24} />
+      </button>
+      <button
+        onClick={() => onModeChange('notebook')}
+        disabled={disabled}
+        className={`p-3 rounded-xl transition-all ${
+          currentMode === 'notebook'
+            ? 'bg-blue-600 text-white shadow-md shadow-blue-600/20'
+            : 'text-slate-400 hover:bg-slate-50 hover:text-slate-600'
+        }`}
+        title="Error Notebook"
+      >
+        <NotebookPen size={24} />
+      </button>
+      <button
+        onClick={() => onModeChange('practice')}
+        disabled={disabled}
+        className={`p-3 rounded-xl transition-all ${
+          currentMode === 'practice'
+            ? 'bg-blue-600 text-white shadow-md shadow-blue-600/20'
+            : 'text-slate-400 hover:bg-slate-50 hover:text-slate-600'
+        }`}
+        title="Practice"
+      >
+        <Dumbbell size={24} />
+      </button>
+      <button
+        onClick={() => onModeChange('flashcards')}
+        disabled={disabled}
+        className={`p-3 rounded-xl transition-all ${
+          currentMode === 'flashcards'
+            ? 'bg-blue-600 text-white shadow-md shadow-blue-600/20'
+            : 'text-slate-400 hover:bg-slate-50 hover:text-slate-600'
+        }`}
+        title="Flashcards"
+      >
+        <WalletCards size={24} />
+      </button>
     </div>
   );
 };
\ No newline at end of file
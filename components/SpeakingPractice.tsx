@@ -1,24 +1,41 @@
 import React, { useState, useRef, useEffect } from 'react';
-import { Mic, Send, Bot, User, StopCircle, RefreshCw, BarChart2, Play, Volume2, VolumeX, Activity, Radio } from 'lucide-react';
-import { GeminiModel, ChatMessage, EssayAnalysis } from '../types';
-import { analyzeSpeakingSession, createLiveSession } from '../services/geminiService';
-import { AnalysisResult } from './AnalysisResult';
-import { LiveServerMessage, LiveSession } from '@google/genai';
+import { Mic, Send, Bot, User, StopCircle, RefreshCw, BarChart2, Play, Volume2, VolumeX, Activity, Radio, Timer, SkipForward, StickyNote, Square, MessageSquareText, Keyboard, MicOff, X } from 'lucide-react';
+import { GeminiModel, ChatMessage, Correction, SpeakingAnalysis, CueCard, ExaminerSettings, SPEAKING_PART_LABELS, MODEL_LABELS, EXAMINER_ACCENT_LABELS } from '../types';
+import { analyzeSpeakingSession, createLiveSession, getExaminerResponse } from '../services/aiService';
+import { SpeakingResult } from './SpeakingResult';
+import { ReportExportMenu } from './ReportExportMenu';
+import { RecordingDownloadMenu } from './RecordingDownloadMenu';
+import { ExaminerSetup } from './ExaminerSetup';
+import { CorrectionTooltip, CorrectionTooltipState, tooltipAt } from './CorrectionTooltip';
+import { saveSubmission } from '../services/historyStore';
+import { addSubmissionToNotebook } from '../services/errorNotebook';
+import { AIServiceError, RequestCancelledError, isAbortError } from '../services/aiErrors';
+import { withRetry } from '../services/retry';
+import { LiveMessage, LiveSessionHandle } from '../services/aiProvider';
+import { TEST_STAGES, TestStage, nextStage, pickCueCard, resumeInstruction, stageInstruction } from '../services/speakingTest';
+import { SessionRecorder, createSessionRecorder, INPUT_SAMPLE_RATE } from '../services/sessionRecorder';
+import { MicCapture, startMicCapture } from '../services/micCapture';
+import { SpeechRecognizer, createSpeechRecognizer, hasSpeechRecognition, hasSpeechSynthesis, speak, cancelSpeech } from '../services/browserSpeech';
+import { computeFluencyMetrics } from '../services/fluencyMetrics';
+import { buildPronunciationSample } from '../services/pronunciationSample';
+import { ACCENT_SPEECH_LANGS, loadExaminerSettings, saveExaminerSettings } from '../services/examinerSettings';
+import { isAnchored } from '../services/correctionAnchors';
 
 interface SpeakingPracticeProps {
   model: GeminiModel;
 }
 
-// Audio Utils
-function floatTo16BitPCM(input: Float32Array) {
-    const output = new Int16Array(input.length);
-    for (let i = 0; i < input.length; i++) {
-        const s = Math.max(-1, Math.min(1, input[i]));
-        output[i] = s < 0 ? s * 0x8000 : s * 0x7FFF;
-    }
-    return output;
-}
+// 'live' streams audio over the Live API; 'text' asks the examiner turn by turn and takes typed or dictated answers
+type SessionMode = 'live' | 'text';
 
+// 'lost' once every reconnection attempt has failed; the learner can retry or finish with what they have
+type ConnectionStatus = 'connected' | 'reconnecting' | 'lost';
+
+// A dropped Live socket is reopened up to five times, backing off from one second
+const RECONNECT_RETRIES = 4;
+const RECONNECT_BASE_DELAY_MS = 1000;
+
+// Audio Utils
 function base64ToUint8Array(base64: string) {
     const binaryString = atob(base64);
     const len = binaryString.length;
@@ -39,43 +56,201 @@ function arrayBufferToBase64(buffer: ArrayBuffer) {
     return btoa(binary);
 }
 
+// A heading line is inserted whenever the test moves on to another part
+const formatTranscript = (messages: ChatMessage[]) =>
+    messages.map((m, i) => {
+        const line = `${m.role === 'user' ? 'You' : 'Examiner'}: ${m.text}`;
+        return m.part && m.part !== messages[i - 1]?.part ? `${SPEAKING_PART_LABELS[m.part]}\n${line}` : line;
+    }).join('\n');
+
+const formatDuration = (seconds: number) => `${Math.floor(seconds / 60)}:${String(seconds % 60).padStart(2, '0')}`;
+
+type IndexedCorrection = Correction & { start: number; end: number; index: number };
+
+// Anchored corrections said in one user turn, in text order; `index` is the position in the analysis
+const correctionsForMessage = (analysis: SpeakingAnalysis | null, messageIndex: number): IndexedCorrection[] =>
+    (analysis?.corrections ?? [])
+        .flatMap((c, index) => isAnchored(c) && c.messageIndex === messageIndex ? [{ ...c, index }] : [])
+        .sort((a, b) => a.start - b.start);
+
+interface MessageBubbleProps {
+  message: ChatMessage;
+  isPlaying: boolean;
+  onPlay?: () => void; // Only when the turn has recorded audio
+  corrections?: IndexedCorrection[];
+  onCorrectionEnter?: (e: React.MouseEvent, correction: IndexedCorrection) => void;
+  onCorrectionLeave?: () => void;
+}
+
+// Splits the message around its corrections; errors are underlined like in the essay editor
+const renderHighlightedText = (
+    text: string,
+    corrections: IndexedCorrection[],
+    onEnter?: MessageBubbleProps['onCorrectionEnter'],
+    onLeave?: () => void
+) => {
+    const segments: React.ReactNode[] = [];
+    let currentIndex = 0;
+    for (const correction of corrections) {
+        if (correction.start < currentIndex || correction.end > text.length) continue;
+        if (correction.start > currentIndex) segments.push(text.substring(currentIndex, correction.start));
+        segments.push(
+            <span
+                key={`err-${correction.start}`}
+                onMouseEnter={(e) => onEnter?.(e, correction)}
+                onMouseLeave={onLeave}
+                className="cursor-help bg-white/20 rounded px-0.5 underline decoration-wavy decoration-amber-300 underline-offset-4"
+            >
+                {text.substring(correction.start, correction.end)}
+            </span>
+        );
+        currentIndex = correction.end;
+    }
+    if (currentIndex < text.length) segments.push(text.substring(currentIndex));
+    return segments;
+};
+
+const MessageBubble: React.FC<MessageBubbleProps> = ({ message, isPlaying, onPlay, corrections, onCorrectionEnter, onCorrectionLeave }) => (
+    <div className={`flex w-full animate-in slide-in-from-bottom-2 fade-in duration-300 ${message.role === 'user' ? 'justify-end' : 'justify-start'}`}>
+        <div className={`flex max-w-[85%] sm:max-w-[75%] gap-3 ${message.role === 'user' ? 'flex-row-reverse' : 'flex-row'}`}>
+            <div className={`w-8 h-8 rounded-full flex items-center justify-center shrink-0 mt-1 shadow-sm border ${message.role === 'user' ? 'bg-blue-100 text-blue-600 border-blue-200' : 'bg-white text-slate-600 border-slate-200'}`}>
+                {message.role === 'user' ? <User size={16} /> : <Bot size={16} />}
+            </div>
+            <div className={`p-4 rounded-2xl text-sm leading-relaxed shadow-sm ${
+                message.role === 'user'
+                ? 'bg-blue-600 text-white rounded-tr-none shadow-blue-600/10'
+                : 'bg-white text-slate-800 border border-slate-200 rounded-tl-none'
+            }`}>
+                {corrections?.length ? renderHighlightedText(message.text, corrections, onCorrectionEnter, onCorrectionLeave) : message.text}
+            </div>
+            {onPlay && (
+                <button
+                    onClick={onPlay}
+                    className="self-center p-1.5 rounded-full text-slate-400 hover:text-blue-600 hover:bg-white border border-transparent hover:border-slate-200 transition-colors shrink-0"
+                    title={isPlaying ? "Stop" : "Play this turn"}
+                >
+                    {isPlaying ? <Square size={14} /> : <Play size={14} />}
+                </button>
+            )}
+        </div>
+    </div>
+);
+
+const NEXT_STAGE_LABELS: Partial<Record<TestStage, string>> = {
+  part1: 'Go to Part 2',
+  prep: 'Start Speaking',
+  'long-turn': 'Go to Part 3',
+};
+
+// Meter levels (0 = -60 dBFS, 1 = 0 dBFS) at which each bar lights; speech sits around the middle
+const METER_BARS = [0.25, 0.4, 0.55, 0.7, 0.85];
+const METER_HOT = 0.85;
+
 export const SpeakingPractice: React.FC<SpeakingPracticeProps> = ({ model }) => {
   const [messages, setMessages] = useState<ChatMessage[]>([]);
   const [isConnected, setIsConnected] = useState(false);
   const [isProcessing, setIsProcessing] = useState(false);
-  const [analysis, setAnalysis] = useState<EssayAnalysis | null>(null);
+  // Set once the learner finishes: the call is torn down, but the transcript can still be analysed
+  const [hasEnded, setHasEnded] = useState(false);
+  const [analysis, setAnalysis] = useState<SpeakingAnalysis | null>(null);
+  // Hovered error in the post-session transcript
+  const [tooltip, setTooltip] = useState<CorrectionTooltipState | null>(null);
   const [isMuted, setIsMuted] = useState(false);
   const [volumeLevel, setVolumeLevel] = useState(0);
 
   // Live API & Audio Refs
-  const sessionRef = useRef<Promise<LiveSession> | null>(null);
+  const sessionRef = useRef<Promise<LiveSessionHandle> | null>(null);
   const audioContextRef = useRef<AudioContext | null>(null);
   const nextStartTimeRef = useRef<number>(0);
   const sourcesRef = useRef<Set<AudioBufferSourceNode>>(new Set());
-  const processorRef = useRef<ScriptProcessorNode | null>(null);
-  const inputSourceRef = useRef<MediaStreamAudioSourceNode | null>(null);
+  const captureRef = useRef<MicCapture | null>(null);
   const streamRef = useRef<MediaStream | null>(null);
   const isConnectedRef = useRef(false);
+  const analysisAbortRef = useRef<AbortController | null>(null);
+
+  // Reconnection: every socket gets a generation number so events from a replaced one are ignored
+  const socketOpenRef = useRef(false);
+  const generationRef = useRef(0);
+  const connectAbortRef = useRef<AbortController | null>(null);
+  const messagesRef = useRef<ChatMessage[]>([]);
+  const [connectionStatus, setConnectionStatus] = useState<ConnectionStatus>('connected');
+  const [reconnectAttempt, setReconnectAttempt] = useState(0);
+  const [connectionError, setConnectionError] = useState<string | null>(null);
+
+  // Test structure: the current stage drives the examiner, the timer and the part tags
+  const [stage, setStage] = useState<TestStage | null>(null);
+  const [stageStartedAt, setStageStartedAt] = useState(0);
+  const [now, setNow] = useState(Date.now());
+  const [cueCard, setCueCard] = useState<CueCard>(pickCueCard);
+  const [notes, setNotes] = useState('');
+  const stageRef = useRef<TestStage | null>(null);
+  const cueCardRef = useRef(cueCard);
+
+  // Examiner voice, accent, difficulty and topics, chosen on the setup screen
+  const [examinerSettings, setExaminerSettings] = useState<ExaminerSettings>(loadExaminerSettings);
+
+  // Local recording of both sides, kept after the call for playback and download
+  const recorderRef = useRef<SessionRecorder | null>(null);
+  const mixDestinationRef = useRef<MediaStreamAudioDestinationNode | null>(null);
+  const playbackRef = useRef<HTMLAudioElement | null>(null);
+  const [playingIndex, setPlayingIndex] = useState<number | null>(null);
+  const [showTranscript, setShowTranscript] = useState(false);
+
+  // Text-chat mode: the examiner's view of the conversation also holds the stage instructions
+  const [sessionMode, setSessionMode] = useState<SessionMode>('live');
+  const sessionModeRef = useRef<SessionMode>('live');
+  const textHistoryRef = useRef<ChatMessage[]>([]);
+  const examinerAbortRef = useRef<AbortController | null>(null);
+  const [isThinking, setIsThinking] = useState(false);
+  const [draft, setDraft] = useState('');
+  const [interim, setInterim] = useState('');
+  const [isDictating, setIsDictating] = useState(false);
+  const recognizerRef = useRef<SpeechRecognizer | null>(null);
+  const [readAloud, setReadAloud] = useState(false);
+  const readAloudRef = useRef(false);
+  const [textError, setTextError] = useState<{ message: string; retry?: () => void } | null>(null);
 
   // Transcription state buffers
   const currentInputTransRef = useRef('');
   const currentOutputTransRef = useRef('');
 
   const messagesEndRef = useRef<HTMLDivElement>(null);
-  const userMessageCount = messages.filter(m => m.role === 'user').length;
-  const MIN_PHRASES = 10;
+  const remainingSeconds = stage ? Math.max(0, TEST_STAGES[stage].seconds - Math.floor((now - stageStartedAt) / 1000)) : 0;
+  // The test is complete once the learner has answered in Part 3, or ends early if the connection cannot be restored.
+  // After finishing (even from a lost connection) it stays finishable, so a cancelled or failed analysis can be retried.
+  const canFinish = (stage === 'part3' && messages.some(m => m.role === 'user' && m.part === 3))
+    || ((connectionStatus === 'lost' || hasEnded) && messages.some(m => m.role === 'user'));
 
   // Cleanup on unmount
   useEffect(() => {
     return () => {
        disconnect();
+       stopPlayback();
+       analysisAbortRef.current?.abort();
     };
   }, []);
 
   useEffect(() => {
+    messagesRef.current = messages;
     scrollToBottom();
   }, [messages]);
 
+  // Tick once a second while a stage is running
+  useEffect(() => {
+    if (!stage || !isConnected) return;
+    const timer = setInterval(() => setNow(Date.now()), 1000);
+    return () => clearInterval(timer);
+  }, [stage, isConnected]);
+
+  // Move on when a stage runs out of time; Part 3 ends when the learner finishes
+  useEffect(() => {
+    if (!stage || !isConnected || remainingSeconds > 0 || connectionStatus !== 'connected') return;
+    // A typed answer in progress is sent before the examiner moves on
+    if (sessionMode === 'text' && (draft.trim() || isThinking)) return;
+    const next = nextStage(stage);
+    if (next) startStage(next);
+  }, [remainingSeconds, stage, isConnected, connectionStatus, sessionMode, draft, isThinking]);
+
   const scrollToBottom = () => {
     messagesEndRef.current?.scrollIntoView({ behavior: 'smooth' });
   };
@@ -94,45 +269,213 @@ export const SpeakingPractice: React.FC<SpeakingPracticeProps> = ({ model }) =>
       nextStartTimeRef.current = 0;
   };
 
-  const connect = async () => {
-    setIsProcessing(true);
+  // Moves the buffered transcriptions into the chat, tagged with the current part.
+  // messagesRef is updated at once, so a caller can read the full transcript before the next render.
+  const commitTranscripts = () => {
+    const part = stageRef.current ? TEST_STAGES[stageRef.current].part : undefined;
+    const newMessages: ChatMessage[] = [];
+
+    if (currentInputTransRef.current.trim()) {
+        newMessages.push({ role: 'user', text: currentInputTransRef.current.trim(), part, audio: recorderRef.current?.takeSegment('user') });
+        currentInputTransRef.current = '';
+    }
+    if (currentOutputTransRef.current.trim()) {
+        newMessages.push({ role: 'model', text: currentOutputTransRef.current.trim(), part, audio: recorderRef.current?.takeSegment('model') });
+        currentOutputTransRef.current = '';
+    }
+
+    if (newMessages.length > 0) {
+        messagesRef.current = [...messagesRef.current, ...newMessages];
+        setMessages(prev => [...prev, ...newMessages]);
+    }
+  };
+
+  const startStage = (next: TestStage) => {
+    // Whatever was said so far belongs to the previous part
+    commitTranscripts();
+    stageRef.current = next;
+    setStage(next);
+    setStageStartedAt(Date.now());
+    setNow(Date.now());
+
+    if (sessionModeRef.current === 'text') {
+        if (!TEST_STAGES[next].listening) stopDictation();
+        askExaminer({ role: 'user', text: stageInstruction(next, cueCardRef.current), part: TEST_STAGES[next].part });
+        return;
+    }
+
+    // While reconnecting, the resume message tells the new session which stage it is in
+    sessionRef.current?.then(session => {
+        if (socketOpenRef.current) {
+            session.sendClientContent({
+                turns: [{ role: 'user', parts: [{ text: stageInstruction(next, cueCardRef.current) }] }],
+                turnComplete: true,
+            });
+        }
+    }).catch(err => console.debug("Session likely closed", err));
+  };
+
+  // --- Text-Chat Mode ---
+
+  // Asks for the examiner's next turn, optionally after a stage instruction from the app
+  const askExaminer = async (instruction?: ChatMessage) => {
+    if (instruction) textHistoryRef.current.push(instruction);
+    examinerAbortRef.current?.abort();
+    const controller = new AbortController();
+    examinerAbortRef.current = controller;
+    setIsThinking(true);
+    setTextError(null);
+    try {
+        const reply = (await getExaminerResponse(textHistoryRef.current, model, { settings: examinerSettings, signal: controller.signal })).trim();
+        if (!reply || !isConnectedRef.current) return;
+        const message: ChatMessage = { role: 'model', text: reply, part: stageRef.current ? TEST_STAGES[stageRef.current].part : undefined };
+        textHistoryRef.current.push(message);
+        setMessages(prev => [...prev, message]);
+        if (readAloudRef.current) speak(reply, ACCENT_SPEECH_LANGS[examinerSettings.accent]);
+    } catch (err) {
+        if (isAbortError(err)) return;
+        console.error("Examiner did not respond", err);
+        setTextError({
+            message: err instanceof AIServiceError ? `The examiner did not respond: ${err.message}` : "The examiner did not respond.",
+            retry: () => askExaminer(),
+        });
+    } finally {
+        if (examinerAbortRef.current === controller) {
+            examinerAbortRef.current = null;
+            setIsThinking(false);
+        }
+    }
+  };
+
+  const sendAnswer = () => {
+    const text = draft.trim();
+    if (!text || isThinking || !stageRef.current) return;
+    stopDictation();
+    const answer: ChatMessage = { role: 'user', text, part: TEST_STAGES[stageRef.current].part };
+    textHistoryRef.current.push(answer);
+    setMessages(prev => [...prev, answer]);
+    setDraft('');
+    // The examiner does not interrupt the long turn; once it has been given, Part 3 begins
+    if (stageRef.current === 'long-turn') startStage('part3');
+    else askExaminer();
+  };
+
+  const stopDictation = () => {
+    recognizerRef.current?.stop();
+    recognizerRef.current = null;
+    setIsDictating(false);
+    setInterim('');
+  };
+
+  const toggleDictation = () => {
+    if (recognizerRef.current) return stopDictation();
+    const recognizer = createSpeechRecognizer({
+        onFinal: (text) => setDraft(prev => prev.trim() ? `${prev.trimEnd()} ${text}` : text),
+        onInterim: setInterim,
+        onEnd: () => {
+            if (recognizerRef.current === recognizer) recognizerRef.current = null;
+            setIsDictating(false);
+        },
+        onError: (message) => setTextError({ message }),
+    });
+    if (!recognizer) return;
+    recognizerRef.current = recognizer;
+    setTextError(null);
+    setIsDictating(true);
+    recognizer.start();
+  };
+
+  const toggleReadAloud = () => {
+    const next = !readAloud;
+    setReadAloud(next);
+    readAloudRef.current = next;
+    if (!next) cancelSpeech();
+  };
+
+  const resetSession = (mode: SessionMode) => {
     setMessages([]);
+    setHasEnded(false);
     setAnalysis(null);
-    
+    setStage(null);
+    stageRef.current = null;
+    setNotes('');
+    stopPlayback();
+    recorderRef.current = null;
+    setShowTranscript(false);
+    const card = pickCueCard(examinerSettings.topics);
+    setCueCard(card);
+    cueCardRef.current = card;
+    setSessionMode(mode);
+    sessionModeRef.current = mode;
+    textHistoryRef.current = [];
+    setDraft('');
+    setTextError(null);
+    setConnectionStatus('connected');
+    setConnectionError(null);
+  };
+
+  const updateExaminerSettings = (settings: ExaminerSettings) => {
+    setExaminerSettings(settings);
+    saveExaminerSettings(settings);
+  };
+
+  const startTextSession = () => {
+    resetSession('text');
+    setIsConnected(true);
+    isConnectedRef.current = true;
+    startStage('part1');
+  };
+
+  // --- Live Mode ---
+
+  const connect = async () => {
+    setIsProcessing(true);
+    resetSession('live');
+
     try {
         await initAudio();
 
-        // 2. Input Stream (Microphone) - 16kHz preference
-        const stream = await navigator.mediaDevices.getUserMedia({ audio: true });
+        // 2. Input Stream (Microphone), resampled to 16kHz by the capture worklet
+        const stream = await navigator.mediaDevices.getUserMedia({
+            audio: { channelCount: 1, echoCancellation: true, noiseSuppression: true, autoGainControl: true }
+        });
         streamRef.current = stream;
 
-        // 3. Setup Processing Node to capture audio chunks
-        // We use a temporary context for input to ensure consistent processing
-        const inputCtx = new (window.AudioContext || (window as any).webkitAudioContext)({ sampleRate: 16000 });
-        const source = inputCtx.createMediaStreamSource(stream);
-        const processor = inputCtx.createScriptProcessor(4096, 1, 1);
-        
-        processor.onaudioprocess = (e) => {
-             // Check if session is actually established to prevent WebSocket errors
-             if (!isConnectedRef.current || !sessionRef.current) return;
-
-             // Visualizer logic
-             const inputData = e.inputBuffer.getChannelData(0);
-             let sum = 0;
-             for(let i=0; i<inputData.length; i++) sum += inputData[i] * inputData[i];
-             setVolumeLevel(Math.sqrt(sum / inputData.length) * 5); // Scale up for visibility
-
-             // Convert Float32 to Int16 PCM
-             const pcm16 = floatTo16BitPCM(inputData);
+        // Both sides are also routed into one stream for the Opus recording
+        const mixDestination = audioContextRef.current!.createMediaStreamDestination();
+        try {
+            audioContextRef.current!.createMediaStreamSource(stream).connect(mixDestination);
+        } catch (err) {
+            // Some browsers cannot mix a microphone into a context with a different sample rate
+            console.warn("Microphone cannot be added to the Opus recording", err);
+        }
+        mixDestinationRef.current = mixDestination;
+
+        // 3. Capture the microphone on an AudioWorklet, resampled to 16kHz PCM chunks
+        captureRef.current = await startMicCapture(stream, (pcm16, level) => {
+             if (!isConnectedRef.current) return;
+
+             // Recorded even while paused or reconnecting, so the recording timeline has no gaps
+             recorderRef.current?.recordInput(pcm16);
+
+             // The microphone is paused while the learner prepares for Part 2
+             if (stageRef.current && !TEST_STAGES[stageRef.current].listening) {
+                 setVolumeLevel(0);
+                 return;
+             }
+
+             setVolumeLevel(level);
+             // Only an open socket can take audio; speech during a reconnect is not sent
+             if (!socketOpenRef.current || !sessionRef.current) return;
              const base64Data = arrayBufferToBase64(pcm16.buffer);
-             
+
              // Send to Gemini
              sessionRef.current.then(session => {
                  // Double check inside the promise to ensure we don't send to a closed session
-                 if (isConnectedRef.current) {
+                 if (socketOpenRef.current) {
                     session.sendRealtimeInput({
                         media: {
-                            mimeType: 'audio/pcm;rate=16000',
+                            mimeType: `audio/pcm;rate=${INPUT_SAMPLE_RATE}`,
                             data: base64Data
                         }
                     });
@@ -141,122 +484,180 @@ export const SpeakingPractice: React.FC<SpeakingPracticeProps> = ({ model }) =>
                  // Silently catch errors if session closes mid-flight
                  console.debug("Session likely closed", err);
              });
-        };
-
-        source.connect(processor);
-        processor.connect(inputCtx.destination); // Required for script processor to run
-        
-        inputSourceRef.current = source;
-        processorRef.current = processor;
+        });
 
         // 4. Connect to Gemini Live API
-        sessionRef.current = createLiveSession({
-            onopen: () => {
-                console.log("Gemini Live Connected");
-                setIsConnected(true);
-                isConnectedRef.current = true;
-                setIsProcessing(false);
-            },
-            onmessage: async (message: LiveServerMessage) => {
-                // A. Handle Audio Output
-                const audioData = message.serverContent?.modelTurn?.parts?.[0]?.inlineData?.data;
-                if (audioData && !isMuted && audioContextRef.current) {
-                    const ctx = audioContextRef.current;
-                    const audioBytes = base64ToUint8Array(audioData);
-                    
-                    // Decode Custom PCM (Raw 16-bit 24kHz)
-                    // Since it's raw PCM, decodeAudioData won't work directly without headers.
-                    // We must convert manually to AudioBuffer.
-                    const pcm16 = new Int16Array(audioBytes.buffer);
-                    const float32 = new Float32Array(pcm16.length);
-                    for (let i = 0; i < pcm16.length; i++) {
-                        float32[i] = pcm16[i] / 32768.0;
-                    }
-                    
-                    const buffer = ctx.createBuffer(1, float32.length, 24000);
-                    buffer.getChannelData(0).set(float32);
-
-                    // Playback Scheduling
-                    const source = ctx.createBufferSource();
-                    source.buffer = buffer;
-                    source.connect(ctx.destination);
-                    
-                    const currentTime = ctx.currentTime;
-                    // Start at next available time or now
-                    const startTime = Math.max(nextStartTimeRef.current, currentTime);
-                    source.start(startTime);
-                    
-                    nextStartTimeRef.current = startTime + buffer.duration;
-                    sourcesRef.current.add(source);
-                    source.onended = () => sourcesRef.current.delete(source);
-                }
-
-                // B. Handle Transcriptions (Real-time update)
-                const inputTrans = message.serverContent?.inputTranscription?.text;
-                const outputTrans = message.serverContent?.outputTranscription?.text;
-                const turnComplete = message.serverContent?.turnComplete;
-
-                if (inputTrans) {
-                    currentInputTransRef.current += inputTrans;
-                }
-                if (outputTrans) {
-                    currentOutputTransRef.current += outputTrans;
-                }
-
-                if (turnComplete) {
-                     // Commit transcripts to history
-                     const newMessages: ChatMessage[] = [];
-                     
-                     if (currentInputTransRef.current.trim()) {
-                         newMessages.push({ role: 'user', text: currentInputTransRef.current.trim() });
-                         currentInputTransRef.current = '';
-                     }
-                     if (currentOutputTransRef.current.trim()) {
-                         newMessages.push({ role: 'model', text: currentOutputTransRef.current.trim() });
-                         currentOutputTransRef.current = '';
-                     }
-
-                     if (newMessages.length > 0) {
-                         setMessages(prev => [...prev, ...newMessages]);
-                     }
-                }
-            },
-            onclose: () => {
-                console.log("Gemini Live Disconnected");
-                setIsConnected(false);
-                isConnectedRef.current = false;
-            },
-            onerror: (e) => {
-                console.error("Gemini Live Error", e);
-                setIsConnected(false);
-                isConnectedRef.current = false;
-                setIsProcessing(false);
-                const errorMsg = (e as any).message || "An unknown error occurred.";
-                alert(`Connection Error: ${errorMsg}\n\nPlease refresh or try again.`);
-            }
-        });
+        const controller = new AbortController();
+        connectAbortRef.current = controller;
+        await openLiveSession(controller.signal);
+        connectAbortRef.current = null;
 
+        console.log("Gemini Live Connected");
+        setIsConnected(true);
+        isConnectedRef.current = true;
+        setIsProcessing(false);
+        const ctx = audioContextRef.current;
+        if (ctx) recorderRef.current = createSessionRecorder(() => ctx.currentTime, mixDestinationRef.current?.stream);
+        startStage('part1');
     } catch (err) {
+        if (isAbortError(err)) return;
         console.error("Failed to start session", err);
+        disconnect();
         setIsProcessing(false);
-        alert("Microphone access denied or error starting session.");
+        setConnectionError(err instanceof DOMException && err.name === 'NotAllowedError'
+            ? "Microphone access was denied. Allow it in your browser settings, or practise by text instead."
+            : "Could not start the live session. Check your connection and try again, or practise by text instead.");
     }
   };
 
+  // Opens a Live API socket; resolves once it is open and rejects if it fails before that.
+  // Once open, a drop is handed to handleConnectionLost instead.
+  const openLiveSession = (signal: AbortSignal) => new Promise<void>((resolve, reject) => {
+    const generation = ++generationRef.current;
+    const isCurrent = () => generation === generationRef.current;
+    let opened = false;
+    const fail = (reason: string) => {
+        if (!isCurrent()) return;
+        if (opened) handleConnectionLost(reason);
+        else reject(new Error(reason));
+    };
+
+    const session = createLiveSession({
+        onopen: () => {
+            if (!isCurrent()) return;
+            opened = true;
+            socketOpenRef.current = true;
+            resolve();
+        },
+        onmessage: (message: LiveMessage) => {
+            if (isCurrent()) handleLiveMessage(message);
+        },
+        onclose: (e) => fail(`Connection closed${e?.reason ? `: ${e.reason}` : ''}`),
+        onerror: (e) => fail((e as any).message || "Connection error"),
+    }, { settings: examinerSettings, signal });
+    sessionRef.current = session;
+    session.catch(err => {
+        if (isCurrent() && !opened) reject(err);
+    });
+    signal.addEventListener('abort', () => reject(new RequestCancelledError()), { once: true });
+  });
+
+  const handleLiveMessage = (message: LiveMessage) => {
+    // A. Handle Audio Output
+    const audioData = message.serverContent?.modelTurn?.parts?.[0]?.inlineData?.data;
+    if (audioData && !isMuted && audioContextRef.current) {
+        const ctx = audioContextRef.current;
+        const audioBytes = base64ToUint8Array(audioData);
+
+        // Decode Custom PCM (Raw 16-bit 24kHz)
+        // Since it's raw PCM, decodeAudioData won't work directly without headers.
+        // We must convert manually to AudioBuffer.
+        const pcm16 = new Int16Array(audioBytes.buffer);
+        const float32 = new Float32Array(pcm16.length);
+        for (let i = 0; i < pcm16.length; i++) {
+            float32[i] = pcm16[i] / 32768.0;
+        }
+
+        const buffer = ctx.createBuffer(1, float32.length, 24000);
+        buffer.getChannelData(0).set(float32);
+
+        // Playback Scheduling
+        const source = ctx.createBufferSource();
+        source.buffer = buffer;
+        source.connect(ctx.destination);
+        if (mixDestinationRef.current) source.connect(mixDestinationRef.current);
+
+        const currentTime = ctx.currentTime;
+        // Start at next available time or now
+        const startTime = Math.max(nextStartTimeRef.current, currentTime);
+        source.start(startTime);
+        recorderRef.current?.recordOutput(pcm16, startTime);
+
+        nextStartTimeRef.current = startTime + buffer.duration;
+        sourcesRef.current.add(source);
+        source.onended = () => sourcesRef.current.delete(source);
+    }
+
+    // B. Handle Transcriptions (Real-time update)
+    const inputTrans = message.serverContent?.inputTranscription?.text;
+    const outputTrans = message.serverContent?.outputTranscription?.text;
+    const turnComplete = message.serverContent?.turnComplete;
+
+    if (inputTrans) {
+        currentInputTransRef.current += inputTrans;
+    }
+    if (outputTrans) {
+        currentOutputTransRef.current += outputTrans;
+    }
+
+    if (turnComplete) {
+         commitTranscripts();
+    }
+  };
+
+  // The socket dropped mid-session: keep everything said so far and reconnect in the background
+  const handleConnectionLost = (reason: string) => {
+    console.warn("Gemini Live connection lost", reason);
+    generationRef.current++; // Ignore anything else the dropped socket reports
+    socketOpenRef.current = false;
+    commitTranscripts();
+    sessionRef.current?.then(s => s.close()).catch(() => {});
+    sessionRef.current = null;
+    reconnect();
+  };
+
+  const reconnect = async () => {
+    connectAbortRef.current?.abort();
+    const controller = new AbortController();
+    connectAbortRef.current = controller;
+    setConnectionStatus('reconnecting');
+    let attempt = 0;
+    try {
+        await withRetry(() => {
+            setReconnectAttempt(++attempt);
+            return openLiveSession(controller.signal);
+        }, { signal: controller.signal, retries: RECONNECT_RETRIES, baseDelayMs: RECONNECT_BASE_DELAY_MS, isRetryable: () => true });
+        resumeExaminer();
+        setConnectionStatus('connected');
+    } catch (err) {
+        if (isAbortError(err)) return;
+        console.error("Could not reconnect to Gemini Live", err);
+        setConnectionStatus('lost');
+    } finally {
+        if (connectAbortRef.current === controller) connectAbortRef.current = null;
+    }
+  };
+
+  // Replays the conversation to the new session and tells the examiner where the test stands
+  const resumeExaminer = () => {
+    const current = stageRef.current;
+    if (!current) return;
+    const history = messagesRef.current.map(m => ({ role: m.role, parts: [{ text: m.text }] }));
+    sessionRef.current?.then(session => {
+        if (!socketOpenRef.current) return;
+        session.sendClientContent({
+            turns: [...history, { role: 'user', parts: [{ text: resumeInstruction(current, cueCardRef.current) }] }],
+            turnComplete: true,
+        });
+    }).catch(err => console.debug("Session likely closed", err));
+  };
+
   const disconnect = () => {
     // 1. Mark as disconnected immediately to stop the processor loop
     isConnectedRef.current = false;
     setIsConnected(false);
+    socketOpenRef.current = false;
+    generationRef.current++; // The socket's own close event is not a dropped connection
+    connectAbortRef.current?.abort();
+    connectAbortRef.current = null;
+    setConnectionStatus('connected');
 
-    // 2. Stop Processor and Input Source
-    if (processorRef.current) {
-        processorRef.current.disconnect();
-        processorRef.current = null;
-    }
-    if (inputSourceRef.current) {
-        inputSourceRef.current.disconnect();
-        inputSourceRef.current = null;
+    // 2. Stop the capture worklet and close its context
+    if (captureRef.current) {
+        captureRef.current.stop();
+        captureRef.current = null;
     }
+    setVolumeLevel(0);
 
     // 3. Stop Tracks
     if (streamRef.current) {
@@ -270,32 +671,98 @@ export const SpeakingPractice: React.FC<SpeakingPracticeProps> = ({ model }) =>
         sessionRef.current = null;
     }
 
-    // 5. Close Audio Context
+    // 5. Finish the recording before its audio graph goes away
+    recorderRef.current?.stop().catch(err => console.error("Failed to finish recording", err));
+    mixDestinationRef.current = null;
+
+    // 6. Close Audio Context
     if (audioContextRef.current) {
         audioContextRef.current.close().catch(() => {});
         audioContextRef.current = null;
     }
 
-    // 6. Stop all playing sounds
+    // 7. Stop all playing sounds
     sourcesRef.current.forEach(s => {
         try { s.stop(); } catch(e) {}
     });
     sourcesRef.current.clear();
+
+    // 8. Text-chat mode: cancel the pending examiner turn, dictation and speech
+    examinerAbortRef.current?.abort();
+    examinerAbortRef.current = null;
+    setIsThinking(false);
+    stopDictation();
+    cancelSpeech();
+  };
+
+  const stopPlayback = () => {
+    const audio = playbackRef.current;
+    if (audio) {
+        audio.pause();
+        URL.revokeObjectURL(audio.src);
+        playbackRef.current = null;
+    }
+    setPlayingIndex(null);
+  };
+
+  const togglePlayback = (index: number) => {
+    const isSame = playingIndex === index;
+    stopPlayback();
+    const message = messages[index];
+    if (isSame || !message.audio || !recorderRef.current) return;
+
+    const audio = new Audio(URL.createObjectURL(recorderRef.current.renderSegment(message.role, message.audio)));
+    audio.onended = stopPlayback;
+    playbackRef.current = audio;
+    setPlayingIndex(index);
+    audio.play().catch(err => {
+        console.error("Playback failed", err);
+        stopPlayback();
+    });
   };
 
+  const renderMessages = () => messages.map((msg, idx) => (
+    <MessageBubble
+        key={idx}
+        message={msg}
+        isPlaying={playingIndex === idx}
+        onPlay={msg.audio && recorderRef.current ? () => togglePlayback(idx) : undefined}
+        corrections={msg.role === 'user' ? correctionsForMessage(analysis, idx) : undefined}
+        onCorrectionEnter={(e: React.MouseEvent, correction: IndexedCorrection) => setTooltip(tooltipAt(e, correction, correction.index, false))}
+        onCorrectionLeave={() => setTooltip(null)}
+    />
+  ));
+
   const handleFinish = async () => {
+    // The last answer is usually still buffered: a turn is only committed on turnComplete
+    commitTranscripts();
+    const transcript = messagesRef.current;
+    setHasEnded(true);
     disconnect();
     setIsProcessing(true);
+    const controller = new AbortController();
+    analysisAbortRef.current = controller;
     try {
-        const result = await analyzeSpeakingSession(messages, model);
+        const fluency = computeFluencyMetrics(transcript, recorderRef.current);
+        const audio = await buildPronunciationSample(transcript, recorderRef.current);
+        const analysed = await analyzeSpeakingSession(transcript, model, { fluency, audio, signal: controller.signal });
+        const result = { ...analysed, fluency };
         setAnalysis(result);
+        saveSubmission({ mode: 'speaking', text: formatTranscript(transcript), model, createdAt: Date.now(), analysis: result })
+            .then(addSubmissionToNotebook)
+            .catch(err => console.error("Failed to save submission", err));
     } catch (err) {
-        alert("Failed to analyze session.");
+        if (isAbortError(err)) return;
+        alert(err instanceof AIServiceError ? `Failed to analyze session: ${err.message}` : "Failed to analyze session.");
     } finally {
+        analysisAbortRef.current = null;
         setIsProcessing(false);
     }
   };
 
+  // The transcript stays and the session remains finishable, so the analysis can be run again
+  const cancelAnalysis = () => analysisAbortRef.current?.abort();
+
   // --- Render ---
 
   if (analysis) {
@@ -303,16 +770,36 @@ export const SpeakingPractice: React.FC<SpeakingPracticeProps> = ({ model }) =>
           <div className="h-full flex flex-col gap-4">
               <div className="flex items-center justify-between shrink-0 mb-2">
                   <h2 className="text-xl font-bold text-slate-800">Speaking Analysis</h2>
-                  <button 
-                    onClick={() => { setAnalysis(null); setMessages([]); }}
-                    className="flex items-center gap-2 text-sm font-medium text-blue-600 hover:text-blue-700 bg-white px-4 py-2 rounded-lg border border-slate-200 shadow-sm"
-                  >
-                      <RefreshCw size={16} /> Start New Session
-                  </button>
+                  <div className="flex items-center gap-3">
+                      <button
+                        onClick={() => { setTooltip(null); setShowTranscript(!showTranscript); }}
+                        className={`flex items-center gap-2 px-4 py-2 rounded-lg text-sm font-medium border shadow-sm transition-all ${showTranscript ? 'bg-blue-50 text-blue-700 border-blue-200' : 'bg-white text-slate-700 border-slate-200 hover:bg-slate-50'}`}
+                      >
+                          <MessageSquareText size={16} /> Transcript
+                      </button>
+                      {recorderRef.current && <RecordingDownloadMenu recorder={recorderRef.current} />}
+                      <ReportExportMenu source={{ mode: 'speaking', text: formatTranscript(messages), analysis, model }} />
+                      <button 
+                        onClick={() => { stopPlayback(); setTooltip(null); setAnalysis(null); setMessages([]); setStage(null); setHasEnded(false); }}
+                        className="flex items-center gap-2 text-sm font-medium text-blue-600 hover:text-blue-700 bg-white px-4 py-2 rounded-lg border border-slate-200 shadow-sm"
+                      >
+                          <RefreshCw size={16} /> Start New Session
+                      </button>
+                  </div>
               </div>
               <div className="flex-1 min-h-0">
-                  <AnalysisResult analysis={analysis} mode="speaking" />
+                  {showTranscript ? (
+                      <div
+                          className="h-full overflow-y-auto p-6 space-y-6 bg-white rounded-xl border border-slate-200 shadow-sm"
+                          onScroll={() => setTooltip(null)}
+                      >
+                          {renderMessages()}
+                      </div>
+                  ) : (
+                      <SpeakingResult analysis={analysis} />
+                  )}
               </div>
+              {showTranscript && tooltip && <CorrectionTooltip tooltip={tooltip} />}
           </div>
       );
   }
@@ -333,9 +820,16 @@ export const SpeakingPractice: React.FC<SpeakingPracticeProps> = ({ model }) =>
             </div>
 
             <h2 className="text-3xl font-bold text-slate-900 mb-4 tracking-tight">IELTS Live Speaking</h2>
-            <p className="text-slate-500 max-w-md mb-8 leading-relaxed text-lg">
-                Connect to a real-time AI examiner. It's like a phone call - speak naturally, interrupt if you need to, and practice your fluency.
+            <p className="text-slate-500 max-w-md mb-6 leading-relaxed text-lg">
+                Take the full three-part test with a real-time AI examiner. It's like a phone call - speak naturally and the examiner will guide you through each part.
             </p>
+            <div className="flex flex-wrap justify-center gap-2 mb-6 text-xs font-medium text-slate-600">
+                <span className="bg-slate-50 px-3 py-1.5 rounded-lg border border-slate-100">Part 1 · Interview · 4-5 min</span>
+                <span className="bg-slate-50 px-3 py-1.5 rounded-lg border border-slate-100">Part 2 · Cue card · 1 min prep + 2 min talk</span>
+                <span className="bg-slate-50 px-3 py-1.5 rounded-lg border border-slate-100">Part 3 · Discussion · 4-5 min</span>
+            </div>
+
+            <ExaminerSetup settings={examinerSettings} onChange={updateExaminerSettings} />
 
             <div className="flex flex-col gap-4 w-full max-w-xs">
                 <button
@@ -349,6 +843,18 @@ export const SpeakingPractice: React.FC<SpeakingPracticeProps> = ({ model }) =>
                     <Activity size={12} className="text-green-500" />
                     <span>Low Latency Voice Mode</span>
                 </div>
+                <button
+                    onClick={startTextSession}
+                    className="flex items-center justify-center gap-2 text-sm font-medium text-slate-600 bg-white hover:bg-slate-50 px-4 py-3 rounded-xl border border-slate-200 transition-colors"
+                >
+                    <Keyboard size={18} /> Practise by Text
+                </button>
+                {connectionError && (
+                    <p className="text-sm text-red-600 bg-red-50 border border-red-100 rounded-lg px-3 py-2">{connectionError}</p>
+                )}
+                <p className="text-xs text-slate-400">
+                    No microphone, or the live call won't connect? Type {hasSpeechRecognition ? 'or dictate ' : ''}your answers instead.
+                </p>
             </div>
         </div>
       );
@@ -359,45 +865,72 @@ export const SpeakingPractice: React.FC<SpeakingPracticeProps> = ({ model }) =>
       
       {/* Live Header */}
       <div className="bg-white border-b border-slate-200 p-4 flex items-center justify-between shrink-0 shadow-sm z-10">
-        <div className="flex items-center gap-4">
-            <div className="flex items-center gap-3 bg-red-50 text-red-600 px-3 py-1.5 rounded-full border border-red-100">
-                <div className="relative flex h-2.5 w-2.5">
-                  <span className="animate-ping absolute inline-flex h-full w-full rounded-full bg-red-400 opacity-75"></span>
-                  <span className="relative inline-flex rounded-full h-2.5 w-2.5 bg-red-500"></span>
+        {sessionMode === 'live' ? (
+            <div className="flex items-center gap-4">
+                <div className="flex items-center gap-3 bg-red-50 text-red-600 px-3 py-1.5 rounded-full border border-red-100">
+                    <div className="relative flex h-2.5 w-2.5">
+                      <span className="animate-ping absolute inline-flex h-full w-full rounded-full bg-red-400 opacity-75"></span>
+                      <span className="relative inline-flex rounded-full h-2.5 w-2.5 bg-red-500"></span>
+                    </div>
+                    <span className="text-sm font-bold tracking-wide uppercase">Live</span>
+                </div>
+
+                {/* Input Level Meter: each bar lights up at a higher level, loud input turns amber */}
+                <div className="flex items-end gap-1 h-6" title="Microphone level">
+                     {METER_BARS.map((threshold, i) => (
+                         <div key={i}
+                              className={`w-1 rounded-full transition-colors duration-75 ${volumeLevel < threshold ? 'bg-slate-200' : threshold >= METER_HOT ? 'bg-amber-500' : 'bg-slate-800'}`}
+                              style={{ height: `${8 + i * 4}px` }}
+                         />
+                     ))}
                 </div>
-                <span className="text-sm font-bold tracking-wide uppercase">Live</span>
             </div>
-            
-            {/* Audio Visualizer */}
-            <div className="flex items-center gap-1 h-6">
-                 {[1,2,3,4,5].map(i => (
-                     <div key={i} 
-                          className="w-1 bg-slate-800 rounded-full transition-all duration-75"
-                          style={{ 
-                              height: `${Math.max(4, Math.min(24, volumeLevel * (i % 2 === 0 ? 10 : 15) + Math.random() * 5))}px`,
-                              opacity: volumeLevel > 0.01 ? 1 : 0.2
-                          }}
-                     />
-                 ))}
+        ) : (
+            <div className="flex items-center gap-2 bg-blue-50 text-blue-700 px-3 py-1.5 rounded-full border border-blue-100">
+                <Keyboard size={14} />
+                <span className="text-sm font-bold tracking-wide uppercase">Text</span>
             </div>
-        </div>
+        )}
         
         <div className="flex items-center gap-3">
-            <span className={`text-xs font-bold px-3 py-1.5 rounded-full border transition-colors ${userMessageCount >= MIN_PHRASES ? 'bg-green-50 text-green-700 border-green-200' : 'bg-amber-50 text-amber-700 border-amber-200'}`}>
-                {userMessageCount} / {MIN_PHRASES} Phrases
-            </span>
+            {stage && (
+                <span className={`flex items-center gap-1.5 text-xs font-bold px-3 py-1.5 rounded-full border transition-colors ${remainingSeconds <= 30 ? 'bg-amber-50 text-amber-700 border-amber-200' : 'bg-slate-50 text-slate-700 border-slate-200'}`}>
+                    <Timer size={12} />
+                    {TEST_STAGES[stage].label} · {stage === 'part3' && remainingSeconds === 0 ? 'Time is up' : formatDuration(remainingSeconds)}
+                </span>
+            )}
 
-            <button 
-                onClick={() => setIsMuted(!isMuted)}
-                className={`p-2 rounded-full transition-colors border ${isMuted ? 'bg-slate-100 text-slate-400 border-slate-200' : 'bg-white text-slate-600 border-slate-200 hover:bg-slate-50'}`}
-                title={isMuted ? "Unmute" : "Mute"}
-            >
-                {isMuted ? <VolumeX size={20} /> : <Volume2 size={20} />}
-            </button>
+            {stage && NEXT_STAGE_LABELS[stage] && (
+                <button
+                    onClick={() => startStage(nextStage(stage)!)}
+                    className="flex items-center gap-1.5 text-sm font-medium text-slate-600 bg-white hover:bg-slate-50 px-3 py-2 rounded-lg border border-slate-200 transition-colors"
+                >
+                    <SkipForward size={16} /> {NEXT_STAGE_LABELS[stage]}
+                </button>
+            )}
+
+            {sessionMode === 'live' ? (
+                <button 
+                    onClick={() => setIsMuted(!isMuted)}
+                    className={`p-2 rounded-full transition-colors border ${isMuted ? 'bg-slate-100 text-slate-400 border-slate-200' : 'bg-white text-slate-600 border-slate-200 hover:bg-slate-50'}`}
+                    title={isMuted ? "Unmute" : "Mute"}
+                >
+                    {isMuted ? <VolumeX size={20} /> : <Volume2 size={20} />}
+                </button>
+            ) : hasSpeechSynthesis && (
+                <button
+                    onClick={toggleReadAloud}
+                    className={`p-2 rounded-full transition-colors border ${readAloud ? 'bg-white text-slate-600 border-slate-200 hover:bg-slate-50' : 'bg-slate-100 text-slate-400 border-slate-200'}`}
+                    title={readAloud ? "Stop reading the examiner aloud" : "Read the examiner aloud"}
+                >
+                    {readAloud ? <Volume2 size={20} /> : <VolumeX size={20} />}
+                </button>
+            )}
 
             <button 
                 onClick={handleFinish}
-                disabled={userMessageCount < MIN_PHRASES || isProcessing}
+                disabled={!canFinish || isProcessing}
+                title={canFinish ? undefined : "Available once you have answered in Part 3"}
                 className="flex items-center gap-2 text-sm font-bold text-white bg-slate-900 hover:bg-slate-800 disabled:bg-slate-300 disabled:cursor-not-allowed px-5 py-2 rounded-lg transition-colors shadow-lg shadow-slate-900/10"
             >
                 {isProcessing ? 'Processing...' : (
@@ -406,9 +939,67 @@ export const SpeakingPractice: React.FC<SpeakingPracticeProps> = ({ model }) =>
                     </>
                 )}
             </button>
+            {isProcessing && (
+                <button
+                    onClick={cancelAnalysis}
+                    className="flex items-center gap-2 text-sm font-medium bg-white hover:bg-red-50 text-slate-700 hover:text-red-600 px-4 py-2 rounded-lg border border-slate-200 shadow-sm transition-colors"
+                >
+                    <X size={16} /> Cancel
+                </button>
+            )}
         </div>
       </div>
 
+      {/* Connection Status */}
+      {sessionMode === 'live' && connectionStatus !== 'connected' && (
+        <div className={`flex items-center justify-between gap-3 px-4 py-2.5 text-sm border-b shrink-0 ${connectionStatus === 'reconnecting' ? 'bg-amber-50 text-amber-800 border-amber-200' : 'bg-red-50 text-red-700 border-red-100'}`}>
+            {connectionStatus === 'reconnecting' ? (
+                <span className="flex items-center gap-2">
+                    <RefreshCw size={14} className="animate-spin" />
+                    Connection lost - reconnecting (attempt {reconnectAttempt} of {RECONNECT_RETRIES + 1}). Everything said so far is kept.
+                </span>
+            ) : (
+                <>
+                    <span>Could not reconnect to the examiner. Try again, or finish the test with what you have.</span>
+                    <button onClick={reconnect} className="flex items-center gap-1.5 font-medium hover:text-red-800 shrink-0">
+                        <RefreshCw size={14} /> Try Again
+                    </button>
+                </>
+            )}
+        </div>
+      )}
+
+      {/* Part 2 Cue Card */}
+      {(stage === 'prep' || stage === 'long-turn') && (
+        <div className="bg-white border-b border-slate-200 p-4 grid grid-cols-1 md:grid-cols-2 gap-4 shrink-0">
+            <div className="bg-amber-50 border border-amber-200 rounded-xl p-4">
+                <p className="text-[10px] font-bold text-amber-700 uppercase tracking-wider mb-2">Cue Card · {cueCard.topic}</p>
+                <p className="font-semibold text-slate-900 mb-2">{cueCard.prompt}</p>
+                <p className="text-sm text-slate-600 mb-1">You should say:</p>
+                <ul className="list-disc list-inside text-sm text-slate-700 space-y-0.5">
+                    {cueCard.points.map(point => <li key={point}>{point}</li>)}
+                </ul>
+            </div>
+            <div className="flex flex-col">
+                <div className="flex items-center justify-between mb-2">
+                    <span className="text-[10px] font-bold text-slate-500 uppercase tracking-wider flex items-center gap-1.5">
+                        <StickyNote size={12} /> Notes
+                    </span>
+                    {stage === 'prep' && (
+                        <span className="text-xs font-medium text-blue-600">Prepare now{sessionMode === 'live' ? ' · microphone paused' : ''}</span>
+                    )}
+                </div>
+                <textarea
+                    value={notes}
+                    onChange={(e) => setNotes(e.target.value)}
+                    placeholder="Jot down key words for your talk..."
+                    className="flex-1 min-h-[8rem] text-sm border border-slate-200 rounded-xl p-3 resize-none focus:outline-none focus:ring-2 focus:ring-blue-100"
+                    autoFocus
+                />
+            </div>
+        </div>
+      )}
+
       {/* Real-time Transcript Area */}
       <div className="flex-1 overflow-y-auto p-6 space-y-6 bg-slate-50/50">
         {messages.length === 0 ? (
@@ -416,38 +1007,88 @@ export const SpeakingPractice: React.FC<SpeakingPracticeProps> = ({ model }) =>
                  <div className="w-16 h-16 rounded-full border-4 border-slate-200 flex items-center justify-center mb-4">
                     <Activity size={32} />
                  </div>
-                 <p className="text-sm font-medium">Listening for audio...</p>
-                 <p className="text-xs">Start speaking to begin the conversation</p>
+                 {sessionMode === 'live' ? (
+                     <>
+                         <p className="text-sm font-medium">Listening for audio...</p>
+                         <p className="text-xs">Start speaking to begin the conversation</p>
+                     </>
+                 ) : (
+                     <p className="text-sm font-medium">The examiner is about to begin...</p>
+                 )}
             </div>
         ) : (
-            messages.map((msg, idx) => (
-                <div key={idx} className={`flex w-full animate-in slide-in-from-bottom-2 fade-in duration-300 ${msg.role === 'user' ? 'justify-end' : 'justify-start'}`}>
-                    <div className={`flex max-w-[85%] sm:max-w-[75%] gap-3 ${msg.role === 'user' ? 'flex-row-reverse' : 'flex-row'}`}>
-                        <div className={`w-8 h-8 rounded-full flex items-center justify-center shrink-0 mt-1 shadow-sm border ${msg.role === 'user' ? 'bg-blue-100 text-blue-600 border-blue-200' : 'bg-white text-slate-600 border-slate-200'}`}>
-                            {msg.role === 'user' ? <User size={16} /> : <Bot size={16} />}
-                        </div>
-                        <div className={`p-4 rounded-2xl text-sm leading-relaxed shadow-sm ${
-                            msg.role === 'user' 
-                            ? 'bg-blue-600 text-white rounded-tr-none shadow-blue-600/10' 
-                            : 'bg-white text-slate-800 border border-slate-200 rounded-tl-none'
-                        }`}>
-                            {msg.text}
-                        </div>
-                    </div>
+            renderMessages()
+        )}
+        {isThinking && messages.length > 0 && (
+            <div className="flex items-center gap-3 text-slate-400">
+                <div className="w-8 h-8 rounded-full flex items-center justify-center bg-white text-slate-600 border border-slate-200 shadow-sm">
+                    <Bot size={16} />
                 </div>
-            ))
+                <span className="text-sm animate-pulse">The examiner is typing...</span>
+            </div>
         )}
         <div ref={messagesEndRef} />
       </div>
 
+      {/* Text-Chat Composer */}
+      {sessionMode === 'text' && (
+        <div className="bg-white border-t border-slate-200 p-4 shrink-0">
+            {textError && (
+                <div className="flex items-center justify-between gap-3 mb-3 text-sm text-red-700 bg-red-50 border border-red-100 rounded-lg px-3 py-2">
+                    <span>{textError.message}</span>
+                    {textError.retry && (
+                        <button onClick={textError.retry} className="flex items-center gap-1.5 font-medium hover:text-red-800 shrink-0">
+                            <RefreshCw size={14} /> Retry
+                        </button>
+                    )}
+                </div>
+            )}
+            <div className="flex items-end gap-2">
+                {hasSpeechRecognition && (
+                    <button
+                        onClick={toggleDictation}
+                        disabled={!stage || !TEST_STAGES[stage].listening}
+                        className={`p-3 rounded-xl border transition-colors disabled:opacity-40 disabled:cursor-not-allowed ${isDictating ? 'bg-red-50 text-red-600 border-red-200' : 'bg-white text-slate-600 border-slate-200 hover:bg-slate-50'}`}
+                        title={isDictating ? "Stop dictating" : "Dictate your answer"}
+                    >
+                        {isDictating ? <MicOff size={20} /> : <Mic size={20} />}
+                    </button>
+                )}
+                <textarea
+                    value={draft}
+                    onChange={(e) => setDraft(e.target.value)}
+                    onKeyDown={(e) => {
+                        if (e.key === 'Enter' && !e.shiftKey) {
+                            e.preventDefault();
+                            sendAnswer();
+                        }
+                    }}
+                    disabled={!stage || !TEST_STAGES[stage].listening}
+                    placeholder={stage === 'prep' ? 'Prepare your talk - you can answer when the preparation time ends' : stage === 'long-turn' ? 'Talk about the cue card in one long answer...' : 'Type your answer...'}
+                    rows={stage === 'long-turn' ? 5 : 2}
+                    className="flex-1 text-sm border border-slate-200 rounded-xl p-3 resize-none focus:outline-none focus:ring-2 focus:ring-blue-100 disabled:bg-slate-50"
+                />
+                <button
+                    onClick={sendAnswer}
+                    disabled={!draft.trim() || isThinking}
+                    className="p-3 rounded-xl bg-blue-600 hover:bg-blue-700 text-white disabled:bg-slate-300 disabled:cursor-not-allowed transition-colors"
+                    title="Send answer"
+                >
+                    <Send size={20} />
+                </button>
+            </div>
+            {interim && <p className="text-xs text-slate-400 italic mt-2">{interim}</p>}
+        </div>
+      )}
+
       {/* Footer Status */}
       <div className="bg-white border-t border-slate-200 px-6 py-3 flex items-center justify-between text-xs text-slate-400 shrink-0">
          <div className="flex items-center gap-2">
             <span className="w-2 h-2 rounded-full bg-green-500 animate-pulse"></span>
-            Using high-fidelity native audio streaming
+            {sessionMode === 'live' ? 'Using high-fidelity native audio streaming' : 'Text chat with the examiner'}
          </div>
          <div>
-            {model === GeminiModel.FLASH ? 'Gemini 2.5 Flash' : 'Gemini Live Preview'}
+            {EXAMINER_ACCENT_LABELS[examinerSettings.accent]} examiner · Band {examinerSettings.targetBand.toFixed(1)} · {sessionMode === 'text' ? MODEL_LABELS[model] : model === GeminiModel.FLASH ? 'Gemini 2.5 Flash' : 'Gemini Live Preview'}
          </div>
       </div>
     </div>
@@ -0,0 +1,195 @@
+import React from 'react';
+import { SpeakingAnalysis, SpeakingCriteria, SPEAKING_CRITERIA_LABELS, SPEAKING_PART_LABELS, FluencyMetrics } from '../types';
+import { CheckCircle, AlertCircle, AlertOctagon, ListChecks, Layers, Gauge, AudioLines, ArrowRight } from 'lucide-react';
+import { formatBand } from '../services/ieltsScoring';
+import { topFillers } from '../services/fluencyMetrics';
+
+interface SpeakingResultProps {
+  analysis: SpeakingAnalysis;
+}
+
+// Measured fluency figures; timing tiles are left out when the session had no audio
+const FluencyTiles: React.FC<{ fluency: FluencyMetrics }> = ({ fluency }) => {
+  const fillers = topFillers(fluency);
+  const tiles: { label: string; value: string; hint: string }[] = [
+    fluency.speechRate !== undefined && {
+      label: 'Speech rate',
+      value: `${fluency.speechRate} wpm`,
+      hint: `${fluency.articulationRate} wpm excluding pauses`,
+    },
+    fluency.pauseCount !== undefined && {
+      label: 'Pauses',
+      value: String(fluency.pauseCount),
+      hint: `Average ${fluency.meanPauseSeconds} s, ${fluency.longPauseCount} over 1 s`,
+    },
+    fluency.meanLengthOfRun !== undefined && {
+      label: 'Mean length of run',
+      value: `${fluency.meanLengthOfRun} words`,
+      hint: 'Words spoken between pauses',
+    },
+    {
+      label: 'Fillers',
+      value: `${fluency.fillersPer100Words} / 100 words`,
+      hint: fillers.length ? fillers.join(', ') : 'None detected',
+    },
+  ].filter(Boolean);
+
+  return (
+    <div className="grid grid-cols-2 lg:grid-cols-4 gap-3">
+      {tiles.map(tile => (
+        <div key={tile.label} className="bg-slate-50 rounded-lg p-3 border border-slate-100">
+          <p className="text-[10px] font-bold text-slate-400 uppercase tracking-wider">{tile.label}</p>
+          <p className="text-lg font-bold text-slate-800">{tile.value}</p>
+          <p className="text-xs text-slate-500 leading-relaxed">{tile.hint}</p>
+        </div>
+      ))}
+    </div>
+  );
+};
+
+// One card per criterion; Pronunciation is marked as an estimate, or as not assessed without audio
+const CriteriaGrid: React.FC<{ criteria: SpeakingCriteria }> = ({ criteria }) => (
+  <div className="grid grid-cols-1 sm:grid-cols-2 gap-3">
+    {(Object.keys(SPEAKING_CRITERIA_LABELS) as (keyof SpeakingCriteria)[]).map(key => {
+      const criterion = criteria[key];
+      return (
+        <div key={key} className="flex gap-3 bg-slate-50 rounded-lg p-3 border border-slate-100">
+          <div className="w-10 h-10 shrink-0 rounded-lg bg-white border border-slate-200 flex items-center justify-center font-bold text-slate-700">
+            {criterion ? formatBand(criterion.band) : '–'}
+          </div>
+          <div className="min-w-0">
+            <p className="text-xs font-semibold text-slate-700 mb-0.5 flex items-center gap-1.5">
+              {SPEAKING_CRITERIA_LABELS[key]}
+              {key === 'pronunciation' && criterion && (
+                <span className="flex items-center gap-1 text-[10px] font-medium text-slate-400" title="Judged from your recorded answers">
+                  <AudioLines size={10} /> Estimate
+                </span>
+              )}
+            </p>
+            <p className="text-xs text-slate-500 leading-relaxed">
+              {criterion ? criterion.justification : 'Not assessed: the session has no recording. Your band is the average of the other three criteria.'}
+            </p>
+          </div>
+        </div>
+      );
+    })}
+  </div>
+);
+
+const SectionHeading: React.FC<{ icon: React.ReactNode; children: React.ReactNode }> = ({ icon, children }) => (
+  <h4 className="text-xs font-bold text-slate-500 uppercase tracking-wider mb-3 flex items-center gap-1.5">
+    {icon}
+    {children}
+  </h4>
+);
+
+export const SpeakingResult: React.FC<SpeakingResultProps> = ({ analysis }) => (
+  <div className="h-full flex flex-col bg-white rounded-xl shadow-sm border border-slate-200 overflow-hidden">
+
+    {/* Scores and summary */}
+    <div className="shrink-0 bg-white border-b border-slate-200 p-5 flex flex-col gap-5 z-10">
+      <div className="flex flex-wrap items-center justify-between gap-4">
+        <div className="flex items-center gap-4">
+          <div className="w-14 h-14 rounded-xl bg-gradient-to-br from-blue-500 to-indigo-600 flex items-center justify-center text-2xl font-bold text-white shadow-sm" title="Overall IELTS Speaking band">
+            {analysis.ieltsScore}
+          </div>
+          <div className="flex flex-col">
+            <span className="text-[10px] font-bold text-slate-400 uppercase tracking-wider">IELTS Speaking</span>
+            <span className="text-sm font-semibold text-slate-700">Overall band · CEFR {analysis.cefrLevel}</span>
+          </div>
+        </div>
+
+        <div className="flex items-center gap-6">
+          <div className="flex flex-col items-end">
+            <span className="text-[10px] font-bold text-slate-400 uppercase tracking-wider mb-0.5 flex items-center gap-1">
+              <AlertOctagon size={10} /> Errors
+            </span>
+            <span className={`text-2xl font-bold ${analysis.corrections.length > 5 ? 'text-red-600' : 'text-orange-500'}`}>
+              {analysis.corrections.length}
+            </span>
+          </div>
+
+          <div className="w-px h-8 bg-slate-200 hidden sm:block"></div>
+
+          <div className="flex flex-col items-end">
+            <span className="text-[10px] font-bold text-slate-400 uppercase tracking-wider mb-0.5">Assessment</span>
+            <div className="flex items-baseline gap-1">
+              <span className="text-2xl font-bold text-slate-900">{analysis.estimatedScore}</span>
+              <span className="text-sm font-medium text-slate-400">/100</span>
+            </div>
+          </div>
+        </div>
+      </div>
+
+      <div className="bg-slate-50 rounded-lg p-3 border border-slate-100">
+        <h4 className="text-xs font-bold text-slate-500 uppercase tracking-wider mb-2 flex items-center gap-1.5">
+          <AlertCircle size={12} />
+          Examiner's Feedback
+        </h4>
+        <p className="text-sm text-slate-700 leading-relaxed">{analysis.generalFeedback}</p>
+      </div>
+    </div>
+
+    {/* Criteria, measurements, per-part comments, corrections and the improved answers */}
+    <div className="flex-1 overflow-y-auto bg-slate-50/30">
+      {analysis.speakingCriteria && (
+        <div className="p-5 border-b border-slate-100 bg-white">
+          <SectionHeading icon={<ListChecks size={12} />}>Band Breakdown</SectionHeading>
+          <CriteriaGrid criteria={analysis.speakingCriteria} />
+        </div>
+      )}
+
+      {analysis.fluency && (
+        <div className="p-5 border-b border-slate-100 bg-white">
+          <SectionHeading icon={<Gauge size={12} />}>Fluency Measurements</SectionHeading>
+          <FluencyTiles fluency={analysis.fluency} />
+        </div>
+      )}
+
+      {analysis.partFeedback && analysis.partFeedback.length > 0 && (
+        <div className="p-5 border-b border-slate-100 bg-white">
+          <SectionHeading icon={<Layers size={12} />}>Feedback by Part</SectionHeading>
+          <div className="grid grid-cols-1 lg:grid-cols-3 gap-3">
+            {analysis.partFeedback.map(item => (
+              <div key={item.part} className="bg-slate-50 rounded-lg p-3 border border-slate-100">
+                <p className="text-xs font-semibold text-slate-700 mb-0.5">{SPEAKING_PART_LABELS[item.part]}</p>
+                <p className="text-xs text-slate-500 leading-relaxed">{item.feedback}</p>
+              </div>
+            ))}
+          </div>
+        </div>
+      )}
+
+      {analysis.corrections.length > 0 && (
+        <div className="p-5 border-b border-slate-100 bg-white">
+          <SectionHeading icon={<AlertOctagon size={12} />}>What You Said</SectionHeading>
+          <ul className="space-y-2">
+            {analysis.corrections.map((c, i) => (
+              <li key={i} className="text-sm bg-slate-50 rounded-lg p-3 border border-slate-100">
+                <div className="flex flex-wrap items-center gap-2 mb-1">
+                  <span className="text-red-600 line-through decoration-red-300">{c.originalText}</span>
+                  <ArrowRight size={12} className="text-slate-400" />
+                  <span className="text-green-700 font-semibold">{c.suggestedText}</span>
+                  <span className="ml-auto text-[10px] uppercase tracking-wider text-slate-400">{c.type}</span>
+                </div>
+                <p className="text-xs text-slate-500 leading-relaxed">{c.explanation}</p>
+              </li>
+            ))}
+          </ul>
+        </div>
+      )}
+
+      <div className="sticky top-0 z-10 bg-white/90 backdrop-blur-sm border-b border-slate-100 px-5 py-2">
+        <span className="text-xs font-bold text-slate-500 uppercase tracking-wider flex items-center gap-2">
+          <CheckCircle size={14} className="text-green-600"/>
+          Improved Transcript
+        </span>
+      </div>
+      <div className="p-8 pb-16">
+        <div className="bg-white p-8 rounded-lg shadow-sm border border-slate-100">
+          <p className="whitespace-pre-wrap font-serif text-lg leading-relaxed text-slate-900">{analysis.correctedEssay}</p>
+        </div>
+      </div>
+    </div>
+  </div>
+);
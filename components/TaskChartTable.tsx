@@ -0,0 +1,35 @@
+import React from 'react';
+import { TaskChart } from '../types';
+
+interface TaskChartTableProps {
+  chart: TaskChart;
+}
+
+// The figures of an Academic Task 1 chart, as the learner needs them to write the summary
+export const TaskChartTable: React.FC<TaskChartTableProps> = ({ chart }) => (
+  <div className="mt-2 overflow-x-auto">
+    <table className="text-xs text-slate-600 border border-slate-200 rounded-md">
+      <caption className="text-left text-[11px] font-semibold text-slate-500 pb-1">
+        {chart.title} <span className="font-normal text-slate-400">({chart.unit})</span>
+      </caption>
+      <thead className="bg-slate-50">
+        <tr>
+          <th className="px-2 py-1" />
+          {chart.columns.map(column => (
+            <th key={column} className="px-2 py-1 font-semibold text-right whitespace-nowrap">{column}</th>
+          ))}
+        </tr>
+      </thead>
+      <tbody className="divide-y divide-slate-100">
+        {chart.rows.map(row => (
+          <tr key={row.label}>
+            <th className="px-2 py-1 font-medium text-left whitespace-nowrap">{row.label}</th>
+            {row.values.map((value, i) => (
+              <td key={i} className="px-2 py-1 text-right tabular-nums">{value}</td>
+            ))}
+          </tr>
+        ))}
+      </tbody>
+    </table>
+  </div>
+);
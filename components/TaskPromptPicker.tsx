@@ -0,0 +1,213 @@
+import React, { useMemo, useState } from 'react';
+import { BookOpen, X, Plus, Search, Trash2 } from 'lucide-react';
+import { WritingTask, WritingTaskType, WRITING_TASK_LABELS } from '../types';
+import { BUILT_IN_PROMPTS, loadCustomPrompts, addCustomPrompt, removeCustomPrompt } from '../services/promptBank';
+import { TaskChartTable } from './TaskChartTable';
+
+interface TaskPromptPickerProps {
+  task: WritingTask | null;
+  onChange: (task: WritingTask | null) => void;
+  disabled?: boolean;
+}
+
+type TypeFilter = 'all' | WritingTaskType;
+
+export const TaskPromptPicker: React.FC<TaskPromptPickerProps> = ({ task, onChange, disabled }) => {
+  const [isOpen, setIsOpen] = useState(false);
+  const [customPrompts, setCustomPrompts] = useState<WritingTask[]>(() => loadCustomPrompts());
+  const [typeFilter, setTypeFilter] = useState<TypeFilter>('all');
+  const [topicFilter, setTopicFilter] = useState('all');
+  const [search, setSearch] = useState('');
+
+  // New custom prompt form
+  const [isAdding, setIsAdding] = useState(false);
+  const [draftType, setDraftType] = useState<WritingTaskType>('task2');
+  const [draftTopic, setDraftTopic] = useState('');
+  const [draftQuestion, setDraftQuestion] = useState('');
+
+  const allPrompts = useMemo(() => [...BUILT_IN_PROMPTS, ...customPrompts], [customPrompts]);
+  const topics = useMemo(() => [...new Set(allPrompts.map(p => p.topic))].sort(), [allPrompts]);
+
+  const filtered = allPrompts.filter(p =>
+    (typeFilter === 'all' || p.type === typeFilter) &&
+    (topicFilter === 'all' || p.topic === topicFilter) &&
+    (!search.trim() || p.question.toLowerCase().includes(search.trim().toLowerCase()))
+  );
+
+  const handleSelect = (prompt: WritingTask) => {
+    onChange(prompt);
+    setIsOpen(false);
+  };
+
+  const handleAdd = () => {
+    if (!draftQuestion.trim()) return;
+    setCustomPrompts(addCustomPrompt({
+      type: draftType,
+      topic: draftTopic.trim() || 'Custom',
+      question: draftQuestion.trim(),
+    }));
+    setDraftQuestion('');
+    setDraftTopic('');
+    setIsAdding(false);
+  };
+
+  const handleRemove = (id: string) => {
+    setCustomPrompts(removeCustomPrompt(id));
+    if (task?.id === id) onChange(null);
+  };
+
+  return (
+    <>
+      <div className="bg-white rounded-xl border border-slate-200 shadow-sm px-4 py-3 flex items-start gap-3">
+        <BookOpen size={18} className="text-slate-400 mt-0.5 shrink-0" />
+        <div className="flex-1 min-w-0">
+          {task ? (
+            <>
+              <span className="text-[10px] font-bold text-blue-600 uppercase tracking-wider">{WRITING_TASK_LABELS[task.type]} · {task.topic}</span>
+              <p className="text-sm text-slate-700 leading-relaxed">{task.question}</p>
+              {task.chart && <TaskChartTable chart={task.chart} />}
+            </>
+          ) : (
+            <p className="text-sm text-slate-400 py-0.5">No task question — the essay will be assessed as free writing.</p>
+          )}
+        </div>
+        <div className="flex items-center gap-2 shrink-0">
+          <button
+            onClick={() => setIsOpen(true)}
+            disabled={disabled}
+            className="px-3 py-1.5 text-xs font-medium text-blue-600 bg-blue-50 hover:bg-blue-100 rounded-md transition-colors disabled:opacity-50"
+          >
+            {task ? 'Change' : 'Choose Task'}
+          </button>
+          {task && (
+            <button
+              onClick={() => onChange(null)}
+              disabled={disabled}
+              className="p-1.5 text-slate-400 hover:text-red-500 rounded-md transition-colors disabled:opacity-50"
+              title="Remove task"
+            >
+              <X size={14} />
+            </button>
+          )}
+        </div>
+      </div>
+
+      {isOpen && (
+        <div className="fixed inset-0 z-[100] bg-slate-900/40 backdrop-blur-sm flex items-center justify-center p-4" onClick={() => setIsOpen(false)}>
+          <div className="bg-white rounded-2xl shadow-2xl w-full max-w-3xl max-h-[85vh] flex flex-col overflow-hidden" onClick={(e) => e.stopPropagation()}>
+            <div className="flex items-center justify-between px-5 py-4 border-b border-slate-100">
+              <h3 className="text-lg font-bold text-slate-900">Practice Prompts</h3>
+              <button onClick={() => setIsOpen(false)} className="p-1.5 text-slate-400 hover:text-slate-600 rounded-md">
+                <X size={18} />
+              </button>
+            </div>
+
+            {/* Filters */}
+            <div className="px-5 py-3 border-b border-slate-100 flex flex-wrap items-center gap-2">
+              <select
+                value={typeFilter}
+                onChange={(e) => setTypeFilter(e.target.value as TypeFilter)}
+                className="text-sm border border-slate-200 rounded-md px-2 py-1.5 bg-white"
+              >
+                <option value="all">All task types</option>
+                {(Object.keys(WRITING_TASK_LABELS) as WritingTaskType[]).map(t => (
+                  <option key={t} value={t}>{WRITING_TASK_LABELS[t]}</option>
+                ))}
+              </select>
+              <select
+                value={topicFilter}
+                onChange={(e) => setTopicFilter(e.target.value)}
+                className="text-sm border border-slate-200 rounded-md px-2 py-1.5 bg-white"
+              >
+                <option value="all">All topics</option>
+                {topics.map(t => <option key={t} value={t}>{t}</option>)}
+              </select>
+              <div className="flex-1 min-w-[160px] flex items-center gap-2 border border-slate-200 rounded-md px-2 py-1.5">
+                <Search size={14} className="text-slate-400" />
+                <input
+                  value={search}
+                  onChange={(e) => setSearch(e.target.value)}
+                  placeholder="Search questions..."
+                  className="flex-1 text-sm focus:outline-none"
+                />
+              </div>
+              <button
+                onClick={() => setIsAdding(!isAdding)}
+                className="flex items-center gap-1 px-3 py-1.5 text-xs font-medium text-white bg-blue-600 hover:bg-blue-700 rounded-md"
+              >
+                <Plus size={14} /> Add your own
+              </button>
+            </div>
+
+            {isAdding && (
+              <div className="px-5 py-4 border-b border-slate-100 bg-slate-50 flex flex-col gap-2">
+                <div className="flex gap-2">
+                  <select
+                    value={draftType}
+                    onChange={(e) => setDraftType(e.target.value as WritingTaskType)}
+                    className="text-sm border border-slate-200 rounded-md px-2 py-1.5 bg-white"
+                  >
+                    {(Object.keys(WRITING_TASK_LABELS) as WritingTaskType[]).map(t => (
+                      <option key={t} value={t}>{WRITING_TASK_LABELS[t]}</option>
+                    ))}
+                  </select>
+                  <input
+                    value={draftTopic}
+                    onChange={(e) => setDraftTopic(e.target.value)}
+                    placeholder="Topic (e.g. Education)"
+                    className="flex-1 text-sm border border-slate-200 rounded-md px-2 py-1.5"
+                  />
+                </div>
+                <textarea
+                  value={draftQuestion}
+                  onChange={(e) => setDraftQuestion(e.target.value)}
+                  placeholder="Paste the task question..."
+                  rows={3}
+                  className="text-sm border border-slate-200 rounded-md px-2 py-1.5 resize-none"
+                />
+                <div className="flex justify-end">
+                  <button
+                    onClick={handleAdd}
+                    disabled={!draftQuestion.trim()}
+                    className="px-3 py-1.5 text-xs font-medium text-white bg-green-600 hover:bg-green-700 disabled:bg-slate-300 rounded-md"
+                  >
+                    Save Prompt
+                  </button>
+                </div>
+              </div>
+            )}
+
+            {/* Prompt List */}
+            <div className="flex-1 overflow-y-auto divide-y divide-slate-100">
+              {filtered.length === 0 ? (
+                <div className="p-8 text-center text-sm text-slate-400">No prompts match these filters.</div>
+              ) : filtered.map(prompt => (
+                <div
+                  key={prompt.id}
+                  onClick={() => handleSelect(prompt)}
+                  className={`px-5 py-3 cursor-pointer hover:bg-blue-50/50 transition-colors flex items-start gap-3 ${task?.id === prompt.id ? 'bg-blue-50' : ''}`}
+                >
+                  <div className="flex-1 min-w-0">
+                    <span className="text-[10px] font-bold text-slate-400 uppercase tracking-wider">
+                      {WRITING_TASK_LABELS[prompt.type]} · {prompt.topic}{prompt.isCustom ? ' · Custom' : ''}
+                    </span>
+                    <p className="text-sm text-slate-700 leading-relaxed">{prompt.question}</p>
+                  </div>
+                  {prompt.isCustom && (
+                    <button
+                      onClick={(e) => { e.stopPropagation(); handleRemove(prompt.id); }}
+                      className="p-1.5 text-slate-300 hover:text-red-500 rounded transition-colors shrink-0"
+                      title="Delete prompt"
+                    >
+                      <Trash2 size={14} />
+                    </button>
+                  )}
+                </div>
+              ))}
+            </div>
+          </div>
+        </div>
+      )}
+    </>
+  );
+};
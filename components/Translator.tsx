@@ -1,19 +1,40 @@
-import React, { useState, useEffect, useCallback } from 'react';
-import { ArrowRightLeft, Sparkles, X, ToggleLeft, ToggleRight } from 'lucide-react';
-import { GeminiModel, TranslationResult } from '../types';
-import { translateWithNuance } from '../services/geminiService';
+import React, { useState, useEffect, useCallback, useRef } from 'react';
+import { ArrowRightLeft, Sparkles, X, ToggleLeft, ToggleRight, ScanSearch, BookmarkPlus, BookmarkCheck } from 'lucide-react';
+import { FlashcardDeck, GeminiModel, TranslationLanguage, TranslationResult, TranslationSource, TRANSLATION_LANGUAGE_LABELS } from '../types';
+import { translateWithNuance } from '../services/aiService';
+import { QuotaExceededError, isAbortError } from '../services/aiErrors';
+import { DEFAULT_TARGET_LANGUAGE, isTranslationLanguage, languageName, loadTranslatorLanguage, saveTranslatorLanguage } from '../services/translatorSettings';
+import { DEFAULT_DECK_NAME, addCard, createDeck, deckHasTerm, loadDecks } from '../services/flashcardDecks';
 
 interface TranslatorProps {
   model: GeminiModel;
 }
 
+// Every language except English can be the other side of the pair
+const OTHER_LANGUAGES = (Object.keys(TRANSLATION_LANGUAGE_LABELS) as TranslationLanguage[]).filter(code => code !== 'en');
+
+const NEW_DECK_OPTION = '__new';
+
+const languageSelectClassName = "text-sm font-bold w-36 text-center py-2 rounded-lg bg-white text-blue-700 shadow-sm transition-all cursor-pointer focus:outline-none focus:ring-2 focus:ring-blue-100";
+
 export const Translator: React.FC<TranslatorProps> = ({ model }) => {
   const [inputText, setInputText] = useState('');
-  const [direction, setDirection] = useState<'ru-en' | 'en-ru'>('ru-en');
+  // The learner's language; translation goes from it into English, or back after a swap
+  const [language, setLanguage] = useState<TranslationSource>(loadTranslatorLanguage);
+  const [direction, setDirection] = useState<'to-en' | 'from-en'>('to-en');
   const [isTranslating, setIsTranslating] = useState(false);
   const [result, setResult] = useState<TranslationResult | null>(null);
+  const [resultSource, setResultSource] = useState(''); // The text `result` translates; saved as card context
   const [isAutoTranslate, setIsAutoTranslate] = useState(false);
+  // Only the latest request may update the result; older ones are aborted and ignored
+  const requestIdRef = useRef(0);
+  const abortRef = useRef<AbortController | null>(null);
   
+  // Deck that saved words go into; the first deck unless the learner picks another
+  const [decks, setDecks] = useState<FlashcardDeck[]>(loadDecks);
+  const [deckId, setDeckId] = useState<string | null>(null);
+  const activeDeck = decks.find(d => d.id === deckId) ?? decks[0] ?? null;
+
   // Tooltip State
   const [tooltip, setTooltip] = useState<{
       text: string;
@@ -22,24 +43,40 @@ export const Translator: React.FC<TranslatorProps> = ({ model }) => {
       y: number;
   } | null>(null);
 
+  // 'auto' is only offered as a source, so the other direction always has a concrete language
+  const targetLanguage: TranslationLanguage = direction === 'to-en' ? 'en' : language === 'auto' ? DEFAULT_TARGET_LANGUAGE : language;
+
   const handleTranslate = useCallback(async () => {
     if (!inputText.trim()) return;
+    abortRef.current?.abort();
+    const controller = new AbortController();
+    abortRef.current = controller;
+    const requestId = ++requestIdRef.current;
+
     setIsTranslating(true);
     // Don't clear result immediately for auto-translate to prevent flickering
     if (!isAutoTranslate) setResult(null);
 
-    const from = direction === 'ru-en' ? 'ru' : 'en';
-    const to = direction === 'ru-en' ? 'en' : 'ru';
+    const from: TranslationSource = direction === 'to-en' ? language : 'en';
+    const sourceText = inputText;
 
     try {
-        const data = await translateWithNuance(inputText, from, to, model);
+        const data = await translateWithNuance(sourceText, from, targetLanguage, model, controller.signal);
+        if (requestId !== requestIdRef.current) return;
         setResult(data);
+        setResultSource(sourceText);
     } catch (e) {
-        if (!isAutoTranslate) alert("Translation failed. Please try again.");
+        if (requestId !== requestIdRef.current || isAbortError(e)) return;
+        // Quota problems are worth reporting even while auto-translating
+        if (e instanceof QuotaExceededError) alert(e.message);
+        else if (!isAutoTranslate) alert("Translation failed. Please try again.");
     } finally {
-        setIsTranslating(false);
+        if (requestId === requestIdRef.current) setIsTranslating(false);
     }
-  }, [inputText, direction, model, isAutoTranslate]);
+  }, [inputText, direction, language, targetLanguage, model, isAutoTranslate]);
+
+  // Abort whatever is still in flight when leaving the translator
+  useEffect(() => () => abortRef.current?.abort(), []);
 
   // Auto-translate Logic
   useEffect(() => {
@@ -52,12 +89,32 @@ export const Translator: React.FC<TranslatorProps> = ({ model }) => {
     return () => clearTimeout(timer);
   }, [inputText, isAutoTranslate, handleTranslate]);
 
+  // A pending translation belongs to the old language pair
+  const cancelPending = () => {
+      abortRef.current?.abort();
+      requestIdRef.current++;
+      setIsTranslating(false);
+  };
+
   const swapLanguages = () => {
-      setDirection(prev => prev === 'ru-en' ? 'en-ru' : 'ru-en');
+      cancelPending();
+      // English can't be auto-detected into; keep the language that was detected last
+      if (direction === 'to-en' && language === 'auto') {
+          const detected = result?.detectedLanguage;
+          changeLanguage(isTranslationLanguage(detected) && detected !== 'en' ? detected : DEFAULT_TARGET_LANGUAGE);
+      }
+      setDirection(prev => prev === 'to-en' ? 'from-en' : 'to-en');
       setInputText('');
       setResult(null);
   };
 
+  const changeLanguage = (next: TranslationSource) => {
+      cancelPending();
+      setLanguage(next);
+      saveTranslatorLanguage(next);
+      setResult(null);
+  };
+
   const handleMouseEnter = (e: React.MouseEvent, text: string, definition?: string) => {
       if (!definition) return;
       const rect = (e.currentTarget as HTMLElement).getBoundingClientRect();
@@ -69,6 +126,42 @@ export const Translator: React.FC<TranslatorProps> = ({ model }) => {
       });
   };
 
+  // Saving with no deck yet creates the default one
+  const saveToDeck = (term: string, definition?: string) => {
+      let target = activeDeck;
+      if (!target) {
+          const created = createDeck(DEFAULT_DECK_NAME);
+          target = created[created.length - 1];
+      }
+      setDecks(addCard(target.id, { term, definition: definition ?? '', language: targetLanguage, context: resultSource }));
+      setDeckId(target.id);
+  };
+
+  const handleDeckChange = (value: string) => {
+      if (value !== NEW_DECK_OPTION) {
+          setDeckId(value);
+          return;
+      }
+      const name = prompt("Name of the new deck:");
+      if (!name?.trim()) return;
+      const created = createDeck(name);
+      setDecks(created);
+      setDeckId(created[created.length - 1].id);
+  };
+
+  const renderSaveButton = (term: string, definition: string | undefined, revealClassName: string) => {
+      const isSaved = Boolean(activeDeck && deckHasTerm(activeDeck, term));
+      return (
+          <button
+              onClick={(e) => { e.stopPropagation(); if (!isSaved) saveToDeck(term, definition); }}
+              className={`align-middle p-0.5 rounded transition-colors ${isSaved ? 'text-blue-600 cursor-default' : `text-slate-400 hover:text-blue-600 ${revealClassName}`}`}
+              title={isSaved ? `Saved in ${activeDeck!.name}` : `Save to ${activeDeck?.name ?? DEFAULT_DECK_NAME}`}
+          >
+              {isSaved ? <BookmarkCheck size={14} /> : <BookmarkPlus size={14} />}
+          </button>
+      );
+  };
+
   const handleSwapWord = (segmentIdx: number, altIdx: number) => {
       if (!result) return;
       
@@ -106,17 +199,37 @@ export const Translator: React.FC<TranslatorProps> = ({ model }) => {
       }
   };
 
-  const sourceLang = direction === 'ru-en' ? 'Russian' : 'English';
-  const targetLang = direction === 'ru-en' ? 'English' : 'Russian';
+  const otherLang = language === 'auto' ? 'Auto-detect' : languageName(language);
+  const sourceLang = direction === 'to-en' ? otherLang : 'English';
+  const targetLang = direction === 'to-en' ? 'English' : otherLang;
+  const detectedLanguage = language === 'auto' && direction === 'to-en' ? result?.detectedLanguage : undefined;
+
+  const languageSelect = (
+      <select
+          value={language}
+          onChange={(e) => changeLanguage(e.target.value as TranslationSource)}
+          className={languageSelectClassName}
+          title={direction === 'to-en' ? 'Translate from' : 'Translate into'}
+      >
+          {direction === 'to-en' && <option value="auto">Auto-detect</option>}
+          {OTHER_LANGUAGES.map(code => (
+              <option key={code} value={code}>{TRANSLATION_LANGUAGE_LABELS[code]}</option>
+          ))}
+      </select>
+  );
+
+  const englishLabel = (
+      <div className="text-sm font-bold w-36 text-center py-2 rounded-lg bg-white text-blue-700 shadow-sm transition-all">
+          English
+      </div>
+  );
 
   return (
     <div className="h-full flex flex-col gap-6">
        {/* Controls */}
        <div className="bg-white p-4 rounded-xl border border-slate-200 shadow-sm flex flex-col sm:flex-row items-center justify-between gap-4 shrink-0">
            <div className="flex items-center gap-4 bg-slate-50 p-1.5 rounded-xl border border-slate-100">
-               <div className="text-sm font-bold w-28 text-center py-2 rounded-lg bg-white text-blue-700 shadow-sm transition-all">
-                   {sourceLang}
-               </div>
+               {direction === 'to-en' ? languageSelect : englishLabel}
                
                <button 
                 onClick={swapLanguages}
@@ -126,9 +239,7 @@ export const Translator: React.FC<TranslatorProps> = ({ model }) => {
                    <ArrowRightLeft size={16} />
                </button>
                
-               <div className="text-sm font-bold w-28 text-center py-2 rounded-lg bg-white text-blue-700 shadow-sm transition-all">
-                   {targetLang}
-               </div>
+               {direction === 'to-en' ? englishLabel : languageSelect}
            </div>
            
            <div className="flex items-center gap-4">
@@ -166,8 +277,13 @@ export const Translator: React.FC<TranslatorProps> = ({ model }) => {
            <div className="bg-white rounded-xl border border-slate-200 shadow-sm flex flex-col overflow-hidden focus-within:ring-2 focus-within:ring-blue-100 transition-shadow">
                 <div className="p-3 border-b border-slate-50 bg-slate-50/50 flex justify-between items-center">
                     <span className="text-xs font-bold text-slate-400 uppercase tracking-wider">
-                        {sourceLang} Source
+                        {language === 'auto' && direction === 'to-en' ? 'Source' : `${sourceLang} Source`}
                     </span>
+                    {detectedLanguage && (
+                        <span className="ml-auto mr-3 flex items-center gap-1 text-[10px] font-medium text-blue-700 bg-blue-50 px-2 py-0.5 rounded-full border border-blue-100" title="Detected source language">
+                            <ScanSearch size={10} /> {languageName(detectedLanguage)}
+                        </span>
+                    )}
                     {inputText && (
                         <button onClick={() => setInputText('')} className="text-slate-400 hover:text-red-500">
                             <X size={14} />
@@ -178,16 +294,28 @@ export const Translator: React.FC<TranslatorProps> = ({ model }) => {
                     value={inputText}
                     onChange={(e) => setInputText(e.target.value)}
                     className="flex-1 w-full p-6 resize-none focus:outline-none text-lg text-slate-800 placeholder:text-slate-300 font-serif leading-relaxed bg-transparent"
-                    placeholder={`Type in ${sourceLang}...`}
+                    placeholder={language === 'auto' && direction === 'to-en' ? 'Type in any language...' : `Type in ${sourceLang}...`}
                 />
            </div>
 
            {/* Output */}
            <div className="bg-slate-50 rounded-xl border border-slate-200 shadow-sm flex flex-col overflow-hidden relative">
-                <div className="p-3 border-b border-slate-200/50 bg-slate-100/50">
+                <div className="p-3 border-b border-slate-200/50 bg-slate-100/50 flex justify-between items-center">
                     <span className="text-xs font-bold text-slate-400 uppercase tracking-wider">
                         {targetLang} Result
                     </span>
+                    <label className="flex items-center gap-1.5 text-xs text-slate-400">
+                        Save to
+                        <select
+                            value={activeDeck?.id ?? ''}
+                            onChange={(e) => handleDeckChange(e.target.value)}
+                            className="text-xs font-medium text-slate-600 border border-slate-200 rounded-md px-1.5 py-0.5 bg-white"
+                        >
+                            {!activeDeck && <option value="">{DEFAULT_DECK_NAME}</option>}
+                            {decks.map(deck => <option key={deck.id} value={deck.id}>{deck.name}</option>)}
+                            <option value={NEW_DECK_OPTION}>New deck...</option>
+                        </select>
+                    </label>
                 </div>
                 <div className="flex-1 p-6 overflow-y-auto">
                     {result ? (
@@ -195,7 +323,7 @@ export const Translator: React.FC<TranslatorProps> = ({ model }) => {
                             {result.segments.map((seg, segIdx) => (
                                 <span 
                                     key={segIdx} 
-                                    className="relative inline-block mr-1.5 align-baseline"
+                                    className="group/seg relative inline-block mr-1.5 align-baseline"
                                 >
                                     {/* Main Text */}
                                     <span 
@@ -205,20 +333,24 @@ export const Translator: React.FC<TranslatorProps> = ({ model }) => {
                                     >
                                         {seg.text}
                                     </span>
+                                    {renderSaveButton(seg.text, seg.definition, 'opacity-0 group-hover/seg:opacity-100')}
                                     
                                     {/* Alternatives (Transparent Gray) - Only show if single segment */}
                                     {result.segments.length === 1 && seg.alternatives && seg.alternatives.length > 0 && (
                                         <span className="inline-flex gap-1 ml-1 text-sm select-none align-baseline">
                                             <span className="text-slate-300">(</span>
                                             {seg.alternatives.slice(0, 3).map((alt, altIdx) => (
-                                                <span 
-                                                    key={altIdx}
-                                                    onClick={() => handleSwapWord(segIdx, altIdx)}
-                                                    onMouseEnter={(e) => handleMouseEnter(e, alt.text, alt.definition)}
-                                                    onMouseLeave={() => setTooltip(null)}
-                                                    className="text-slate-400/60 hover:text-blue-500 hover:font-bold hover:underline cursor-pointer transition-all"
-                                                >
-                                                    {alt.text}{altIdx < (seg.alternatives!.length < 3 ? seg.alternatives!.length : 3) - 1 ? ',' : ''}
+                                                <span key={altIdx} className="group/alt inline-flex items-center">
+                                                    <span 
+                                                        onClick={() => handleSwapWord(segIdx, altIdx)}
+                                                        onMouseEnter={(e) => handleMouseEnter(e, alt.text, alt.definition)}
+                                                        onMouseLeave={() => setTooltip(null)}
+                                                        className="text-slate-400/60 hover:text-blue-500 hover:font-bold hover:underline cursor-pointer transition-all"
+                                                    >
+                                                        {alt.text}
+                                                    </span>
+                                                    {renderSaveButton(alt.text, alt.definition, 'hidden group-hover/alt:inline-flex')}
+                                                    {altIdx < (seg.alternatives!.length < 3 ? seg.alternatives!.length : 3) - 1 ? ',' : ''}
                                                 </span>
                                             ))}
                                             <span className="text-slate-300">)</span>
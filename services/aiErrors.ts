@@ -0,0 +1,51 @@
+// --- AI Service Errors ---
+// Typed failures so callers can tell an unusable model response apart from a network error.
+
+export class AIServiceError extends Error {
+  constructor(message: string) {
+    super(message);
+    this.name = 'AIServiceError';
+  }
+}
+
+export class EmptyResponseError extends AIServiceError {
+  constructor() {
+    super("The AI returned an empty response.");
+    this.name = 'EmptyResponseError';
+  }
+}
+
+// The response was not parseable JSON, even after a repair attempt
+export class MalformedResponseError extends AIServiceError {
+  constructor(public readonly raw: string) {
+    super("The AI returned a response that could not be read.");
+    this.name = 'MalformedResponseError';
+  }
+}
+
+// The response parsed but broke the expected shape or value ranges, even after a repair attempt
+export class InvalidResponseError extends AIServiceError {
+  constructor(public readonly issues: string[], public readonly raw: string) {
+    super(`The AI returned an incomplete or inconsistent result (${issues.length} issue${issues.length === 1 ? '' : 's'}).`);
+    this.name = 'InvalidResponseError';
+  }
+}
+
+export class RequestCancelledError extends AIServiceError {
+  constructor() {
+    super("The request was cancelled.");
+    this.name = 'RequestCancelledError';
+  }
+}
+
+// Rate limit still hit after all retries; usually the API key's quota is used up
+export class QuotaExceededError extends AIServiceError {
+  constructor() {
+    super("The AI usage quota has been exhausted. Please wait a while before trying again.");
+    this.name = 'QuotaExceededError';
+  }
+}
+
+export const isAbortError = (error: unknown) =>
+  error instanceof RequestCancelledError ||
+  (error instanceof Error && error.name === 'AbortError');
@@ -0,0 +1,79 @@
+import { EssayAnalysis, SpeakingAnalysis, GeminiModel, ChatMessage, TranslationResult, TranslationLanguage, TranslationSource, WritingTask, FluencyMetrics, ExaminerSettings } from "../types";
+
+// --- Provider Contract ---
+// Every AI-backed feature in the app goes through this interface, so components never
+// talk to a vendor SDK directly. Gemini is the production provider; the mock provider
+// returns deterministic canned data for offline development, demos and tests.
+
+export type AIProviderId = 'gemini' | 'mock';
+
+// Subset of the Live API server message that the speaking UI consumes.
+// Gemini's LiveServerMessage is structurally compatible with this shape.
+export interface LiveMessage {
+  serverContent?: {
+    modelTurn?: {
+      parts?: { inlineData?: { data?: string; mimeType?: string } }[];
+    };
+    inputTranscription?: { text?: string };
+    outputTranscription?: { text?: string };
+    turnComplete?: boolean;
+    interrupted?: boolean;
+  };
+}
+
+export interface LiveSessionCallbacks {
+  onopen?: () => void;
+  onmessage: (message: LiveMessage) => void;
+  onclose?: (event: CloseEvent) => void;
+  onerror?: (event: ErrorEvent) => void;
+}
+
+export interface LiveSessionHandle {
+  sendRealtimeInput: (input: { media: { mimeType: string; data: string } }) => void;
+  // Text turns from the app itself, such as the instructions that move the examiner to the next part,
+  // or the earlier conversation replayed as context when a dropped session is resumed
+  sendClientContent: (content: { turns: { role: 'user' | 'model'; parts: { text: string }[] }[]; turnComplete?: boolean }) => void;
+  close: () => void;
+}
+
+export interface EssayAnalysisOptions {
+  task?: WritingTask;
+  // Called with the fields parsed so far while the response is still streaming
+  onProgress?: (partial: Partial<EssayAnalysis>) => void;
+  signal?: AbortSignal;
+}
+
+export interface ExaminerOptions {
+  // Voice, accent, difficulty and topics chosen for the session
+  settings?: ExaminerSettings;
+  signal?: AbortSignal;
+}
+
+// Base64 audio sent inline with a request
+export interface InlineAudio {
+  data: string;
+  mimeType: string;
+  seconds: number;
+}
+
+export interface SpeakingAnalysisOptions {
+  // Measured locally from the recording; grounds the fluency judgement
+  fluency?: FluencyMetrics;
+  // The learner's recorded answers; Pronunciation is only scored when this is given
+  audio?: InlineAudio;
+  signal?: AbortSignal;
+}
+
+// Every request accepts an optional AbortSignal. Aborting rejects the promise with
+// RequestCancelledError (or closes the live session) and stops any pending retries.
+export interface AIProvider {
+  id: AIProviderId;
+  label: string;
+  analyzeEssay: (text: string, model: GeminiModel, options?: EssayAnalysisOptions) => Promise<EssayAnalysis>;
+  transcribeImage: (base64Image: string, mimeType: string, signal?: AbortSignal) => Promise<string>;
+  getExaminerResponse: (history: ChatMessage[], model: GeminiModel, options?: ExaminerOptions) => Promise<string>;
+  createLiveSession: (callbacks: LiveSessionCallbacks, options?: ExaminerOptions) => Promise<LiveSessionHandle>;
+  analyzeSpeakingSession: (history: ChatMessage[], model: GeminiModel, options?: SpeakingAnalysisOptions) => Promise<SpeakingAnalysis>;
+  // With `from` 'auto' the provider detects the source and reports it in `detectedLanguage`
+  translateWithNuance: (text: string, from: TranslationSource, to: TranslationLanguage, model: GeminiModel, signal?: AbortSignal) => Promise<TranslationResult>;
+}
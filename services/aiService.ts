@@ -0,0 +1,72 @@
+import { EssayAnalysis } from "../types";
+import { AIProvider, AIProviderId } from "./aiProvider";
+import { geminiProvider, hasGeminiApiKey } from "./geminiService";
+import { mockProvider } from "./mockProvider";
+import { anchorAnalysis, anchorCorrections, anchorSpeakingAnalysis } from "./correctionAnchors";
+import { applySpeakingBand, applyWritingBand } from "./ieltsScoring";
+import { sanitizePartialAnalysis } from "./validation";
+
+const PROVIDERS: Record<AIProviderId, AIProvider> = {
+  gemini: geminiProvider,
+  mock: mockProvider,
+};
+
+// Resolve the provider from VITE_AI_PROVIDER ('gemini' | 'mock').
+// Without an explicit choice we use Gemini when a key is configured, otherwise the mock.
+const resolveProviderId = (): AIProviderId => {
+  let configured: string | undefined;
+  // @ts-ignore
+  if (typeof import.meta !== 'undefined' && import.meta.env && import.meta.env.VITE_AI_PROVIDER) {
+    // @ts-ignore
+    configured = import.meta.env.VITE_AI_PROVIDER;
+  }
+
+  if (configured && configured in PROVIDERS) {
+    return configured as AIProviderId;
+  }
+  if (configured) {
+    console.warn(`Unknown AI provider "${configured}", falling back to default.`);
+  }
+  return hasGeminiApiKey() ? 'gemini' : 'mock';
+};
+
+let activeProvider: AIProvider = PROVIDERS[resolveProviderId()];
+
+export const getAIProvider = () => activeProvider;
+
+export const setAIProvider = (id: AIProviderId) => {
+  activeProvider = PROVIDERS[id];
+};
+
+// --- Feature entry points used by components ---
+
+export const analyzeEssay: AIProvider['analyzeEssay'] = async (text, model, options = {}) => {
+  const { onProgress } = options;
+  // Anchor streamed corrections as they arrive; only re-run when the list grows
+  let lastCount = -1;
+  let lastAnchored: EssayAnalysis['corrections'] = [];
+  const handleProgress = onProgress && ((partial: Partial<EssayAnalysis>) => {
+    const safe = sanitizePartialAnalysis(partial);
+    const corrections = safe.corrections ?? [];
+    if (corrections.length !== lastCount) {
+      lastCount = corrections.length;
+      lastAnchored = anchorCorrections(text, corrections);
+    }
+    onProgress({ ...safe, corrections: lastAnchored });
+  });
+
+  const result = await activeProvider.analyzeEssay(text, model, { ...options, onProgress: handleProgress });
+  return applyWritingBand(anchorAnalysis(text, result));
+};
+
+export const transcribeImage: AIProvider['transcribeImage'] = (...args) => activeProvider.transcribeImage(...args);
+
+export const getExaminerResponse: AIProvider['getExaminerResponse'] = (...args) => activeProvider.getExaminerResponse(...args);
+
+export const createLiveSession: AIProvider['createLiveSession'] = (...args) => activeProvider.createLiveSession(...args);
+
+// Each correction is tied to the user turn it came from, so the transcript can highlight it
+export const analyzeSpeakingSession: AIProvider['analyzeSpeakingSession'] = async (history, model, options) =>
+  applySpeakingBand(anchorSpeakingAnalysis(history, await activeProvider.analyzeSpeakingSession(history, model, options)));
+
+export const translateWithNuance: AIProvider['translateWithNuance'] = (...args) => activeProvider.translateWithNuance(...args);
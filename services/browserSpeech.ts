@@ -0,0 +1,100 @@
+// --- Browser Speech ---
+// Speech recognition and synthesis built into the browser, used by the text-chat speaking
+// mode when the Live API or a streaming microphone is not available. Recognition is
+// only exposed by Chromium and Safari (prefixed), so callers must check for support.
+
+const SPEECH_LANG = 'en-GB';
+
+// Minimal shape of the Web Speech API, which the DOM typings do not include
+interface RecognitionResult {
+  isFinal: boolean;
+  0: { transcript: string };
+}
+
+interface Recognition {
+  lang: string;
+  continuous: boolean;
+  interimResults: boolean;
+  onresult: ((e: { resultIndex: number; results: ArrayLike<RecognitionResult> }) => void) | null;
+  onerror: ((e: { error: string }) => void) | null;
+  onend: (() => void) | null;
+  start: () => void;
+  stop: () => void;
+  abort: () => void;
+}
+
+const RecognitionClass: (new () => Recognition) | undefined = typeof window !== 'undefined'
+  ? (window as any).SpeechRecognition || (window as any).webkitSpeechRecognition
+  : undefined;
+
+export const hasSpeechRecognition = Boolean(RecognitionClass);
+export const hasSpeechSynthesis = typeof window !== 'undefined' && 'speechSynthesis' in window;
+
+export interface SpeechRecognizer {
+  start: () => void;
+  stop: () => void;
+}
+
+export interface SpeechRecognizerCallbacks {
+  // Text that will not change any more
+  onFinal: (text: string) => void;
+  // The phrase currently being recognised, replaced on every update
+  onInterim: (text: string) => void;
+  onEnd: () => void;
+  onError: (message: string) => void;
+}
+
+const RECOGNITION_ERRORS: Record<string, string> = {
+  'not-allowed': 'Microphone access was denied.',
+  'audio-capture': 'No microphone was found.',
+  'network': 'Speech recognition needs a network connection.',
+};
+
+export const createSpeechRecognizer = (callbacks: SpeechRecognizerCallbacks): SpeechRecognizer | null => {
+  if (!RecognitionClass) return null;
+  const recognition = new RecognitionClass();
+  recognition.lang = SPEECH_LANG;
+  recognition.continuous = true;
+  recognition.interimResults = true;
+
+  recognition.onresult = (e) => {
+    let interim = '';
+    for (let i = e.resultIndex; i < e.results.length; i++) {
+      const result = e.results[i];
+      if (result.isFinal) callbacks.onFinal(result[0].transcript.trim());
+      else interim += result[0].transcript;
+    }
+    callbacks.onInterim(interim.trim());
+  };
+  recognition.onerror = (e) => {
+    // Silence and deliberate stops are not worth reporting
+    if (e.error === 'no-speech' || e.error === 'aborted') return;
+    callbacks.onError(RECOGNITION_ERRORS[e.error] ?? `Speech recognition failed (${e.error}).`);
+  };
+  recognition.onend = () => {
+    callbacks.onInterim('');
+    callbacks.onEnd();
+  };
+
+  return {
+    start: () => recognition.start(),
+    stop: () => recognition.stop(),
+  };
+};
+
+// Reads the examiner's reply aloud, interrupting anything still being spoken.
+// `lang` picks the accent when the system has a matching voice.
+export const speak = (text: string, lang = SPEECH_LANG) => {
+  if (!hasSpeechSynthesis) return;
+  window.speechSynthesis.cancel();
+  const utterance = new SpeechSynthesisUtterance(text);
+  utterance.lang = lang;
+  // Some platforms report tags as en_GB
+  const voice = window.speechSynthesis.getVoices().find(v => v.lang.replace('_', '-') === lang);
+  if (voice) utterance.voice = voice;
+  window.speechSynthesis.speak(utterance);
+};
+
+export const cancelSpeech = () => {
+  if (hasSpeechSynthesis) window.speechSynthesis.cancel();
+};
@@ -0,0 +1,236 @@
+import { ChatMessage, Correction, EssayAnalysis } from "../types";
+
+// --- Correction Anchoring ---
+// Models return corrections as quoted snippets, not positions. We resolve each one to
+// [start, end) character offsets in the source text. Repeated phrases are disambiguated
+// by order of appearance, and paraphrased snippets are realigned with approximate matching.
+// Corrections that cannot be placed keep undefined offsets so the UI can still list them.
+
+interface Range {
+  start: number;
+  end: number;
+}
+
+interface Candidate extends Range {
+  distance: number;
+}
+
+// Maximum share of the snippet that may differ for a fuzzy match to be accepted
+const MAX_FUZZY_ERROR_RATE = 0.3;
+const MIN_FUZZY_LENGTH = 4;
+
+const overlaps = (a: Range, b: Range) => a.start < b.end && b.start < a.end;
+
+const findExactCandidates = (text: string, snippet: string, ignoreCase: boolean): Candidate[] => {
+  const haystack = ignoreCase ? text.toLowerCase() : text;
+  const needle = ignoreCase ? snippet.toLowerCase() : snippet;
+  const candidates: Candidate[] = [];
+  let idx = haystack.indexOf(needle);
+  while (idx !== -1) {
+    candidates.push({ start: idx, end: idx + needle.length, distance: ignoreCase ? 1 : 0 });
+    idx = haystack.indexOf(needle, idx + 1);
+  }
+  return candidates;
+};
+
+// Approximate substring search (Sellers' algorithm): edit distance of the snippet
+// against every substring of the text, tracking where each best alignment starts.
+const findFuzzyCandidates = (text: string, snippet: string): Candidate[] => {
+  const pattern = snippet.toLowerCase();
+  const source = text.toLowerCase();
+  const m = pattern.length;
+  const maxDistance = Math.floor(m * MAX_FUZZY_ERROR_RATE);
+
+  // prev/curr hold the DP column for the current text position, starts the alignment origin
+  let prev = new Array<number>(m + 1);
+  let prevStart = new Array<number>(m + 1);
+  for (let i = 0; i <= m; i++) {
+    prev[i] = i;
+    prevStart[i] = 0;
+  }
+
+  const candidates: Candidate[] = [];
+  for (let j = 1; j <= source.length; j++) {
+    const curr = new Array<number>(m + 1);
+    const currStart = new Array<number>(m + 1);
+    curr[0] = 0;
+    currStart[0] = j;
+    for (let i = 1; i <= m; i++) {
+      const cost = pattern[i - 1] === source[j - 1] ? 0 : 1;
+      const substitute = prev[i - 1] + cost;
+      const insert = prev[i] + 1;
+      const remove = curr[i - 1] + 1;
+      if (substitute <= insert && substitute <= remove) {
+        curr[i] = substitute;
+        currStart[i] = prevStart[i - 1];
+      } else if (remove <= insert) {
+        curr[i] = remove;
+        currStart[i] = currStart[i - 1];
+      } else {
+        curr[i] = insert;
+        currStart[i] = prevStart[i];
+      }
+    }
+    if (curr[m] <= maxDistance) {
+      candidates.push({ start: currStart[m], end: j, distance: curr[m] + 1 });
+    }
+    prev = curr;
+    prevStart = currStart;
+  }
+  return candidates;
+};
+
+const trimRange = (text: string, range: Candidate): Candidate => {
+  let { start, end } = range;
+  while (start < end && /\s/.test(text[start])) start++;
+  while (end > start && /\s/.test(text[end - 1])) end--;
+  return { ...range, start, end };
+};
+
+// Prefer the closest match, then the first one at or after the previous anchor
+// (models list corrections in reading order), then the earliest one overall.
+const pickCandidate = (candidates: Candidate[], taken: Range[], cursor: number): Candidate | null => {
+  const free = candidates.filter(c => c.end > c.start && !taken.some(t => overlaps(c, t)));
+  if (free.length === 0) return null;
+  return free.sort((a, b) =>
+    a.distance - b.distance ||
+    Number(b.start >= cursor) - Number(a.start >= cursor) ||
+    a.start - b.start
+  )[0];
+};
+
+const locate = (text: string, snippet: string, taken: Range[], cursor: number): Candidate | null => {
+  const exact = pickCandidate(findExactCandidates(text, snippet, false), taken, cursor);
+  if (exact) return exact;
+
+  const caseless = pickCandidate(findExactCandidates(text, snippet, true), taken, cursor);
+  if (caseless) return caseless;
+
+  const trimmed = snippet.trim().replace(/^["'“”‘’]+|["'“”‘’]+$/g, '');
+  if (trimmed.length < MIN_FUZZY_LENGTH) return null;
+  const fuzzy = pickCandidate(findFuzzyCandidates(text, trimmed).map(c => trimRange(text, c)), taken, cursor);
+  return fuzzy;
+};
+
+export const anchorCorrections = (text: string, corrections: Correction[]): Correction[] => {
+  const taken: Range[] = [];
+  let cursor = 0;
+
+  return corrections.map(correction => {
+    if (!correction.originalText) {
+      return { ...correction, start: undefined, end: undefined };
+    }
+    const match = locate(text, correction.originalText, taken, cursor);
+    if (!match) {
+      return { ...correction, start: undefined, end: undefined };
+    }
+    taken.push(match);
+    cursor = match.end;
+    return {
+      ...correction,
+      // Realign to the text actually present so rendering and later edits use real characters
+      originalText: text.slice(match.start, match.end),
+      start: match.start,
+      end: match.end,
+    };
+  });
+};
+
+export const anchorAnalysis = (text: string, analysis: EssayAnalysis): EssayAnalysis => ({
+  ...analysis,
+  corrections: anchorCorrections(text, analysis.corrections ?? []),
+});
+
+export const isAnchored = (correction: Correction): correction is Correction & Range =>
+  typeof correction.start === 'number' && typeof correction.end === 'number';
+
+// Offsets into `text` for every correction. Essay anchors already point into the text;
+// speaking corrections are anchored per message (or not at all), so they are located anew.
+export const anchorInText = (text: string, corrections: Correction[]): Correction[] =>
+  corrections.some(c => isAnchored(c) && c.messageIndex === undefined) ? corrections : anchorCorrections(text, corrections);
+
+// --- Speaking Transcripts ---
+// Speaking corrections name the user turn they came from and are anchored inside that
+// message. When the index is missing or points at the wrong turn, the other user turns are
+// searched in order; corrections found nowhere lose their index and offsets.
+
+export const anchorSpeakingCorrections = (messages: ChatMessage[], corrections: Correction[]): Correction[] => {
+  const userTurns = messages.flatMap((m, i) => m.role === 'user' ? [i] : []);
+  const taken = new Map<number, Range[]>();
+  const cursors = new Map<number, number>();
+
+  return corrections.map(correction => {
+    const unanchored = { ...correction, messageIndex: undefined, start: undefined, end: undefined };
+    if (!correction.originalText) return unanchored;
+
+    const hint = correction.messageIndex;
+    const order = hint !== undefined && messages[hint]?.role === 'user'
+      ? [hint, ...userTurns.filter(i => i !== hint)]
+      : userTurns;
+    for (const index of order) {
+      const text = messages[index].text;
+      const match = locate(text, correction.originalText, taken.get(index) ?? [], cursors.get(index) ?? 0);
+      if (!match) continue;
+      taken.set(index, [...(taken.get(index) ?? []), match]);
+      cursors.set(index, match.end);
+      return { ...correction, originalText: text.slice(match.start, match.end), messageIndex: index, start: match.start, end: match.end };
+    }
+    return unanchored;
+  });
+};
+
+export const anchorSpeakingAnalysis = <T extends EssayAnalysis>(messages: ChatMessage[], analysis: T): T => ({
+  ...analysis,
+  corrections: anchorSpeakingCorrections(messages, analysis.corrections ?? []),
+});
+
+// --- Applying Corrections ---
+// Accepting a correction splices its suggestion into the text and shifts the anchors of
+// every correction that follows it. Unanchored corrections have no place to splice into
+// and are skipped; they can only be dismissed. Both helpers return new objects and never mutate.
+
+export const applyCorrections = (
+  text: string,
+  analysis: EssayAnalysis,
+  indices: number[]
+): { text: string; analysis: EssayAnalysis } => {
+  const selected = new Set(indices.filter(i => isAnchored(analysis.corrections[i])));
+  const applied = [...selected]
+    .map(i => analysis.corrections[i] as Correction & Range)
+    .sort((a, b) => b.start - a.start);
+
+  let nextText = text;
+  for (const correction of applied) {
+    nextText = nextText.slice(0, correction.start) + correction.suggestedText + nextText.slice(correction.end);
+  }
+
+  const shiftFor = (offset: number) => applied
+    .filter(c => c.end <= offset)
+    .reduce((delta, c) => delta + c.suggestedText.length - (c.end - c.start), 0);
+
+  const shift = (c: Correction) => {
+    if (!isAnchored(c)) return c;
+    const delta = shiftFor(c.start);
+    return { ...c, start: c.start + delta, end: c.end + delta };
+  };
+  const remaining = analysis.corrections.filter((_, i) => !selected.has(i)).map(shift);
+
+  return {
+    text: nextText,
+    analysis: {
+      ...analysis,
+      corrections: remaining,
+      ...(analysis.dismissedCorrections && { dismissedCorrections: analysis.dismissedCorrections.map(shift) }),
+    },
+  };
+};
+
+// Rejected corrections are set aside rather than dropped, so the diff can still explain their edits
+export const dismissCorrections = (analysis: EssayAnalysis, indices: number[]): EssayAnalysis => ({
+  ...analysis,
+  corrections: analysis.corrections.filter((_, i) => !indices.includes(i)),
+  dismissedCorrections: [
+    ...(analysis.dismissedCorrections ?? []),
+    ...analysis.corrections.filter((_, i) => indices.includes(i)),
+  ],
+});
@@ -0,0 +1,79 @@
+import { SubmissionRecord } from "../types";
+import { mistakesFromSubmission } from "./errorPatterns";
+
+// --- Local IndexedDB ---
+// Single database for everything the app persists in the browser.
+// Bump DB_VERSION and extend `upgrade` when adding a new object store.
+
+const DB_NAME = 'ttfotg-ai';
+const DB_VERSION = 2;
+
+export const STORES = {
+  submissions: 'submissions',
+  mistakes: 'mistakes',
+  masteredPatterns: 'masteredPatterns',
+} as const;
+
+export type StoreName = typeof STORES[keyof typeof STORES];
+
+const upgrade = (db: IDBDatabase, tx: IDBTransaction, oldVersion: number) => {
+  if (!db.objectStoreNames.contains(STORES.submissions)) {
+    const store = db.createObjectStore(STORES.submissions, { keyPath: 'id', autoIncrement: true });
+    store.createIndex('createdAt', 'createdAt');
+  }
+
+  // v2: error notebook
+  if (!db.objectStoreNames.contains(STORES.mistakes)) {
+    const mistakes = db.createObjectStore(STORES.mistakes, { keyPath: 'id', autoIncrement: true });
+    mistakes.createIndex('createdAt', 'createdAt');
+    // Seed the notebook with the corrections of analyses saved before it existed
+    if (oldVersion >= 1) {
+      tx.objectStore(STORES.submissions).openCursor().onsuccess = (event) => {
+        const cursor = (event.target as IDBRequest<IDBCursorWithValue | null>).result;
+        if (!cursor) return;
+        mistakesFromSubmission(cursor.value as SubmissionRecord).forEach(record => mistakes.add(record));
+        cursor.continue();
+      };
+    }
+  }
+  if (!db.objectStoreNames.contains(STORES.masteredPatterns)) {
+    db.createObjectStore(STORES.masteredPatterns, { keyPath: 'pattern' });
+  }
+};
+
+let dbPromise: Promise<IDBDatabase> | null = null;
+
+export const openDatabase = (): Promise<IDBDatabase> => {
+  if (!dbPromise) {
+    dbPromise = new Promise((resolve, reject) => {
+      if (typeof indexedDB === 'undefined') {
+        reject(new Error("IndexedDB is not available in this browser."));
+        return;
+      }
+      const request = indexedDB.open(DB_NAME, DB_VERSION);
+      request.onupgradeneeded = (event) => upgrade(request.result, request.transaction!, event.oldVersion);
+      request.onsuccess = () => resolve(request.result);
+      request.onerror = () => reject(request.error);
+    });
+    // Allow a retry after a failed open
+    dbPromise.catch(() => { dbPromise = null; });
+  }
+  return dbPromise;
+};
+
+// Settles with the transaction, not the request: a write only counts once it is committed,
+// and a transaction can still abort after its last request succeeded (e.g. over quota)
+export const withStore = async <T>(
+  storeName: StoreName,
+  mode: IDBTransactionMode,
+  run: (store: IDBObjectStore) => IDBRequest<T>
+): Promise<T> => {
+  const db = await openDatabase();
+  const tx = db.transaction(storeName, mode);
+  const request = run(tx.objectStore(storeName));
+  return new Promise((resolve, reject) => {
+    tx.oncomplete = () => resolve(request.result);
+    tx.onerror = () => reject(tx.error ?? request.error);
+    tx.onabort = () => reject(tx.error ?? new Error("The database transaction was aborted."));
+  });
+};
@@ -0,0 +1,132 @@
+import { Correction, MistakeRecord, MasteredPattern, SubmissionRecord, CORRECTION_TYPES } from "../types";
+import { STORES, withStore } from "./db";
+import { classifyCorrection, mistakesFromSubmission, ErrorPattern } from "./errorPatterns";
+
+// --- Error Notebook ---
+// Every correction from a saved writing or speaking analysis is copied here, so recurring
+// mistakes can be tracked even after the submission itself is deleted from the history.
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+const MONTH_MS = 30 * DAY_MS;
+const WEEK_MS = 7 * DAY_MS;
+
+// Length of the weekly trend shown for each pattern
+export const NOTEBOOK_WEEKS = 8;
+
+const TOP_PATTERNS = 5;
+
+export const addSubmissionToNotebook = async (submission: SubmissionRecord): Promise<void> => {
+  const records = mistakesFromSubmission(submission);
+  if (records.length === 0) return;
+  // All adds share one transaction; the last request settles after the earlier ones
+  await withStore(STORES.mistakes, 'readwrite', store => records.map(record => store.add(record)).pop()!);
+};
+
+export const listMistakes = (): Promise<MistakeRecord[]> =>
+  withStore(STORES.mistakes, 'readonly', store => store.index('createdAt').getAll());
+
+export const listMasteredPatterns = (): Promise<MasteredPattern[]> =>
+  withStore(STORES.masteredPatterns, 'readonly', store => store.getAll());
+
+export const setPatternMastered = async (pattern: string, mastered: boolean): Promise<void> => {
+  await withStore(STORES.masteredPatterns, 'readwrite', store =>
+    mastered ? store.put({ pattern, masteredAt: Date.now() }) : store.delete(pattern)
+  );
+};
+
+// --- Aggregation ---
+// A mastered pattern that shows up again is a regression, not a settled pattern: it stays
+// among the open ones (and in the monthly top list) until it stops recurring.
+
+export interface PatternSummary {
+  pattern: ErrorPattern;
+  type: Correction['type'];   // Most frequent correction type within the pattern
+  total: number;
+  thisMonth: number;          // Last 30 days
+  lastMonth: number;          // The 30 days before that
+  weekly: number[];           // Oldest to newest, NOTEBOOK_WEEKS entries
+  lastSeen: number;
+  examples: MistakeRecord[];  // Most recent first
+  masteredAt?: number;
+  sinceMastered: number;      // Occurrences after it was marked as mastered
+}
+
+export interface TypeSummary {
+  type: Correction['type'];
+  total: number;
+  thisMonth: number;
+  lastMonth: number;
+}
+
+export interface NotebookSummary {
+  patterns: PatternSummary[]; // Most frequent this month first
+  topThisMonth: PatternSummary[]; // The TOP_PATTERNS most frequent open patterns this month
+  types: TypeSummary[];
+  total: number;
+  thisMonth: number;
+}
+
+// Mastered and not seen since
+export const isSettled = (summary: PatternSummary) => summary.masteredAt !== undefined && summary.sinceMastered === 0;
+
+export const summarizeNotebook = (
+  mistakes: MistakeRecord[],
+  mastered: MasteredPattern[],
+  now = Date.now()
+): NotebookSummary => {
+  const masteredAt = new Map(mastered.map(m => [m.pattern, m.masteredAt]));
+  const isThisMonth = (m: MistakeRecord) => now - m.createdAt < MONTH_MS;
+  const isLastMonth = (m: MistakeRecord) => now - m.createdAt >= MONTH_MS && now - m.createdAt < 2 * MONTH_MS;
+
+  const groups = new Map<string, { pattern: ErrorPattern; records: MistakeRecord[] }>();
+  for (const record of mistakes) {
+    const pattern = classifyCorrection(record.correction);
+    const group = groups.get(pattern.key) ?? { pattern, records: [] };
+    group.records.push(record);
+    groups.set(pattern.key, group);
+  }
+
+  const patterns: PatternSummary[] = [...groups.values()].map(({ pattern, records }) => {
+    const byRecency = [...records].sort((a, b) => b.createdAt - a.createdAt);
+    const typeCounts = new Map<Correction['type'], number>();
+    records.forEach(r => typeCounts.set(r.correction.type, (typeCounts.get(r.correction.type) ?? 0) + 1));
+    const weekly = Array.from({ length: NOTEBOOK_WEEKS }, (_, i) => {
+      const weeksAgo = NOTEBOOK_WEEKS - 1 - i;
+      return records.filter(r => Math.floor((now - r.createdAt) / WEEK_MS) === weeksAgo).length;
+    });
+    const mastered = masteredAt.get(pattern.key);
+    return {
+      pattern,
+      type: [...typeCounts.entries()].sort((a, b) => b[1] - a[1])[0][0],
+      total: records.length,
+      thisMonth: records.filter(isThisMonth).length,
+      lastMonth: records.filter(isLastMonth).length,
+      weekly,
+      lastSeen: byRecency[0].createdAt,
+      examples: byRecency.slice(0, 3),
+      masteredAt: mastered,
+      sinceMastered: mastered === undefined ? 0 : records.filter(r => r.createdAt > mastered).length,
+    };
+  });
+  patterns.sort((a, b) => b.thisMonth - a.thisMonth || b.total - a.total || b.lastSeen - a.lastSeen);
+
+  const topThisMonth = patterns.filter(p => !isSettled(p) && p.thisMonth > 0).slice(0, TOP_PATTERNS);
+
+  const types: TypeSummary[] = CORRECTION_TYPES.map(type => {
+    const records = mistakes.filter(m => m.correction.type === type);
+    return {
+      type,
+      total: records.length,
+      thisMonth: records.filter(isThisMonth).length,
+      lastMonth: records.filter(isLastMonth).length,
+    };
+  });
+
+  return {
+    patterns,
+    topThisMonth,
+    types,
+    total: mistakes.length,
+    thisMonth: mistakes.filter(isThisMonth).length,
+  };
+};
@@ -0,0 +1,129 @@
+import { Correction, MistakeRecord, SubmissionRecord } from "../types";
+
+// --- Recurring Error Patterns ---
+// Classifies a correction into a pattern such as "missing article" by comparing the words
+// that were removed and added. Patterns are derived when the notebook is read, so older
+// entries pick up improvements to these rules automatically.
+
+export interface ErrorPattern {
+  key: string;
+  label: string;
+  description?: string;
+}
+
+const ARTICLES = new Set(['a', 'an', 'the']);
+
+const PREPOSITIONS = new Set([
+  'about', 'across', 'after', 'against', 'among', 'around', 'at', 'before', 'behind', 'between', 'by', 'during',
+  'for', 'from', 'in', 'into', 'of', 'off', 'on', 'onto', 'over', 'since', 'through', 'to', 'towards', 'under',
+  'until', 'upon', 'with', 'within', 'without',
+]);
+
+const SUBJECT_PRONOUNS = new Set(['i', 'you', 'he', 'she', 'it', 'we', 'they', 'this', 'that', 'there']);
+
+// Verb forms that differ only in person or number
+const AGREEMENT_PAIRS = [
+  ['is', 'are'], ['was', 'were'], ['has', 'have'], ['does', 'do'],
+  ["isn't", "aren't"], ["wasn't", "weren't"], ["doesn't", "don't"], ["hasn't", "haven't"],
+];
+
+const TENSE_MARKERS = new Set(['will', 'would', 'had', 'have', 'has', 'been', 'was', 'were', 'did', 'is', 'are', 'am']);
+
+// Common irregular verb forms, so "go" -> "went" is recognised as a tense error
+const IRREGULAR_FORMS = new Set([
+  'go', 'went', 'gone', 'come', 'came', 'see', 'saw', 'seen', 'take', 'took', 'taken', 'make', 'made', 'get', 'got',
+  'give', 'gave', 'given', 'know', 'knew', 'known', 'think', 'thought', 'buy', 'bought', 'bring', 'brought',
+  'begin', 'began', 'begun', 'write', 'wrote', 'written', 'speak', 'spoke', 'spoken', 'eat', 'ate', 'eaten',
+  'find', 'found', 'leave', 'left', 'feel', 'felt', 'become', 'became', 'tell', 'told', 'say', 'said', 'meet', 'met',
+]);
+
+const PATTERNS: Record<string, ErrorPattern> = {
+  capitalisation: { key: 'capitalisation', label: 'Capitalisation', description: 'Capital letters for names, "I" and sentence starts.' },
+  punctuation: { key: 'punctuation', label: 'Punctuation', description: 'Commas, apostrophes and full stops.' },
+  missingArticle: { key: 'missing-article', label: 'Missing article', description: 'Leaving out a, an or the.' },
+  extraArticle: { key: 'extra-article', label: 'Unnecessary article', description: 'Adding an article where none is needed.' },
+  wrongArticle: { key: 'wrong-article', label: 'Wrong article', description: 'Choosing a/an instead of the, or the other way round.' },
+  preposition: { key: 'preposition', label: 'Prepositions', description: 'Missing, extra or wrong prepositions.' },
+  agreement: { key: 'subject-verb-agreement', label: 'Subject-verb agreement', description: 'The verb must match its subject (he goes, they go).' },
+  nounNumber: { key: 'noun-number', label: 'Singular and plural nouns', description: 'Plural endings and uncountable nouns.' },
+  verbTense: { key: 'verb-tense', label: 'Verb tense', description: 'Choosing and forming the right tense.' },
+  wordOrder: { key: 'word-order', label: 'Word order' },
+};
+
+const words = (text: string) => text.toLowerCase().match(/[\p{L}\p{N}]+(?:['’][\p{L}]+)*/gu)?.map(w => w.replace('’', "'")) ?? [];
+
+// Words present in `a` but not in `b`, respecting repeats
+const multisetDifference = (a: string[], b: string[]) => {
+  const remaining = [...b];
+  return a.filter(word => {
+    const i = remaining.indexOf(word);
+    if (i === -1) return true;
+    remaining.splice(i, 1);
+    return false;
+  });
+};
+
+const isSameStemWithS = (a: string, b: string) => {
+  const [short, long] = a.length <= b.length ? [a, b] : [b, a];
+  return long === `${short}s` || long === `${short}es` || (short.endsWith('y') && long === `${short.slice(0, -1)}ies`);
+};
+
+const isAgreementPair = (a: string, b: string) =>
+  AGREEMENT_PAIRS.some(([x, y]) => (a === x && b === y) || (a === y && b === x));
+
+const isVerbFormWord = (word: string) => TENSE_MARKERS.has(word) || IRREGULAR_FORMS.has(word) || word.endsWith('ed');
+
+export const classifyCorrection = (correction: Correction): ErrorPattern => {
+  const { originalText, suggestedText, type } = correction;
+
+  if (originalText !== suggestedText && originalText.toLowerCase() === suggestedText.toLowerCase()) {
+    return PATTERNS.capitalisation;
+  }
+  const original = words(originalText);
+  const suggested = words(suggestedText);
+  if (original.join(' ') === suggested.join(' ')) return PATTERNS.punctuation;
+
+  const removed = multisetDifference(original, suggested);
+  const added = multisetDifference(suggested, original);
+
+  if (removed.length === 0 && added.length === 0) return PATTERNS.wordOrder;
+
+  const onlyArticles = (list: string[]) => list.length > 0 && list.every(w => ARTICLES.has(w));
+  if (onlyArticles(added) && removed.length === 0) return PATTERNS.missingArticle;
+  if (onlyArticles(removed) && added.length === 0) return PATTERNS.extraArticle;
+  if (onlyArticles(added) && onlyArticles(removed)) return PATTERNS.wrongArticle;
+
+  const onlyPrepositions = (list: string[]) => list.every(w => PREPOSITIONS.has(w));
+  if (onlyPrepositions(added) && onlyPrepositions(removed)) return PATTERNS.preposition;
+
+  // A single word swapped for another form of itself
+  if (removed.length === 1 && added.length === 1) {
+    const [from, to] = [removed[0], added[0]];
+    if (isAgreementPair(from, to)) return PATTERNS.agreement;
+    if (isSameStemWithS(from, to)) {
+      const previous = original[original.indexOf(from) - 1];
+      return previous && SUBJECT_PRONOUNS.has(previous) ? PATTERNS.agreement : PATTERNS.nounNumber;
+    }
+  }
+  if (type === 'grammar' && [...removed, ...added].every(isVerbFormWord)) return PATTERNS.verbTense;
+
+  // The same word misspelt or replaced again and again is its own pattern
+  if (type === 'spelling' && suggested.length > 0) {
+    const word = suggestedText.trim().toLowerCase();
+    return { key: `spelling:${word}`, label: `Spelling of "${word}"` };
+  }
+  if (type === 'vocabulary' && original.length > 0) {
+    const phrase = original.join(' ');
+    return { key: `word-choice:${phrase}`, label: `Word choice: "${phrase}"` };
+  }
+  return { key: `other:${type}`, label: `Other ${type} issues` };
+};
+
+// Notebook entries for every correction of a saved analysis
+export const mistakesFromSubmission = (submission: SubmissionRecord): Omit<MistakeRecord, 'id'>[] =>
+  submission.analysis.corrections.map(({ originalText, suggestedText, explanation, type }) => ({
+    submissionId: submission.id,
+    mode: submission.mode,
+    correction: { originalText, suggestedText, explanation, type },
+    createdAt: submission.createdAt,
+  }));
@@ -0,0 +1,67 @@
+import { ExaminerAccent, ExaminerSettings, EXAMINER_ACCENT_LABELS, EXAMINER_VOICE_LABELS } from "../types";
+import { CUE_CARDS } from "./speakingTest";
+
+// --- Examiner Settings ---
+// Chosen on the speaking setup screen and remembered in localStorage. The same settings
+// shape the live examiner and the text-chat examiner, so both modes behave alike.
+
+const EXAMINER_SETTINGS_KEY = 'ttfotg-examiner-settings';
+
+export const TARGET_BANDS = [4.5, 5, 5.5, 6, 6.5, 7, 7.5, 8, 8.5, 9];
+
+// Topic areas follow the cue cards, so a preference also decides the Part 2 topic
+export const SPEAKING_TOPICS = [...new Set(CUE_CARDS.map(card => card.topic))];
+
+export const DEFAULT_EXAMINER_SETTINGS: ExaminerSettings = {
+  voice: 'Kore',
+  accent: 'british',
+  targetBand: 6.5,
+  topics: [],
+};
+
+// Language tags for reading the examiner aloud in the chosen accent
+export const ACCENT_SPEECH_LANGS: Record<ExaminerAccent, string> = {
+  british: 'en-GB',
+  american: 'en-US',
+  australian: 'en-AU',
+  canadian: 'en-CA',
+};
+
+// Anything unknown in storage (an old version, a hand edit) falls back to the default
+export const loadExaminerSettings = (): ExaminerSettings => {
+  try {
+    const raw = localStorage.getItem(EXAMINER_SETTINGS_KEY);
+    if (!raw) return DEFAULT_EXAMINER_SETTINGS;
+    const stored = JSON.parse(raw) as Partial<ExaminerSettings>;
+    return {
+      voice: stored.voice && stored.voice in EXAMINER_VOICE_LABELS ? stored.voice : DEFAULT_EXAMINER_SETTINGS.voice,
+      accent: stored.accent && stored.accent in EXAMINER_ACCENT_LABELS ? stored.accent : DEFAULT_EXAMINER_SETTINGS.accent,
+      targetBand: TARGET_BANDS.includes(stored.targetBand as number) ? stored.targetBand as number : DEFAULT_EXAMINER_SETTINGS.targetBand,
+      topics: Array.isArray(stored.topics) ? stored.topics.filter(topic => SPEAKING_TOPICS.includes(topic)) : [],
+    };
+  } catch (e) {
+    console.error("Failed to load examiner settings", e);
+    return DEFAULT_EXAMINER_SETTINGS;
+  }
+};
+
+export const saveExaminerSettings = (settings: ExaminerSettings) => {
+  localStorage.setItem(EXAMINER_SETTINGS_KEY, JSON.stringify(settings));
+};
+
+const difficultyForBand = (band: number) => {
+  if (band <= 5.5) {
+    return 'Keep questions short, concrete and about familiar everyday topics. Use common vocabulary, speak slowly and clearly, and rephrase a question if the candidate does not understand it.';
+  }
+  if (band <= 7) {
+    return 'Use standard IELTS difficulty: a mix of familiar and less familiar topics, with follow-up questions that ask the candidate to explain and give reasons.';
+  }
+  return 'Ask demanding questions: abstract and less familiar topics, follow-ups that require justification, comparison, speculation and hypotheticals. Speak at a natural pace and use idiomatic language.';
+};
+
+// Appended to the examiner's system instruction
+export const examinerBrief = (settings: ExaminerSettings): string => [
+  `Speak ${EXAMINER_ACCENT_LABELS[settings.accent]} English, with ${EXAMINER_ACCENT_LABELS[settings.accent]} pronunciation, vocabulary and spelling.`,
+  `The candidate is aiming for IELTS band ${settings.targetBand}. ${difficultyForBand(settings.targetBand)}`,
+  settings.topics.length > 0 && `Where the test allows a choice, prefer questions about these topic areas: ${settings.topics.join(', ')}.`,
+].filter(Boolean).join('\n');
@@ -0,0 +1,189 @@
+import { Correction, SubmissionRecord } from "../types";
+import { anchorInText, isAnchored } from "./correctionAnchors";
+
+// --- Practice Exercises ---
+// Turns corrections from saved analyses into exercises built on the learner's own sentences.
+// Generation and grading are local and deterministic, so practice works offline too.
+
+export type ExerciseKind = 'gap-fill' | 'error-spotting' | 'transformation';
+
+export const EXERCISE_KIND_LABELS: Record<ExerciseKind, string> = {
+  'gap-fill': 'Fill the gap',
+  'error-spotting': 'Spot the error',
+  'transformation': 'Rewrite the sentence',
+};
+
+export interface Exercise {
+  id: string;
+  kind: ExerciseKind;
+  correction: Correction;
+  sentence: string;     // The learner's sentence containing the error
+  errorStart: number;   // Offsets of the error inside `sentence`
+  errorEnd: number;
+  expected: string;     // Gap answer, or the corrected sentence for transformations
+}
+
+export interface ExerciseGrade {
+  correct: boolean;
+  feedback: string;
+}
+
+// Error spotting is answered with the indices of the selected words
+export type ExerciseAnswer = string | number[];
+
+const KIND_ROTATION: ExerciseKind[] = ['gap-fill', 'error-spotting', 'transformation'];
+
+// Speaking transcripts prefix each line with the speaker
+const SPEAKER_PREFIX = /^(You|Examiner):\s*/;
+
+// Expands an error span to the sentence around it
+const sentenceAround = (text: string, start: number, end: number) => {
+  let from = start;
+  while (from > 0 && !/[.!?\n]/.test(text[from - 1])) from--;
+  let to = end;
+  while (to < text.length && !/[.!?\n]/.test(text[to])) to++;
+  if (to < text.length && text[to] !== '\n') to++; // Keep the closing punctuation
+
+  const raw = text.slice(from, to);
+  const prefix = SPEAKER_PREFIX.exec(raw)?.[0].length ?? 0;
+  const leading = /^\s*/.exec(raw.slice(prefix))?.[0].length ?? 0;
+  const offset = from + prefix + leading;
+  return {
+    sentence: text.slice(offset, to).trimEnd(),
+    errorStart: start - offset,
+    errorEnd: end - offset,
+  };
+};
+
+const isDeletion = (correction: Correction) => !correction.suggestedText.trim();
+
+export const generateExercises = (submissions: SubmissionRecord[], limit = 10): Exercise[] => {
+  const exercises: Exercise[] = [];
+  const seen = new Set<string>();
+
+  // Newest submissions first so practice focuses on recent mistakes
+  const ordered = [...submissions].sort((a, b) => b.createdAt - a.createdAt);
+  for (const submission of ordered) {
+    const { text, analysis } = submission;
+    // Speaking corrections are anchored per message, so they are located in the transcript
+    const corrections = anchorInText(text, analysis.corrections);
+
+    corrections.forEach((correction, i) => {
+      if (exercises.length >= limit) return;
+      const key = `${correction.originalText.toLowerCase()}→${correction.suggestedText.toLowerCase()}`;
+      if (seen.has(key) || !correction.originalText.trim() || correction.originalText === correction.suggestedText) return;
+      seen.add(key);
+
+      // Without an anchor the erroneous snippet itself has to stand in for the sentence,
+      // and only a rewrite makes sense for it
+      const hasContext = isAnchored(correction) && correction.end <= text.length;
+      const context = hasContext
+        ? sentenceAround(text, correction.start, correction.end)
+        : { sentence: correction.originalText, errorStart: 0, errorEnd: correction.originalText.length };
+      if (context.errorStart < 0) return; // The error overlaps a speaker label
+
+      // A deletion leaves nothing to fill in, so it is asked as error spotting instead
+      const rotated = KIND_ROTATION[exercises.length % KIND_ROTATION.length];
+      const kind = !hasContext ? 'transformation' : rotated === 'gap-fill' && isDeletion(correction) ? 'error-spotting' : rotated;
+      const corrected = (context.sentence.slice(0, context.errorStart) + correction.suggestedText + context.sentence.slice(context.errorEnd))
+        .replace(/ {2,}/g, ' ');
+      exercises.push({
+        id: `${submission.id ?? submission.createdAt}-${i}`,
+        kind,
+        correction,
+        ...context,
+        expected: kind === 'transformation' ? corrected : correction.suggestedText,
+      });
+    });
+  }
+  return exercises;
+};
+
+// --- Grading ---
+
+// Ignore case, curly quotes, repeated spaces and final punctuation
+const normalizeAnswer = (text: string) => text
+  .toLowerCase()
+  .replace(/[’‘]/g, "'")
+  .replace(/[“”]/g, '"')
+  .replace(/\s+/g, ' ')
+  .replace(/[\s.!?]+$/, '')
+  .trim();
+
+// Rewrites are compared as whole words, so "book" is not found inside "books"
+const answerWords = (text: string) => normalizeAnswer(text).match(/[\p{L}\p{N}]+(?:'[\p{L}\p{N}]+)*/gu) ?? [];
+
+const runStarts = (words: string[], run: string[]) =>
+  run.length === 0 ? [] : words.flatMap((_, i) => run.every((word, k) => words[i + k] === word) ? [i] : []);
+
+// Occurrences of the original wording outside the fix ("apple" inside "an apple" does not count).
+// The model answer may keep some elsewhere in the sentence; an answer with more still has the error.
+const strayOriginals = (words: string[], original: string[], fix: string[]) => {
+  const fixSpans = runStarts(words, fix).map(i => [i, i + fix.length]);
+  return runStarts(words, original)
+    .filter(i => !fixSpans.some(([start, end]) => i >= start && i + original.length <= end))
+    .length;
+};
+
+// Words of a sentence with their offsets; error spotting renders these as clickable tokens
+export const sentenceWords = (sentence: string) =>
+  [...sentence.matchAll(/\S+/g)].map(match => ({
+    text: match[0],
+    start: match.index ?? 0,
+    end: (match.index ?? 0) + match[0].length,
+  }));
+
+const errorWordIndices = (exercise: Exercise) =>
+  sentenceWords(exercise.sentence)
+    .map((word, i) => ({ ...word, i }))
+    .filter(word => word.start < exercise.errorEnd && word.end > exercise.errorStart)
+    .map(word => word.i);
+
+export const gradeExercise = (exercise: Exercise, answer: ExerciseAnswer): ExerciseGrade => {
+  const { correction } = exercise;
+  const fix = isDeletion(correction)
+    ? `"${correction.originalText}" should be removed. ${correction.explanation}`
+    : `"${correction.originalText}" should be "${correction.suggestedText}". ${correction.explanation}`;
+
+  if (exercise.kind === 'error-spotting') {
+    const selected = answer as number[];
+    const errorWords = errorWordIndices(exercise);
+    const hits = selected.filter(i => errorWords.includes(i));
+    if (hits.length > 0 && hits.length === selected.length) {
+      return { correct: true, feedback: `Well spotted. ${fix}` };
+    }
+    const wrongWords = sentenceWords(exercise.sentence)
+      .filter((_, i) => selected.includes(i) && !errorWords.includes(i))
+      .map(w => `"${w.text}"`);
+    return {
+      correct: false,
+      feedback: (wrongWords.length ? `${wrongWords.join(', ')} ${wrongWords.length === 1 ? 'is' : 'are'} correct as written. ` : 'You did not select the error. ') + fix,
+    };
+  }
+
+  const given = normalizeAnswer(answer as string);
+  if (given === normalizeAnswer(exercise.expected)) {
+    return { correct: true, feedback: `Correct. ${correction.explanation}` };
+  }
+
+  if (exercise.kind === 'transformation') {
+    // Accept other wording as long as the fix is in place and the error is gone
+    const givenWords = answerWords(answer as string);
+    const fix = answerWords(correction.suggestedText);
+    const original = answerWords(correction.originalText);
+    const hasFix = fix.length === 0 || runStarts(givenWords, fix).length > 0;
+    const keepsError = strayOriginals(givenWords, original, fix) > strayOriginals(answerWords(exercise.expected), original, fix);
+    if (hasFix && !keepsError) {
+      return { correct: true, feedback: `Correct, although the model answer is: "${exercise.expected}". ${correction.explanation}` };
+    }
+    if (keepsError) {
+      return { correct: false, feedback: `The sentence still contains "${correction.originalText}". ${fix}` };
+    }
+    return { correct: false, feedback: `Expected: "${exercise.expected}". ${fix}` };
+  }
+
+  if (given === normalizeAnswer(correction.originalText)) {
+    return { correct: false, feedback: `That is the original mistake. ${fix}` };
+  }
+  return { correct: false, feedback: `The answer is "${exercise.expected}". ${correction.explanation}` };
+};
@@ -0,0 +1,115 @@
+import { Flashcard, FlashcardDeck } from "../types";
+import { INITIAL_EASE } from "./spacedRepetition";
+
+// --- Flashcard Decks ---
+// Named decks of words saved from the translator, kept in localStorage together with
+// each card's review schedule. Every change returns the full, updated list of decks.
+
+const DECKS_KEY = 'ttfotg-flashcard-decks';
+
+export const DEFAULT_DECK_NAME = 'My Words';
+
+// Contexts longer than this are cut; a card only needs the phrase around the word
+const MAX_CONTEXT_LENGTH = 200;
+
+export type NewFlashcard = Pick<Flashcard, 'term' | 'definition' | 'language' | 'context'>;
+
+const newId = (prefix: string) => `${prefix}-${Date.now().toString(36)}-${Math.random().toString(36).slice(2, 7)}`;
+
+const sameTerm = (a: string, b: string) => a.trim().toLowerCase() === b.trim().toLowerCase();
+
+export const loadDecks = (): FlashcardDeck[] => {
+  try {
+    const raw = localStorage.getItem(DECKS_KEY);
+    return raw ? (JSON.parse(raw) as FlashcardDeck[]) : [];
+  } catch (e) {
+    console.error("Failed to load flashcard decks", e);
+    return [];
+  }
+};
+
+const storeDecks = (decks: FlashcardDeck[]) => {
+  localStorage.setItem(DECKS_KEY, JSON.stringify(decks));
+  return decks;
+};
+
+const updateDeck = (deckId: string, update: (deck: FlashcardDeck) => FlashcardDeck) =>
+  storeDecks(loadDecks().map(deck => deck.id === deckId ? update(deck) : deck));
+
+// The new deck is always last
+export const createDeck = (name: string): FlashcardDeck[] =>
+  storeDecks([...loadDecks(), { id: newId('deck'), name: name.trim() || DEFAULT_DECK_NAME, createdAt: Date.now(), cards: [] }]);
+
+export const renameDeck = (deckId: string, name: string): FlashcardDeck[] =>
+  name.trim() ? updateDeck(deckId, deck => ({ ...deck, name: name.trim() })) : loadDecks();
+
+export const deleteDeck = (deckId: string): FlashcardDeck[] =>
+  storeDecks(loadDecks().filter(deck => deck.id !== deckId));
+
+export const deckHasTerm = (deck: FlashcardDeck, term: string) => deck.cards.some(card => sameTerm(card.term, term));
+
+// A term already in the deck is not added twice; new cards are due straight away
+export const addCard = (deckId: string, card: NewFlashcard): FlashcardDeck[] =>
+  updateDeck(deckId, deck => deckHasTerm(deck, card.term) ? deck : {
+    ...deck,
+    cards: [...deck.cards, {
+      ...card,
+      term: card.term.trim(),
+      context: card.context?.trim().slice(0, MAX_CONTEXT_LENGTH) || undefined,
+      id: newId('card'),
+      createdAt: Date.now(),
+      easeFactor: INITIAL_EASE,
+      intervalDays: 0,
+      repetitions: 0,
+      dueAt: Date.now(),
+    }],
+  });
+
+export const removeCard = (deckId: string, cardId: string): FlashcardDeck[] =>
+  updateDeck(deckId, deck => ({ ...deck, cards: deck.cards.filter(card => card.id !== cardId) }));
+
+export const saveCard = (deckId: string, card: Flashcard): FlashcardDeck[] =>
+  updateDeck(deckId, deck => ({ ...deck, cards: deck.cards.map(c => c.id === card.id ? card : c) }));
+
+// --- Anki Export ---
+// Plain-text notes with Anki's file headers, so File > Import picks the separator,
+// the deck and the tags column by itself. Columns: term, definition, context, tags.
+
+export type DeckExportFormat = 'csv' | 'tsv';
+
+export const DECK_EXPORT_FORMAT_LABELS: Record<DeckExportFormat, string> = {
+  csv: 'Anki CSV',
+  tsv: 'Anki TSV',
+};
+
+const csvField = (value: string) => /[",\n\r]/.test(value) ? `"${value.replace(/"/g, '""')}"` : value;
+
+// TSV has no quoting, so tabs and line breaks inside a field become spaces
+const tsvField = (value: string) => value.replace(/[\t\r\n]+/g, ' ');
+
+const deckTag = (deck: FlashcardDeck) => deck.name.trim().replace(/\s+/g, '_');
+
+export const buildAnkiExport = (deck: FlashcardDeck, format: DeckExportFormat): string => {
+  const field = format === 'csv' ? csvField : tsvField;
+  const separator = format === 'csv' ? ',' : '\t';
+  const header = [
+    `#separator:${format === 'csv' ? 'Comma' : 'Tab'}`,
+    '#html:false',
+    `#deck:${deck.name}`,
+    '#tags column:4',
+  ];
+  const rows = deck.cards.map(card =>
+    [card.term, card.definition, card.context ?? '', `${deckTag(deck)} ${card.language}`].map(field).join(separator)
+  );
+  return [...header, ...rows].join('\n') + '\n';
+};
+
+export const downloadDeck = (deck: FlashcardDeck, format: DeckExportFormat) => {
+  const type = format === 'csv' ? 'text/csv' : 'text/tab-separated-values';
+  const url = URL.createObjectURL(new Blob([buildAnkiExport(deck, format)], { type: `${type};charset=utf-8` }));
+  const link = document.createElement('a');
+  link.href = url;
+  link.download = `${deckTag(deck).toLowerCase()}.${format}`;
+  link.click();
+  setTimeout(() => URL.revokeObjectURL(url), 1000);
+};
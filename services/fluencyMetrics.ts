@@ -0,0 +1,126 @@
+import { ChatMessage, FluencyMetrics } from "../types";
+import { SessionRecorder, SILENCE_FRAME_SECONDS, voicedFrames } from "./sessionRecorder";
+
+// --- Fluency Metrics ---
+// Temporal fluency measures from the learner's recorded answers, plus filler words from
+// the transcript. They are computed in the browser and handed to the model as evidence
+// for the Fluency and Coherence judgement.
+
+const MIN_PAUSE_SECONDS = 0.25;
+const LONG_PAUSE_SECONDS = 1;
+
+// "like" is only a filler when it is not a verb or a preposition after these words
+const LIKE_NOT_FILLER_AFTER = new Set([
+  'i', 'you', 'we', 'they', 'he', 'she', 'would', "i'd", "you'd", "we'd", "they'd", "don't", "didn't", "doesn't",
+  'really', 'also', 'look', 'looks', 'looked', 'feel', 'feels', 'felt', 'sound', 'sounds', 'seem', 'seems',
+  'something', 'nothing', 'anything', 'just', 'more', 'much', 'people', 'things', 'what',
+]);
+
+const FILLER_PHRASES = ['you know', 'i mean', 'sort of', 'kind of'];
+const FILLER_WORDS = ['um', 'uh', 'er', 'erm', 'ah', 'hmm', 'like', 'basically'];
+
+const words = (text: string) => text.toLowerCase().match(/[\p{L}\p{N}]+(?:['’][\p{L}]+)*/gu)?.map(w => w.replace('’', "'")) ?? [];
+
+const countFillers = (texts: string[]) => {
+  const fillers: Record<string, number> = {};
+  const add = (filler: string) => { fillers[filler] = (fillers[filler] ?? 0) + 1; };
+
+  for (const text of texts) {
+    const tokens = words(text);
+    for (let i = 0; i < tokens.length; i++) {
+      const pair = `${tokens[i]} ${tokens[i + 1]}`;
+      if (FILLER_PHRASES.includes(pair)) {
+        add(pair);
+        i++;
+        continue;
+      }
+      if (!FILLER_WORDS.includes(tokens[i])) continue;
+      if (tokens[i] === 'like' && (LIKE_NOT_FILLER_AFTER.has(tokens[i - 1]) || tokens[i + 1] === 'to')) continue;
+      add(tokens[i]);
+    }
+  }
+  return fillers;
+};
+
+// Speaking time and pauses of one answer, ignoring silence before and after it
+const measureTurn = (samples: Int16Array, sampleRate: number) => {
+  const voiced = voicedFrames(samples, sampleRate);
+  const first = voiced.indexOf(true);
+  if (first === -1) return null;
+  const last = voiced.lastIndexOf(true);
+
+  const pauses: number[] = [];
+  let silent = 0;
+  for (let i = first; i <= last; i++) {
+    if (!voiced[i]) {
+      silent++;
+      continue;
+    }
+    if (silent * SILENCE_FRAME_SECONDS >= MIN_PAUSE_SECONDS) pauses.push(silent * SILENCE_FRAME_SECONDS);
+    silent = 0;
+  }
+  return { seconds: (last - first + 1) * SILENCE_FRAME_SECONDS, pauses };
+};
+
+const round = (value: number, digits = 1) => Number(value.toFixed(digits));
+
+export const computeFluencyMetrics = (messages: ChatMessage[], recorder?: SessionRecorder | null): FluencyMetrics => {
+  const answers = messages.filter(m => m.role === 'user');
+  const wordCount = answers.reduce((sum, m) => sum + words(m.text).length, 0);
+  const fillers = countFillers(answers.map(m => m.text));
+  const fillerCount = Object.values(fillers).reduce((sum, n) => sum + n, 0);
+  const metrics: FluencyMetrics = {
+    wordCount,
+    fillerCount,
+    fillersPer100Words: wordCount ? round((fillerCount / wordCount) * 100) : 0,
+    fillers,
+  };
+
+  // Timing only covers answers that have recorded audio
+  let seconds = 0;
+  let timedWords = 0;
+  const pauses: number[] = [];
+  let runs = 0;
+  for (const answer of answers) {
+    if (!answer.audio || !recorder) continue;
+    const { samples, sampleRate } = recorder.segmentSamples('user', answer.audio);
+    const turn = measureTurn(samples, sampleRate);
+    if (!turn) continue;
+    seconds += turn.seconds;
+    timedWords += words(answer.text).length;
+    pauses.push(...turn.pauses);
+    runs += turn.pauses.length + 1;
+  }
+  if (seconds === 0) return metrics;
+
+  const pauseSeconds = pauses.reduce((sum, p) => sum + p, 0);
+  return {
+    ...metrics,
+    speakingSeconds: round(seconds),
+    speechRate: Math.round(timedWords / (seconds / 60)),
+    articulationRate: Math.round(timedWords / (Math.max(seconds - pauseSeconds, SILENCE_FRAME_SECONDS) / 60)),
+    pauseCount: pauses.length,
+    meanPauseSeconds: pauses.length ? round(pauseSeconds / pauses.length, 2) : 0,
+    longPauseCount: pauses.filter(p => p >= LONG_PAUSE_SECONDS).length,
+    meanLengthOfRun: round(timedWords / runs),
+  };
+};
+
+// Most frequent fillers first, formatted as `"um" ×3`
+export const topFillers = (metrics: FluencyMetrics, limit = 3): string[] =>
+  Object.entries(metrics.fillers)
+    .sort((a, b) => b[1] - a[1])
+    .slice(0, limit)
+    .map(([filler, count]) => `"${filler}" ×${count}`);
+
+// One-line summary for prompts and reports
+export const formatFluencySummary = (metrics: FluencyMetrics) => {
+  const fillers = topFillers(metrics);
+  return [
+    metrics.speechRate !== undefined && `speech rate ${metrics.speechRate} words/min (${metrics.articulationRate} excluding pauses)`,
+    metrics.pauseCount !== undefined && `${metrics.pauseCount} pauses averaging ${metrics.meanPauseSeconds} s, ${metrics.longPauseCount} longer than ${LONG_PAUSE_SECONDS} s`,
+    metrics.meanLengthOfRun !== undefined && `mean length of run ${metrics.meanLengthOfRun} words`,
+    `${metrics.fillerCount} fillers (${metrics.fillersPer100Words} per 100 words${fillers.length ? `: ${fillers.join(', ')}` : ''})`,
+    `${metrics.wordCount} words in total`,
+  ].filter(Boolean).join('; ');
+};
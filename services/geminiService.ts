@@ -1,5 +1,17 @@
-import { GoogleGenAI, Type, Schema, LiveServerMessage, Modality } from "@google/genai";
-import { EssayAnalysis, GeminiModel, ChatMessage, TranslationResult } from "../types";
+import { GoogleGenAI, Type, Schema, Modality, ApiError } from "@google/genai";
+import { EssayAnalysis, SpeakingAnalysis, GeminiModel, ChatMessage, TranslationResult, TranslationLanguage, TranslationSource, WritingTask, WRITING_TASK_LABELS, ExaminerSettings } from "../types";
+import { AIProvider, EssayAnalysisOptions, SpeakingAnalysisOptions, ExaminerOptions, LiveSessionCallbacks, LiveSessionHandle } from "./aiProvider";
+import { parsePartialJson } from "./partialJson";
+import { validateEssayAnalysis, validateSpeakingAnalysis, validateTranslationResult, ValidationResult } from "./validation";
+import {
+  EmptyResponseError, MalformedResponseError, InvalidResponseError, QuotaExceededError, RequestCancelledError, isAbortError,
+} from "./aiErrors";
+import { withRetry, throwIfAborted } from "./retry";
+import { currentPart } from "./speakingTest";
+import { formatFluencySummary } from "./fluencyMetrics";
+import { DEFAULT_EXAMINER_SETTINGS, examinerBrief } from "./examinerSettings";
+import { languageName } from "./translatorSettings";
+import { formatTaskChart } from "./promptBank";
 
 // Helper to robustly get the API Key in different environments
 const getApiKey = () => {
@@ -22,8 +34,16 @@ const getApiKey = () => {
   return '';
 };
 
-const apiKey = getApiKey();
-const ai = new GoogleGenAI({ apiKey });
+export const hasGeminiApiKey = () => Boolean(getApiKey());
+
+// Created lazily so the app can run on the mock provider without a key or network
+let client: GoogleGenAI | null = null;
+const getClient = () => {
+  if (!client) {
+    client = new GoogleGenAI({ apiKey: getApiKey() });
+  }
+  return client;
+};
 
 // Shared schema properties
 const correctionsSchema = {
@@ -81,15 +101,276 @@ const analysisSchema: Schema = {
   required: ["cefrLevel", "ieltsScore", "estimatedScore", "generalFeedback", "correctedEssay", "corrections"],
 };
 
-export const analyzeEssay = async (text: string, model: GeminiModel): Promise<EssayAnalysis> => {
+const criterionSchema = (description: string, evidence = 'the essay'): Schema => ({
+  type: Type.OBJECT,
+  description,
+  properties: {
+    band: {
+      type: Type.INTEGER,
+      description: "Whole band score from 0 to 9 according to the public IELTS band descriptors.",
+    },
+    justification: {
+      type: Type.STRING,
+      description: `One or two sentences citing evidence from ${evidence} for this band.`,
+    },
+  },
+  required: ["band", "justification"],
+});
+
+// Writing adds the four official IELTS criteria on top of the shared analysis fields
+const writingAnalysisSchema: Schema = {
+  ...analysisSchema,
+  properties: {
+    ...analysisSchema.properties,
+    criteria: {
+      type: Type.OBJECT,
+      properties: {
+        taskResponse: criterionSchema("Task Achievement (Task 1) or Task Response (Task 2)."),
+        coherenceCohesion: criterionSchema("Coherence and Cohesion."),
+        lexicalResource: criterionSchema("Lexical Resource."),
+        grammaticalRange: criterionSchema("Grammatical Range and Accuracy."),
+      },
+      required: ["taskResponse", "coherenceCohesion", "lexicalResource", "grammaticalRange"],
+    },
+  },
+  required: [...(analysisSchema.required ?? []), "criteria"],
+  // Scores and feedback first so they can be rendered while the long fields are still streaming
+  propertyOrdering: ["cefrLevel", "ieltsScore", "estimatedScore", "generalFeedback", "criteria", "corrections", "correctedEssay"],
+};
+
+// Only requested when the essay comes with a task question
+const taskWritingAnalysisSchema: Schema = {
+  ...writingAnalysisSchema,
+  properties: {
+    ...writingAnalysisSchema.properties,
+    taskRelevance: {
+      type: Type.OBJECT,
+      properties: {
+        verdict: {
+          type: Type.STRING,
+          enum: ['relevant', 'partially-relevant', 'off-topic'],
+          description: "Whether the essay answers the task question.",
+        },
+        explanation: {
+          type: Type.STRING,
+          description: "Which parts of the task are covered, missed or misunderstood.",
+        },
+      },
+      required: ["verdict", "explanation"],
+    },
+  },
+  required: [...(writingAnalysisSchema.required ?? []), "taskRelevance"],
+  propertyOrdering: ["cefrLevel", "ieltsScore", "estimatedScore", "generalFeedback", "taskRelevance", "criteria", "corrections", "correctedEssay"],
+};
+
+// Speaking corrections also say which numbered USER line they were found in
+const speakingCorrectionsSchema = {
+  ...correctionsSchema,
+  items: {
+    ...correctionsSchema.items,
+    properties: {
+      ...correctionsSchema.items.properties,
+      messageIndex: {
+        type: Type.INTEGER,
+        description: "The number N of the transcript line '#N USER: ...' that contains the error.",
+      },
+    },
+    required: [...correctionsSchema.items.required, "messageIndex"],
+  },
+};
+
+const partFeedbackSchema: Schema = {
+  type: Type.ARRAY,
+  items: {
+    type: Type.OBJECT,
+    properties: {
+      part: {
+        type: Type.INTEGER,
+        description: "The test part (1, 2 or 3).",
+      },
+      feedback: {
+        type: Type.STRING,
+        description: "Two or three sentences on the candidate's performance in this part.",
+      },
+    },
+    required: ["part", "feedback"],
+  },
+};
+
+// Speaking is scored on its own four criteria. Pronunciation is only requested when the
+// recording is attached, and per-part comments only when the transcript is tagged with parts.
+const speakingAnalysisSchema = (hasParts: boolean, hasAudio: boolean): Schema => ({
+  ...analysisSchema,
+  properties: {
+    ...analysisSchema.properties,
+    speakingCriteria: {
+      type: Type.OBJECT,
+      properties: {
+        fluencyCoherence: criterionSchema("Fluency and Coherence.", 'the transcript'),
+        lexicalResource: criterionSchema("Lexical Resource.", 'the transcript'),
+        grammaticalRange: criterionSchema("Grammatical Range and Accuracy.", 'the transcript'),
+        ...(hasAudio && { pronunciation: criterionSchema("Pronunciation, judged from the attached audio only.", 'the audio') }),
+      },
+      required: ["fluencyCoherence", "lexicalResource", "grammaticalRange", ...(hasAudio ? ["pronunciation"] : [])],
+    },
+    corrections: speakingCorrectionsSchema,
+    ...(hasParts && { partFeedback: partFeedbackSchema }),
+  },
+  required: [...(analysisSchema.required ?? []), "speakingCriteria", ...(hasParts ? ["partFeedback"] : [])],
+  propertyOrdering: ["cefrLevel", "ieltsScore", "estimatedScore", "generalFeedback", "speakingCriteria", ...(hasParts ? ["partFeedback"] : []), "corrections", "correctedEssay"],
+});
+
+const describeTask = (task?: WritingTask) => task
+  ? `
+              Task (${WRITING_TASK_LABELS[task.type]}):
+              "${task.question}"
+${task.chart ? `
+              The chart shows this data:
+${formatTaskChart(task.chart)}
+
+              - Check every figure the essay reports against this data. Misread or invented figures, and missing key features, lower Task Achievement.
+` : ''}
+              - Judge Task Achievement/Response against THIS question. An off-topic or partially relevant answer must be penalised.
+              - Return a 'taskRelevance' verdict explaining which parts of the task are covered or missed.
+`
+  : '';
+
+// The detected language is only required when the source was not given
+const translationSchema = (detect: boolean): Schema => ({
+  type: Type.OBJECT,
+  properties: {
+    detectedLanguage: {
+      type: Type.STRING,
+      description: "ISO 639-1 code of the input text's language, e.g. 'kk' for Kazakh.",
+    },
+    segments: {
+      type: Type.ARRAY,
+      items: {
+        type: Type.OBJECT,
+        properties: {
+          text: { type: Type.STRING },
+          definition: { type: Type.STRING },
+          alternatives: {
+            type: Type.ARRAY,
+            items: {
+              type: Type.OBJECT,
+              properties: {
+                text: { type: Type.STRING },
+                definition: { type: Type.STRING }
+              }
+            }
+          },
+        },
+        required: ["text"]
+      }
+    }
+  },
+  required: ["segments", ...(detect ? ["detectedLanguage"] : [])],
+});
+
+// --- Request Retries ---
+
+// 429 (rate limit) and 5xx (overloaded / internal) are transient; anything else fails immediately
+const isRetryableError = (error: unknown) =>
+  error instanceof ApiError && (error.status === 429 || error.status >= 500);
+
+const isQuotaError = (error: unknown) =>
+  error instanceof ApiError &&
+  (error.status === 429 || /RESOURCE_EXHAUSTED|quota/i.test(error.message));
+
+// Runs a request with exponential backoff and maps the final failure to a typed error
+const callWithRetry = async <T>(run: () => Promise<T>, signal?: AbortSignal): Promise<T> => {
+  try {
+    return await withRetry(run, { signal, isRetryable: isRetryableError });
+  } catch (error) {
+    if (signal?.aborted || isAbortError(error)) throw new RequestCancelledError();
+    if (isQuotaError(error)) throw new QuotaExceededError();
+    throw error;
+  }
+};
+
+// --- Response Parsing & Repair ---
+
+const stripCodeFences = (text: string) => text.replace(/```json\n?|```/g, '').trim();
+
+const parseJson = (raw: string): ValidationResult<unknown> => {
+  try {
+    return { value: JSON.parse(stripCodeFences(raw)), issues: [] };
+  } catch (e) {
+    return { value: null, issues: [`The response is not valid JSON: ${(e as Error).message}`] };
+  }
+};
+
+// Ask the model to fix its own output once, listing exactly what was wrong
+const requestRepair = async (
+  raw: string,
+  issues: string[],
+  schema: Schema,
+  model: GeminiModel,
+  signal?: AbortSignal
+): Promise<string> => {
+  const response = await callWithRetry(() => getClient().models.generateContent({
+    model: model,
+    contents: [
+      {
+        role: 'user',
+        parts: [{
+          text: `Your previous JSON response was invalid. Fix ONLY the listed problems and return the complete corrected JSON.
+          Keep every valid field unchanged. Do not add commentary.
+
+          Problems:
+          ${issues.map(issue => `- ${issue}`).join('\n          ')}
+
+          Previous response:
+          ${raw}`
+        }]
+      }
+    ],
+    config: {
+      responseMimeType: "application/json",
+      responseSchema: schema,
+      abortSignal: signal,
+    }
+  }), signal);
+  return response.text || '';
+};
+
+const parseValidated = async <T>(
+  raw: string | undefined,
+  validate: (value: unknown) => ValidationResult<T>,
+  schema: Schema,
+  model: GeminiModel,
+  signal?: AbortSignal
+): Promise<T> => {
+  if (!raw) throw new EmptyResponseError();
+
+  const parsed = parseJson(raw);
+  const result = parsed.issues.length === 0 ? validate(parsed.value) : parsed;
+  if (result.issues.length === 0) return result.value as T;
+
+  console.warn("Invalid AI response, requesting repair:", result.issues);
+  const repairedRaw = await requestRepair(raw, result.issues, schema, model, signal);
+  if (!repairedRaw) throw new EmptyResponseError();
+
+  const repaired = parseJson(repairedRaw);
+  if (repaired.issues.length > 0) throw new MalformedResponseError(repairedRaw);
+  const repairedResult = validate(repaired.value);
+  if (repairedResult.issues.length > 0) throw new InvalidResponseError(repairedResult.issues, repairedRaw);
+  return repairedResult.value as T;
+};
+
+const analyzeEssay = async (text: string, model: GeminiModel, options: EssayAnalysisOptions = {}): Promise<EssayAnalysis> => {
   if (!text || text.trim().length < 10) {
     throw new Error("Text is too short to analyze.");
   }
 
+  const { task, onProgress, signal } = options;
+
   try {
     const isPro = model.includes('pro');
     
-    const response = await ai.models.generateContent({
+    // Streamed so scores and feedback can be shown before the full response arrives
+    const stream = await callWithRetry(() => getClient().models.generateContentStream({
       model: model,
       contents: [
         {
@@ -117,10 +398,12 @@ export const analyzeEssay = async (text: string, model: GeminiModel): Promise<Es
               3. Output: 
                  - Identify errors in grammar, spelling, semantics, and clarity.
                  - Determine the CEFR level and IELTS Band Score.
+                 - Score each of the four IELTS Writing criteria ('criteria') with a whole band and a short justification.
                  - Provide specific corrections.
                  - Provide a 'correctedEssay' field which is the fully corrected text.
                  - IMPORTANT: 'originalText' must match the source text character-for-character.
-
+                 - List corrections in the order they appear in the essay.
+              ${describeTask(task)}
               Essay:
               "${text}"`
             }
@@ -129,26 +412,42 @@ export const analyzeEssay = async (text: string, model: GeminiModel): Promise<Es
       ],
       config: {
         responseMimeType: "application/json",
-        responseSchema: analysisSchema,
+        responseSchema: task ? taskWritingAnalysisSchema : writingAnalysisSchema,
         systemInstruction: "You are a strict British English examiner.",
-        thinkingConfig: isPro ? { thinkingBudget: 4096 } : undefined
+        thinkingConfig: isPro ? { thinkingBudget: 4096 } : undefined,
+        abortSignal: signal,
       }
-    });
+    }), signal);
 
-    let jsonText = response.text;
-    if (!jsonText) throw new Error("No response from AI");
-    jsonText = jsonText.replace(/```json\n?|```/g, '').trim();
-    
-    return JSON.parse(jsonText) as EssayAnalysis;
+    let jsonText = '';
+    for await (const chunk of stream) {
+      throwIfAborted(signal);
+      if (!chunk.text) continue;
+      jsonText += chunk.text;
+      const partial = parsePartialJson(stripCodeFences(jsonText));
+      if (onProgress && partial && typeof partial === 'object') {
+        onProgress(partial as Partial<EssayAnalysis>);
+      }
+    }
+
+    return await parseValidated(
+      jsonText,
+      (value) => validateEssayAnalysis(value, task ? ['criteria', 'taskRelevance'] : ['criteria']),
+      task ? taskWritingAnalysisSchema : writingAnalysisSchema,
+      model,
+      signal
+    );
   } catch (error) {
+    // The SDK surfaces a mid-stream abort as a plain AbortError
+    if (signal?.aborted) throw new RequestCancelledError();
     console.error("Error analyzing essay:", error);
     throw error;
   }
 };
 
-export const transcribeImage = async (base64Image: string, mimeType: string): Promise<string> => {
+const transcribeImage = async (base64Image: string, mimeType: string, signal?: AbortSignal): Promise<string> => {
   try {
-    const response = await ai.models.generateContent({
+    const response = await callWithRetry(() => getClient().models.generateContent({
       model: GeminiModel.FLASH, 
       contents: [
         {
@@ -165,8 +464,9 @@ export const transcribeImage = async (base64Image: string, mimeType: string): Pr
             }
           ]
         }
-      ]
-    });
+      ],
+      config: { abortSignal: signal }
+    }), signal);
 
     return response.text || "";
   } catch (error) {
@@ -177,20 +477,36 @@ export const transcribeImage = async (base64Image: string, mimeType: string): Pr
 
 // --- Speaking Mode Services ---
 
-export const getExaminerResponse = async (history: ChatMessage[], model: GeminiModel): Promise<string> => {
+const EXAMINER_INSTRUCTION = `You are a professional IELTS Speaking examiner. Conduct the three-part speaking test with the user. Guidelines:
+1. Part 1 (interview): familiar questions about the candidate and everyday topics. Part 2 (long turn): the candidate talks about a cue card for up to two minutes after one minute of preparation. Part 3 (discussion): more abstract questions linked to the Part 2 topic.
+2. Messages that start with a tag in square brackets, such as [PART 2 PREPARATION], are instructions from the test software, not from the candidate. Follow them immediately, never read them aloud and never move to another part on your own.
+3. Ask only ONE question at a time.
+4. Keep your responses concise (1-2 sentences max) to let the user speak more.
+5. Do NOT correct the user's grammar during the chat. Just maintain a natural flow.
+6. Ask follow-up questions based on their answers.
+7. Be polite but formal.`;
+
+// The session's accent, difficulty and topic preferences follow the general rules
+const examinerInstruction = (settings?: ExaminerSettings) =>
+  settings ? `${EXAMINER_INSTRUCTION}\n\n${examinerBrief(settings)}` : EXAMINER_INSTRUCTION;
+
+const getExaminerResponse = async (history: ChatMessage[], model: GeminiModel, options: ExaminerOptions = {}): Promise<string> => {
+  const { settings, signal } = options;
   try {
+     const part = currentPart(history);
      const contents = history.map(msg => ({
          role: msg.role,
          parts: [{ text: msg.text }]
      }));
 
-     const response = await ai.models.generateContent({
+     const response = await callWithRetry(() => getClient().models.generateContent({
          model: model,
          contents: contents,
          config: {
-            systemInstruction: "You are a professional IELTS Speaking examiner. Conduct a speaking test with the user. guidelines:\n1. Ask only ONE question at a time.\n2. Keep your responses concise (1-2 sentences max) to let the user speak more.\n3. Do NOT correct the user's grammar during the chat. Just maintain a natural flow.\n4. Start with a simple question about their home, work, or studies.\n5. Ask follow-up questions based on their answers.\n6. Be polite but formal."
+            systemInstruction: part ? `${examinerInstruction(settings)}\n\nThe test is currently in Part ${part}.` : examinerInstruction(settings),
+            abortSignal: signal,
          }
-     });
+     }), signal);
 
      return response.text || "";
   } catch (error) {
@@ -199,33 +515,41 @@ export const getExaminerResponse = async (history: ChatMessage[], model: GeminiM
   }
 };
 
-export const createLiveSession = (callbacks: {
-    onopen?: () => void;
-    onmessage?: (message: LiveServerMessage) => void;
-    onclose?: (event: CloseEvent) => void;
-    onerror?: (event: ErrorEvent) => void;
-}) => {
-    return ai.live.connect({
+const createLiveSession = async (callbacks: LiveSessionCallbacks, options: ExaminerOptions = {}): Promise<LiveSessionHandle> => {
+    const { settings, signal } = options;
+    throwIfAborted(signal);
+    const session = await getClient().live.connect({
         model: 'gemini-2.5-flash-native-audio-preview-09-2025',
         callbacks,
         config: {
             responseModalities: [Modality.AUDIO],
             speechConfig: {
-                voiceConfig: { prebuiltVoiceConfig: { voiceName: 'Kore' } },
+                voiceConfig: { prebuiltVoiceConfig: { voiceName: settings?.voice ?? DEFAULT_EXAMINER_SETTINGS.voice } },
             },
-            systemInstruction: "You are a professional IELTS Speaking examiner. Conduct a speaking test with the user. Guidelines:\n1. Ask only ONE question at a time.\n2. Keep your responses concise (1-2 sentences max) to let the user speak more.\n3. Do NOT correct the user's grammar during the chat. Just maintain a natural flow.\n4. Start with a simple question about their home, work, or studies.\n5. Ask follow-up questions based on their answers.\n6. Be polite but formal.",
+            systemInstruction: examinerInstruction(settings),
             inputAudioTranscription: {}, 
             outputAudioTranscription: {}, 
         },
     });
+    // Connecting cannot be interrupted, so a session that opens after the abort is closed straight away
+    if (signal?.aborted) {
+        session.close();
+        throw new RequestCancelledError();
+    }
+    signal?.addEventListener('abort', () => session.close(), { once: true });
+    return session;
 };
 
-export const analyzeSpeakingSession = async (history: ChatMessage[], model: GeminiModel): Promise<EssayAnalysis> => {
+const analyzeSpeakingSession = async (history: ChatMessage[], model: GeminiModel, options: SpeakingAnalysisOptions = {}): Promise<SpeakingAnalysis> => {
+  const { fluency, audio, signal } = options;
   try {
-    const transcript = history.map(m => `${m.role.toUpperCase()}: ${m.text}`).join('\n');
+    // Lines are numbered with their message index so corrections can point back to them
+    const transcript = history.map((m, i) => `#${i} ${m.part ? `[Part ${m.part}] ` : ''}${m.role.toUpperCase()}: ${m.text}`).join('\n');
+    const hasParts = history.some(m => m.part !== undefined);
     const isPro = model.includes('pro');
+    const schema = speakingAnalysisSchema(hasParts, Boolean(audio));
 
-    const response = await ai.models.generateContent({
+    const response = await callWithRetry(() => getClient().models.generateContent({
       model: model,
       contents: [
         {
@@ -236,11 +560,19 @@ export const analyzeSpeakingSession = async (history: ChatMessage[], model: Gemi
               
               Transcript:
               ${transcript}
-              
+              ${fluency ? `
+              Fluency measurements (computed from the USER's recorded audio, treat them as reliable):
+              ${formatFluencySummary(fluency)}
+              ` : ''}${audio ? `
+              The attached audio is a ${audio.seconds}-second clip of the USER's own recorded answers, joined with short silences. Use it only for Pronunciation.
+              ` : ''}
               STRICT GUIDELINES:
               1. Focus ONLY on the USER's errors. Ignore the model's text.
               2. Assessment Criteria:
-                 - Check for grammar (tense, agreement), vocabulary range, and clarity.
+                 - Check for grammar (tense, agreement), vocabulary range, and clarity.${fluency ? `
+                 - Judge fluency and coherence from the measurements above rather than from the text alone, and cite the most telling figures in 'generalFeedback'.` : ''}
+                 - Score the IELTS Speaking criteria ('speakingCriteria') with a whole band and a short justification each: Fluency and Coherence, Lexical Resource, Grammatical Range and Accuracy${audio ? `, and Pronunciation.
+                 - Judge Pronunciation from the audio: intelligibility, individual sounds, word and sentence stress, intonation and chunking. A foreign accent alone is not an error; mention one or two specific sounds or words to work on.` : '.'}
                  - Estimate CEFR level and IELTS Band Score based on the user's performance.
                  - **MANDATORY SCORING MAPPING**:
                    - C2 -> IELTS 8.5 - 9.0
@@ -253,24 +585,29 @@ export const analyzeSpeakingSession = async (history: ChatMessage[], model: Gemi
                  - 'generalFeedback': Summary of speaking performance.
                  - 'correctedEssay': Rewrite the USER's dialogue turns to be more natural, grammatically correct, and advanced (C1/C2 level). Present it as a corrected transcript or just the improved user responses.
                  - 'corrections': Specific errors in the user's speech.
-                 - 'originalText' must match the user's text exactly.
+                 - 'originalText' must match the user's text exactly, and 'messageIndex' must be the number N of the '#N' USER line it comes from.${hasParts ? `
+                 - 'partFeedback': The transcript lines are tagged with the test part. Give one entry for each part that appears, commenting on how the USER handled that part (e.g. extended answers in Part 1, coherence and length of the Part 2 long turn, developing abstract ideas in Part 3).` : ''}
               `
-            }
+            },
+            ...(audio ? [{ inlineData: { mimeType: audio.mimeType, data: audio.data } }] : []),
           ]
         }
       ],
       config: {
         responseMimeType: "application/json",
-        responseSchema: analysisSchema,
-        thinkingConfig: isPro ? { thinkingBudget: 4096 } : undefined
+        responseSchema: schema,
+        thinkingConfig: isPro ? { thinkingBudget: 4096 } : undefined,
+        abortSignal: signal,
       }
-    });
-
-    let jsonText = response.text;
-    if (!jsonText) throw new Error("No response from AI");
-    jsonText = jsonText.replace(/```json\n?|```/g, '').trim();
+    }), signal);
 
-    return JSON.parse(jsonText) as EssayAnalysis;
+    return await parseValidated(
+      response.text,
+      (value) => validateSpeakingAnalysis(value, [...(hasParts ? ['partFeedback' as const] : []), ...(audio ? ['pronunciation' as const] : [])]),
+      schema,
+      model,
+      signal
+    );
   } catch (error) {
     console.error("Error analyzing speaking session:", error);
     throw error;
@@ -279,19 +616,29 @@ export const analyzeSpeakingSession = async (history: ChatMessage[], model: Gemi
 
 // --- Translation Services ---
 
-export const translateWithNuance = async (text: string, from: 'ru'|'en', to: 'ru'|'en', model: GeminiModel): Promise<TranslationResult> => {
+const translateWithNuance = async (
+  text: string,
+  from: TranslationSource,
+  to: TranslationLanguage,
+  model: GeminiModel,
+  signal?: AbortSignal
+): Promise<TranslationResult> => {
   try {
-     const targetLanguageName = to === 'ru' ? 'Russian' : 'English';
-     const sourceLanguageName = from === 'ru' ? 'Russian' : 'English';
+     const targetLanguageName = languageName(to);
+     const detect = from === 'auto';
+     const schema = translationSchema(detect);
+     const task = detect
+       ? `Detect the language of the text, then translate it to ${targetLanguageName}. Set 'detectedLanguage' to the ISO 639-1 code of the language you detected.`
+       : `Translate the text from ${languageName(from)} to ${targetLanguageName}. Set 'detectedLanguage' to '${from}'.`;
 
-     const response = await ai.models.generateContent({
+     const response = await callWithRetry(() => getClient().models.generateContent({
         model: model,
         contents: [
             {
                 role: 'user',
                 parts: [{
                     text: `You are a professional translator. 
-                    Task: Translate the text from ${sourceLanguageName} to ${targetLanguageName}.
+                    Task: ${task}
                     
                     Input Text: "${text}"
 
@@ -309,42 +656,27 @@ export const translateWithNuance = async (text: string, from: 'ru'|'en', to: 'ru
         ],
         config: {
             responseMimeType: "application/json",
-            responseSchema: {
-                type: Type.OBJECT,
-                properties: {
-                    segments: {
-                        type: Type.ARRAY,
-                        items: {
-                            type: Type.OBJECT,
-                            properties: {
-                                text: { type: Type.STRING },
-                                definition: { type: Type.STRING },
-                                alternatives: { 
-                                    type: Type.ARRAY, 
-                                    items: { 
-                                        type: Type.OBJECT,
-                                        properties: {
-                                            text: { type: Type.STRING },
-                                            definition: { type: Type.STRING }
-                                        }
-                                    } 
-                                },
-                            },
-                            required: ["text"]
-                        }
-                    }
-                }
-            }
+            responseSchema: schema,
+            abortSignal: signal,
         }
-     });
+     }), signal);
 
-     let jsonText = response.text;
-     if (!jsonText) return { segments: [] };
-     jsonText = jsonText.replace(/```json\n?|```/g, '').trim();
-     return JSON.parse(jsonText) as TranslationResult;
+     if (!response.text) return { segments: [] };
+     return await parseValidated(response.text, validateTranslationResult, schema, model, signal);
 
   } catch (error) {
       console.error("Translation error", error);
       throw error;
   }
-}
\ No newline at end of file
+}
+
+export const geminiProvider: AIProvider = {
+  id: 'gemini',
+  label: 'Google Gemini',
+  analyzeEssay,
+  transcribeImage,
+  getExaminerResponse,
+  createLiveSession,
+  analyzeSpeakingSession,
+  translateWithNuance,
+};
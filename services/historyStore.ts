@@ -0,0 +1,20 @@
+import { SubmissionRecord } from "../types";
+import { STORES, withStore } from "./db";
+
+// --- Submission History ---
+// Every writing and speaking analysis is kept locally so progress can be tracked over time.
+
+export const saveSubmission = async (record: Omit<SubmissionRecord, 'id'>): Promise<SubmissionRecord> => {
+  const id = await withStore(STORES.submissions, 'readwrite', store => store.add(record));
+  return { ...record, id: id as number };
+};
+
+// Oldest first, which is the order charts want
+export const listSubmissions = (): Promise<SubmissionRecord[]> =>
+  withStore(STORES.submissions, 'readonly', store => store.index('createdAt').getAll());
+
+export const deleteSubmission = (id: number): Promise<undefined> =>
+  withStore(STORES.submissions, 'readwrite', store => store.delete(id));
+
+export const clearSubmissions = (): Promise<undefined> =>
+  withStore(STORES.submissions, 'readwrite', store => store.clear());
@@ -0,0 +1,92 @@
+import { EssayAnalysis, WritingCriteria, SpeakingAnalysis, SpeakingCriteria, ExamResult, CefrLevel, CEFR_LEVELS } from "../types";
+
+// --- IELTS Band Calculation ---
+
+// Band range (inclusive) that each CEFR level maps to; the same table is given to the model
+export const CEFR_IELTS_RANGES: Record<CefrLevel, [number, number]> = {
+  A0: [0, 1.5],
+  A1: [2, 2.5],
+  A2: [3, 3.5],
+  B1: [4, 5],
+  B2: [5.5, 6.5],
+  C1: [7, 8],
+  C2: [8.5, 9],
+};
+
+export const cefrForBand = (band: number): CefrLevel =>
+  CEFR_LEVELS.find(level => band <= CEFR_IELTS_RANGES[level][1]) ?? 'C2';
+
+// Official IELTS rounding: a mean ending in .25 rounds up to the next half band,
+// a mean ending in .75 rounds up to the next whole band, anything else rounds down.
+export const roundIeltsBand = (mean: number): number => {
+  const whole = Math.floor(mean);
+  const fraction = mean - whole;
+  if (fraction >= 0.75) return whole + 1;
+  if (fraction >= 0.25) return whole + 0.5;
+  return whole;
+};
+
+export const formatBand = (band: number) => band.toFixed(1);
+
+export const overallWritingBand = (criteria: WritingCriteria): number => {
+  const bands = [
+    criteria.taskResponse.band,
+    criteria.coherenceCohesion.band,
+    criteria.lexicalResource.band,
+    criteria.grammaticalRange.band,
+  ];
+  return roundIeltsBand(bands.reduce((sum, b) => sum + b, 0) / bands.length);
+};
+
+// Replace the model's holistic guess with the band computed from the four criteria,
+// keeping the CEFR level consistent with the resulting band
+export const applyWritingBand = (analysis: EssayAnalysis): EssayAnalysis => {
+  if (!analysis.criteria) return analysis;
+  const band = overallWritingBand(analysis.criteria);
+  return { ...analysis, ieltsScore: formatBand(band), cefrLevel: cefrForBand(band) };
+};
+
+// Without a recording Pronunciation is not assessed, and the band is the mean of the other three
+export const overallSpeakingBand = (criteria: SpeakingCriteria): number => {
+  const bands = [
+    criteria.fluencyCoherence,
+    criteria.lexicalResource,
+    criteria.grammaticalRange,
+    criteria.pronunciation,
+  ].filter(Boolean).map(c => c!.band);
+  return roundIeltsBand(bands.reduce((sum, b) => sum + b, 0) / bands.length);
+};
+
+export const applySpeakingBand = (analysis: SpeakingAnalysis): SpeakingAnalysis => {
+  if (!analysis.speakingCriteria) return analysis;
+  const band = overallSpeakingBand(analysis.speakingCriteria);
+  return { ...analysis, ieltsScore: formatBand(band), cefrLevel: cefrForBand(band) };
+};
+
+export const countWords = (text: string) => text.trim().split(/\s+/).filter(Boolean).length;
+
+// Under-length answers lose Task Achievement/Response bands: one band when short,
+// two when the essay reaches less than two thirds of the minimum.
+export const lengthPenaltyFor = (wordCount: number, minWords: number) => {
+  if (wordCount >= minWords) return 0;
+  return wordCount < minWords * (2 / 3) ? 2 : 1;
+};
+
+export const applyExamResult = (analysis: EssayAnalysis, exam: ExamResult): EssayAnalysis => {
+  if (!exam.lengthPenalty || !analysis.criteria) {
+    return { ...analysis, examResult: exam };
+  }
+  const { taskResponse } = analysis.criteria;
+  const penalised = {
+    ...analysis,
+    examResult: exam,
+    criteria: {
+      ...analysis.criteria,
+      taskResponse: {
+        band: Math.max(0, taskResponse.band - exam.lengthPenalty),
+        justification: `${taskResponse.justification} Under length (${exam.wordCount}/${exam.minWords} words): -${exam.lengthPenalty}.`,
+      },
+    },
+  };
+  return applyWritingBand(penalised);
+};
@@ -0,0 +1,164 @@
+import { INPUT_SAMPLE_RATE } from "./sessionRecorder";
+
+// --- Microphone Capture ---
+// Captures the microphone on an AudioWorklet at the device's native sample rate and
+// resamples it to 16 kHz on our side. Browsers are free to ignore the `sampleRate`
+// requested for an AudioContext, so the Live API would otherwise get mislabelled PCM.
+
+// 40 ms chunks keep latency low without flooding the socket with tiny messages
+const CHUNK_SECONDS = 0.04;
+
+// Half-width of the interpolation kernel, in input samples
+const KERNEL_HALF_WIDTH = 16;
+
+// Keeps the resampled band slightly below the new Nyquist frequency
+const CUTOFF_MARGIN = 0.9;
+
+// Meter range: silence below -60 dBFS, full scale at 0 dBFS
+const METER_FLOOR_DB = -60;
+
+export interface MicCapture {
+  sampleRate: number; // The device rate the microphone is captured at
+  stop: () => void;
+}
+
+// Called for every chunk with 16 kHz PCM and the chunk's level on a 0-1 meter scale
+export type MicChunkHandler = (pcm16: Int16Array, level: number) => void;
+
+// Runs on the audio rendering thread, so it is loaded from source rather than bundled
+const WORKLET_SOURCE = `
+class MicCaptureProcessor extends AudioWorkletProcessor {
+  constructor(options) {
+    super();
+    this.size = options.processorOptions.chunkSize;
+    this.buffer = new Float32Array(this.size);
+    this.filled = 0;
+  }
+
+  process(inputs) {
+    const channels = inputs[0];
+    if (!channels || channels.length === 0) return true;
+    const length = channels[0].length;
+    for (let i = 0; i < length; i++) {
+      let sample = 0;
+      for (let c = 0; c < channels.length; c++) sample += channels[c][i];
+      this.buffer[this.filled++] = sample / channels.length;
+      if (this.filled === this.size) {
+        this.port.postMessage(this.buffer, [this.buffer.buffer]);
+        this.buffer = new Float32Array(this.size);
+        this.filled = 0;
+      }
+    }
+    return true;
+  }
+}
+registerProcessor('mic-capture', MicCaptureProcessor);
+`;
+
+// --- Resampling ---
+
+const sinc = (x: number) => x === 0 ? 1 : Math.sin(Math.PI * x) / (Math.PI * x);
+
+// Streaming band-limited resampler: windowed-sinc interpolation with the cutoff lowered
+// when downsampling, so speech above 8 kHz does not fold back as aliasing.
+export const createResampler = (fromRate: number, toRate: number) => {
+  if (fromRate === toRate) return (input: Float32Array) => input;
+
+  const step = fromRate / toRate;
+  const cutoff = Math.min(1, toRate / fromRate) * CUTOFF_MARGIN;
+  const kernel = (x: number) => {
+    if (Math.abs(x) >= KERNEL_HALF_WIDTH) return 0;
+    const window = 0.5 * (1 + Math.cos(Math.PI * x / KERNEL_HALF_WIDTH)); // Hann
+    return cutoff * sinc(cutoff * x) * window;
+  };
+
+  // Unconsumed input, starting KERNEL_HALF_WIDTH samples of history before `position`
+  let pending = new Float32Array(KERNEL_HALF_WIDTH);
+  let position = KERNEL_HALF_WIDTH;
+
+  return (input: Float32Array): Float32Array => {
+    const buffer = new Float32Array(pending.length + input.length);
+    buffer.set(pending);
+    buffer.set(input, pending.length);
+
+    const output: number[] = [];
+    while (Math.floor(position) + KERNEL_HALF_WIDTH < buffer.length) {
+      const center = Math.floor(position);
+      let sum = 0;
+      for (let n = center - KERNEL_HALF_WIDTH + 1; n <= center + KERNEL_HALF_WIDTH; n++) {
+        sum += buffer[n] * kernel(position - n);
+      }
+      output.push(sum);
+      position += step;
+    }
+
+    const keepFrom = Math.max(0, Math.floor(position) - KERNEL_HALF_WIDTH + 1);
+    pending = buffer.slice(keepFrom);
+    position -= keepFrom;
+    return Float32Array.from(output);
+  };
+};
+
+export const floatTo16BitPCM = (input: Float32Array) => {
+  const output = new Int16Array(input.length);
+  for (let i = 0; i < input.length; i++) {
+    const s = Math.max(-1, Math.min(1, input[i]));
+    output[i] = s < 0 ? s * 0x8000 : s * 0x7FFF;
+  }
+  return output;
+};
+
+// RMS level mapped from METER_FLOOR_DB..0 dBFS onto 0..1
+export const meterLevel = (samples: Float32Array) => {
+  let sum = 0;
+  for (let i = 0; i < samples.length; i++) sum += samples[i] * samples[i];
+  const rms = Math.sqrt(sum / Math.max(1, samples.length));
+  if (rms === 0) return 0;
+  const db = 20 * Math.log10(rms);
+  return Math.max(0, Math.min(1, (db - METER_FLOOR_DB) / -METER_FLOOR_DB));
+};
+
+export const startMicCapture = async (stream: MediaStream, onChunk: MicChunkHandler): Promise<MicCapture> => {
+  const AudioContextClass = window.AudioContext || (window as any).webkitAudioContext;
+  // No sampleRate option: the context runs at the device rate and we resample ourselves
+  const ctx: AudioContext = new AudioContextClass({ latencyHint: 'interactive' });
+  if (!ctx.audioWorklet) {
+    await ctx.close();
+    throw new Error("This browser does not support AudioWorklet microphone capture.");
+  }
+
+  const moduleUrl = URL.createObjectURL(new Blob([WORKLET_SOURCE], { type: 'application/javascript' }));
+  try {
+    await ctx.audioWorklet.addModule(moduleUrl);
+  } catch (err) {
+    await ctx.close();
+    throw err;
+  } finally {
+    URL.revokeObjectURL(moduleUrl);
+  }
+  if (ctx.state === 'suspended') await ctx.resume();
+
+  const source = ctx.createMediaStreamSource(stream);
+  // No outputs: the node only reads the microphone and is rendered as long as its input is connected
+  const node = new AudioWorkletNode(ctx, 'mic-capture', {
+    numberOfInputs: 1,
+    numberOfOutputs: 0,
+    processorOptions: { chunkSize: Math.round(ctx.sampleRate * CHUNK_SECONDS) },
+  });
+  const resample = createResampler(ctx.sampleRate, INPUT_SAMPLE_RATE);
+
+  node.port.onmessage = (e: MessageEvent<Float32Array>) => {
+    onChunk(floatTo16BitPCM(resample(e.data)), meterLevel(e.data));
+  };
+  source.connect(node);
+
+  return {
+    sampleRate: ctx.sampleRate,
+    stop: () => {
+      node.port.onmessage = null;
+      source.disconnect();
+      node.disconnect();
+      ctx.close().catch(() => {});
+    },
+  };
+};
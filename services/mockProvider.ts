@@ -0,0 +1,411 @@
+import { EssayAnalysis, SpeakingAnalysis, SpeakingCriteria, GeminiModel, ChatMessage, TranslationResult, TranslationLanguage, TranslationSource, Correction, WritingCriteria, WritingTask, TaskRelevance, SpeakingPart } from "../types";
+import { AIProvider, EssayAnalysisOptions, SpeakingAnalysisOptions, ExaminerOptions, LiveSessionCallbacks, LiveSessionHandle } from "./aiProvider";
+import { sleep, throwIfAborted } from "./retry";
+import { TEST_STAGES, TestStage, currentPart, stageOfInstruction, stageOfResume } from "./speakingTest";
+import { formatFluencySummary } from "./fluencyMetrics";
+import { validateEssayAnalysis, validateSpeakingAnalysis, validateTranslationResult, ValidationResult } from "./validation";
+import { InvalidResponseError } from "./aiErrors";
+
+// --- Offline Mock Provider ---
+// Deterministic stand-in for the Gemini provider. The same input always produces the
+// same output, so the UI can be developed, demoed and tested without a network.
+
+const MOCK_LATENCY_MS = 600;
+
+// Abortable like a real request, so cancellation can be exercised offline
+const delay = (ms: number, signal?: AbortSignal) => sleep(ms, signal);
+
+// Mock results go through the same JSON round trip and validators as Gemini responses,
+// so offline runs exercise validation too. There is no repair step: a mock that fails
+// validation is a bug in the mock.
+const validated = <T>(result: unknown, validate: (value: unknown) => ValidationResult<T>): T => {
+  const raw = JSON.stringify(result);
+  const { value, issues } = validate(JSON.parse(raw));
+  if (issues.length > 0) throw new InvalidResponseError(issues, raw);
+  return value as T;
+};
+
+// Common learner mistakes the mock "detects". Each rule yields a correction whose
+// originalText is taken verbatim from the essay so highlighting works as with Gemini.
+const MOCK_RULES: { pattern: RegExp; suggest: (match: string) => string; explanation: string; type: Correction['type'] }[] = [
+  {
+    pattern: /\balot\b/gi,
+    suggest: () => 'a lot',
+    explanation: "'A lot' is always written as two words.",
+    type: 'spelling',
+  },
+  {
+    pattern: /\brecieve\w*/gi,
+    suggest: (m) => m.replace(/ie/i, 'ei'),
+    explanation: "Remember 'i' before 'e' except after 'c'.",
+    type: 'spelling',
+  },
+  {
+    pattern: /\b(dont|doesnt|cant|wont|isnt)\b/gi,
+    suggest: (m) => m.slice(0, -1) + "'" + m.slice(-1),
+    explanation: 'Contractions need an apostrophe. In formal essays, prefer the full form.',
+    type: 'spelling',
+  },
+  {
+    pattern: /\binformations\b/gi,
+    suggest: () => 'information',
+    explanation: "'Information' is uncountable and has no plural form.",
+    type: 'grammar',
+  },
+  {
+    pattern: /\bpeoples\b/gi,
+    suggest: () => 'people',
+    explanation: "'People' is already plural; 'peoples' refers to nations or ethnic groups.",
+    type: 'grammar',
+  },
+  {
+    pattern: / i /g,
+    suggest: () => ' I ',
+    explanation: "The pronoun 'I' is always capitalised.",
+    type: 'grammar',
+  },
+  {
+    pattern: /\bvery (good|bad|big)\b/gi,
+    suggest: (m) => ({ good: 'excellent', bad: 'dreadful', big: 'enormous' } as Record<string, string>)[m.split(' ')[1].toLowerCase()],
+    explanation: 'Use a stronger single adjective instead of "very + adjective" to show lexical range.',
+    type: 'vocabulary',
+  },
+];
+
+// Word count drives the mock band so longer, more developed essays score higher
+const MOCK_LEVELS: { minWords: number; cefrLevel: string; ieltsScore: string; estimatedScore: number }[] = [
+  { minWords: 250, cefrLevel: 'B2', ieltsScore: '6.0', estimatedScore: 68 },
+  { minWords: 150, cefrLevel: 'B1', ieltsScore: '5.0', estimatedScore: 55 },
+  { minWords: 50, cefrLevel: 'A2', ieltsScore: '3.5', estimatedScore: 40 },
+  { minWords: 0, cefrLevel: 'A1', ieltsScore: '2.5', estimatedScore: 25 },
+];
+
+const findMockCorrections = (text: string): Correction[] => {
+  const found: { index: number; correction: Correction }[] = [];
+  for (const rule of MOCK_RULES) {
+    for (const match of text.matchAll(rule.pattern)) {
+      found.push({
+        index: match.index ?? 0,
+        correction: {
+          originalText: match[0],
+          suggestedText: rule.suggest(match[0]),
+          explanation: rule.explanation,
+          type: rule.type,
+        },
+      });
+    }
+  }
+  return found.sort((a, b) => a.index - b.index).map(f => f.correction);
+};
+
+const buildMockAnalysis = (text: string): EssayAnalysis => {
+  const corrections = findMockCorrections(text);
+  const wordCount = text.trim().split(/\s+/).filter(Boolean).length;
+  const level = MOCK_LEVELS.find(l => wordCount >= l.minWords) ?? MOCK_LEVELS[MOCK_LEVELS.length - 1];
+
+  let correctedEssay = text;
+  for (const rule of MOCK_RULES) {
+    correctedEssay = correctedEssay.replace(rule.pattern, rule.suggest);
+  }
+
+  return {
+    cefrLevel: level.cefrLevel,
+    ieltsScore: level.ieltsScore,
+    estimatedScore: Math.max(0, level.estimatedScore - corrections.length * 2),
+    generalFeedback: `[Mock analysis] The text has ${wordCount} words and ${corrections.length} detected issue(s). ` +
+      'Ideas are communicated clearly, but you should extend your vocabulary range and check spelling carefully.',
+    correctedEssay,
+    corrections,
+  };
+};
+
+const buildMockCriteria = (analysis: EssayAnalysis): WritingCriteria => {
+  const base = Math.round(parseFloat(analysis.ieltsScore));
+  const grammarErrors = analysis.corrections.filter(c => c.type === 'grammar').length;
+  const spellingErrors = analysis.corrections.filter(c => c.type === 'spelling').length;
+  const band = (value: number) => Math.max(1, Math.min(9, value));
+  return {
+    taskResponse: { band: band(base), justification: '[Mock] The main ideas are addressed but not fully extended.' },
+    coherenceCohesion: { band: band(base + 1), justification: '[Mock] Paragraphing is logical with some cohesive devices.' },
+    lexicalResource: { band: band(base - Math.min(1, spellingErrors)), justification: '[Mock] Vocabulary is adequate; some spelling errors.' },
+    grammaticalRange: { band: band(base - Math.min(2, grammarErrors)), justification: '[Mock] A mix of simple and complex sentences with recurring errors.' },
+  };
+};
+
+// Relevance from the share of the question's content words that the essay reuses
+const buildMockRelevance = (text: string, task: WritingTask): TaskRelevance => {
+  const contentWords = (s: string) => new Set(s.toLowerCase().match(/[a-z]{5,}/g) ?? []);
+  const questionWords = contentWords(task.question);
+  const essayWords = contentWords(text);
+  const shared = [...questionWords].filter(w => essayWords.has(w));
+  const ratio = questionWords.size ? shared.length / questionWords.size : 0;
+  const verdict: TaskRelevance['verdict'] = ratio >= 0.3 ? 'relevant' : ratio >= 0.1 ? 'partially-relevant' : 'off-topic';
+  return {
+    verdict,
+    explanation: `[Mock] The essay reuses ${shared.length} of ${questionWords.size} key words from the question.`,
+  };
+};
+
+// Delay between simulated stream chunks
+const MOCK_STREAM_STEP_MS = 150;
+
+const analyzeEssay = async (text: string, _model: GeminiModel, options: EssayAnalysisOptions = {}): Promise<EssayAnalysis> => {
+  if (!text || text.trim().length < 10) {
+    throw new Error("Text is too short to analyze.");
+  }
+  const { task, onProgress, signal } = options;
+  await delay(MOCK_LATENCY_MS, signal);
+  const base = buildMockAnalysis(text);
+  const analysis: EssayAnalysis = {
+    ...base,
+    criteria: buildMockCriteria(base),
+    taskRelevance: task ? buildMockRelevance(text, task) : undefined,
+  };
+
+  // Replay the result field by field, then correction by correction, like a streamed response
+  if (onProgress) {
+    const { corrections, ...fields } = analysis;
+    onProgress(fields);
+    for (let i = 1; i <= corrections.length; i++) {
+      await delay(MOCK_STREAM_STEP_MS, signal);
+      onProgress({ ...fields, corrections: corrections.slice(0, i) });
+    }
+  }
+  return validated(analysis, (value) => validateEssayAnalysis(value, task ? ['criteria', 'taskRelevance'] : ['criteria']));
+};
+
+const transcribeImage = async (_base64Image: string, _mimeType: string, signal?: AbortSignal): Promise<string> => {
+  await delay(MOCK_LATENCY_MS, signal);
+  return 'Nowadays alot of peoples use the internet to find informations. In my opinion this is very good, but i think it also has some disadvantages.';
+};
+
+// --- Speaking Mode ---
+
+const MOCK_EXAMINER_QUESTIONS: Record<SpeakingPart, string[]> = {
+  1: [
+    "Good morning. Could you tell me your full name, please?",
+    "Let's talk about where you live. Do you live in a house or a flat?",
+    "What do you like most about your neighbourhood?",
+    "Do you work or are you a student?",
+    "What do you enjoy doing in your free time?",
+    "How often do you read books?",
+    "Do you prefer spending time indoors or outdoors? Why?",
+  ],
+  2: [
+    "Thank you. You can stop there. Do you think you will do this again?",
+  ],
+  3: [
+    "We've been talking about your cue card topic. Why do you think people feel differently about this?",
+    "How has this changed compared to your parents' generation?",
+    "Do you think governments should play a bigger role here?",
+    "What might this look like in twenty years?",
+  ],
+};
+
+// Examiner lines that open each stage of the test
+const MOCK_STAGE_OPENINGS: Record<TestStage, string> = {
+  part1: MOCK_EXAMINER_QUESTIONS[1][0],
+  prep: "Now I'm going to give you a topic and I'd like you to talk about it for one to two minutes. You have one minute to think about what you are going to say. You can make some notes if you wish.",
+  'long-turn': "All right? Remember you have one to two minutes for this. Please start speaking now.",
+  part3: MOCK_EXAMINER_QUESTIONS[3][0],
+};
+
+const nextExaminerQuestion = (history: ChatMessage[], part: SpeakingPart = currentPart(history) ?? 1) => {
+  const questions = MOCK_EXAMINER_QUESTIONS[part];
+  const asked = history.filter(m => m.role === 'model' && (m.part ?? 1) === part).length;
+  return questions[asked % questions.length];
+};
+
+const getExaminerResponse = async (history: ChatMessage[], _model: GeminiModel, options: ExaminerOptions = {}): Promise<string> => {
+  await delay(MOCK_LATENCY_MS, options.signal);
+  // A stage instruction from the app is answered with that stage's opening line
+  const last = history[history.length - 1];
+  const stage = last?.role === 'user' ? stageOfInstruction(last.text) : null;
+  return stage ? MOCK_STAGE_OPENINGS[stage] : nextExaminerQuestion(history);
+};
+
+// Every 4 seconds of microphone audio counts as one user turn, whatever the chunk size
+const MOCK_SECONDS_PER_TURN = 4;
+
+// Seconds of 16-bit PCM in a base64 chunk sent as `audio/pcm;rate=N`
+const pcmSeconds = ({ mimeType, data }: { mimeType: string; data: string }) => {
+  const rate = Number(/rate=(\d+)/.exec(mimeType)?.[1] ?? 16000);
+  return (data.length * 3) / 4 / 2 / rate;
+};
+
+const createLiveSession = async (callbacks: LiveSessionCallbacks, options: ExaminerOptions = {}): Promise<LiveSessionHandle> => {
+  const { signal } = options;
+  throwIfAborted(signal);
+  const history: ChatMessage[] = [];
+  let stage: TestStage = 'part1';
+  let seconds = 0;
+  let answers = 0;
+  let closed = false;
+
+  const examinerSays = (text: string) => {
+    history.push({ role: 'model', text, part: TEST_STAGES[stage].part });
+    callbacks.onmessage({ serverContent: { outputTranscription: { text } } });
+    callbacks.onmessage({ serverContent: { turnComplete: true } });
+  };
+
+  setTimeout(() => {
+    if (closed) return;
+    callbacks.onopen?.();
+  }, MOCK_LATENCY_MS);
+
+  const session: LiveSessionHandle = {
+    sendRealtimeInput: ({ media }) => {
+      if (closed) return;
+      seconds += pcmSeconds(media);
+      if (seconds < MOCK_SECONDS_PER_TURN) return;
+      seconds -= MOCK_SECONDS_PER_TURN;
+      answers++;
+
+      const answer = `This is mock answer number ${answers}, i think it is very good.`;
+      history.push({ role: 'user', text: answer, part: TEST_STAGES[stage].part });
+      callbacks.onmessage({ serverContent: { inputTranscription: { text: answer } } });
+      // The examiner does not interrupt the long turn
+      if (stage === 'long-turn') {
+        callbacks.onmessage({ serverContent: { turnComplete: true } });
+        return;
+      }
+      examinerSays(nextExaminerQuestion(history, TEST_STAGES[stage].part));
+    },
+    sendClientContent: ({ turns }) => {
+      if (closed) return;
+      const text = turns[turns.length - 1]?.parts.map(p => p.text).join('') ?? '';
+
+      // A resumed session takes over the replayed conversation and carries on in the same stage
+      const resumed = stageOfResume(text);
+      if (resumed) {
+        stage = resumed;
+        history.push(...turns.slice(0, -1).map(t => ({ role: t.role, text: t.parts.map(p => p.text).join('') })));
+        answers = history.filter(m => m.role === 'user').length;
+        setTimeout(() => {
+          if (closed || stage === 'prep') return;
+          const carryOn = stage === 'long-turn' ? 'Please carry on with your talk.' : nextExaminerQuestion(history, TEST_STAGES[stage].part);
+          examinerSays(`Sorry about that, we lost the connection for a moment. ${carryOn}`);
+        }, MOCK_LATENCY_MS);
+        return;
+      }
+
+      const next = stageOfInstruction(text);
+      if (!next) return;
+      stage = next;
+      setTimeout(() => {
+        if (!closed) examinerSays(MOCK_STAGE_OPENINGS[next]);
+      }, MOCK_LATENCY_MS);
+    },
+    close: () => {
+      if (closed) return;
+      closed = true;
+      callbacks.onclose?.(new CloseEvent('close'));
+    },
+  };
+  signal?.addEventListener('abort', () => session.close(), { once: true });
+  return session;
+};
+
+const buildMockSpeakingCriteria = (analysis: EssayAnalysis, hasAudio: boolean): SpeakingCriteria => {
+  const base = Math.round(parseFloat(analysis.ieltsScore));
+  const grammarErrors = analysis.corrections.filter(c => c.type === 'grammar').length;
+  const vocabularyErrors = analysis.corrections.filter(c => c.type === 'vocabulary').length;
+  const band = (value: number) => Math.max(1, Math.min(9, value));
+  return {
+    fluencyCoherence: { band: band(base), justification: '[Mock] Answers are extended with some hesitation and repetition.' },
+    lexicalResource: { band: band(base - Math.min(1, vocabularyErrors)), justification: '[Mock] Vocabulary is adequate for familiar topics.' },
+    grammaticalRange: { band: band(base - Math.min(2, grammarErrors)), justification: '[Mock] Simple structures are accurate; complex ones contain errors.' },
+    ...(hasAudio && { pronunciation: { band: band(base + 1), justification: '[Mock] Generally intelligible; word stress is sometimes misplaced.' } }),
+  };
+};
+
+const analyzeSpeakingSession = async (history: ChatMessage[], _model: GeminiModel, options: SpeakingAnalysisOptions = {}): Promise<SpeakingAnalysis> => {
+  const { fluency, audio, signal } = options;
+  await delay(MOCK_LATENCY_MS, signal);
+  const userText = history.filter(m => m.role === 'user').map(m => m.text).join('\n');
+  const parts = [...new Set(history.map(m => m.part).filter(part => part !== undefined))].sort();
+  const mockAnalysis = buildMockAnalysis(userText);
+  const analysis: SpeakingAnalysis = {
+    ...mockAnalysis,
+    generalFeedback: fluency ? `${mockAnalysis.generalFeedback} Measured fluency: ${formatFluencySummary(fluency)}.` : mockAnalysis.generalFeedback,
+    speakingCriteria: buildMockSpeakingCriteria(mockAnalysis, Boolean(audio)),
+    ...(parts.length > 0 && {
+      partFeedback: parts.map(part => {
+        const answers = history.filter(m => m.role === 'user' && m.part === part).length;
+        return { part, feedback: `[Mock] You gave ${answers} answer${answers === 1 ? '' : 's'} in Part ${part}.` };
+      }),
+    }),
+  };
+  const required = [...(parts.length > 0 ? ['partFeedback' as const] : []), ...(audio ? ['pronunciation' as const] : [])];
+  return validated(analysis, (value) => validateSpeakingAnalysis(value, required));
+};
+
+// --- Translation ---
+
+// Tiny Russian-English glossary; unknown words are passed through with a marker
+const MOCK_GLOSSARY: [string, string][] = [
+  ['привет', 'hello'],
+  ['мир', 'world'],
+  ['дом', 'house'],
+  ['книга', 'book'],
+  ['вода', 'water'],
+  ['друг', 'friend'],
+  ['работа', 'work'],
+  ['время', 'time'],
+  ['хорошо', 'good'],
+  ['спасибо', 'thank you'],
+];
+
+// Rough script-based guess standing in for the model's language detection
+const MOCK_LANGUAGE_HINTS: [RegExp, TranslationLanguage][] = [
+  [/[әғқңөұһ]/i, 'kk'],
+  [/[їєґ]/i, 'uk'],
+  [/[ўі]/i, 'be'],
+  [/[\u0400-\u04FF]/, 'ru'],
+  [/[\u0530-\u058F]/, 'hy'],
+  [/[\u10A0-\u10FF]/, 'ka'],
+  [/(o‘|g‘|o'|g')/i, 'uz'],
+];
+
+const detectMockLanguage = (text: string): TranslationLanguage =>
+  MOCK_LANGUAGE_HINTS.find(([pattern]) => pattern.test(text))?.[1] ?? 'en';
+
+const translateWithNuance = async (
+  text: string,
+  from: TranslationSource,
+  to: TranslationLanguage,
+  _model: GeminiModel,
+  signal?: AbortSignal
+): Promise<TranslationResult> => {
+  await delay(MOCK_LATENCY_MS, signal);
+  const source = from === 'auto' ? detectMockLanguage(text) : from;
+  const words = text.trim().split(/\s+/).filter(Boolean);
+  // The glossary only knows Russian and English; anything else is passed through
+  const lookup = (word: string) => {
+    const clean = word.toLowerCase().replace(/[^\p{L}]/gu, '');
+    const pair = MOCK_GLOSSARY.find(([ru, en]) => (source === 'en' ? en : ru) === clean);
+    if (!pair) return `[${word}]`;
+    if (to === 'en') return pair[1];
+    return to === 'ru' ? pair[0] : `[${pair[1]}]`;
+  };
+
+  return validated({
+    detectedLanguage: source,
+    segments: words.map(word => ({
+      text: lookup(word),
+      definition: `[Mock] Translation of "${word}".`,
+      alternatives: words.length === 1 ? [{ text: `${lookup(word)} (alt)`, definition: '[Mock] Alternative meaning.' }] : undefined,
+    })),
+  }, validateTranslationResult);
+};
+
+export const mockProvider: AIProvider = {
+  id: 'mock',
+  label: 'Offline Mock',
+  analyzeEssay,
+  transcribeImage,
+  getExaminerResponse,
+  createLiveSession,
+  analyzeSpeakingSession,
+  translateWithNuance,
+};
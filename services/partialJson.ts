@@ -0,0 +1,137 @@
+// --- Partial JSON Parsing ---
+// Parses the prefix of a JSON document that is still being streamed.
+// Rules chosen for progressive rendering:
+//  - object properties appear once their value is complete; strings also appear while still streaming
+//  - array elements appear only once complete, so list items never show half-filled
+//  - numbers and literals cut off at the end of the input are treated as not yet available
+
+interface ParseResult {
+  value: unknown;
+  complete: boolean;
+}
+
+const INCOMPLETE: ParseResult = { value: undefined, complete: false };
+
+// Models occasionally emit raw control characters inside strings; keep the text as-is then
+const decodeString = (raw: string): string => {
+  try {
+    return JSON.parse(`"${raw}"`);
+  } catch {
+    return raw;
+  }
+};
+
+export const parsePartialJson = (input: string): unknown => {
+  let pos = 0;
+
+  const atEnd = () => pos >= input.length;
+
+  const skipWhitespace = () => {
+    while (pos < input.length && /\s/.test(input[pos])) pos++;
+  };
+
+  const parseValue = (): ParseResult => {
+    skipWhitespace();
+    if (atEnd()) return INCOMPLETE;
+    const ch = input[pos];
+    if (ch === '{') return parseObject();
+    if (ch === '[') return parseArray();
+    if (ch === '"') return parseString();
+    return parseLiteral();
+  };
+
+  const parseObject = (): ParseResult => {
+    const result: Record<string, unknown> = {};
+    pos++; // {
+    while (true) {
+      skipWhitespace();
+      if (atEnd()) return { value: result, complete: false };
+      if (input[pos] === '}') {
+        pos++;
+        return { value: result, complete: true };
+      }
+      if (input[pos] === ',') {
+        pos++;
+        continue;
+      }
+
+      const key = parseString();
+      if (!key.complete) return { value: result, complete: false };
+      skipWhitespace();
+      if (atEnd() || input[pos] !== ':') return { value: result, complete: false };
+      pos++; // :
+
+      const value = parseValue();
+      if (value.complete || typeof value.value === 'string') {
+        result[key.value as string] = value.value;
+      }
+      if (!value.complete) return { value: result, complete: false };
+    }
+  };
+
+  const parseArray = (): ParseResult => {
+    const result: unknown[] = [];
+    pos++; // [
+    while (true) {
+      skipWhitespace();
+      if (atEnd()) return { value: result, complete: false };
+      if (input[pos] === ']') {
+        pos++;
+        return { value: result, complete: true };
+      }
+      if (input[pos] === ',') {
+        pos++;
+        continue;
+      }
+
+      const item = parseValue();
+      if (!item.complete) return { value: result, complete: false };
+      result.push(item.value);
+    }
+  };
+
+  const parseString = (): ParseResult => {
+    if (input[pos] !== '"') return INCOMPLETE;
+    let raw = '';
+    pos++; // opening quote
+    while (!atEnd()) {
+      const ch = input[pos];
+      if (ch === '\\') {
+        // Leave a cut-off escape sequence for the next chunk
+        const length = input[pos + 1] === 'u' ? 6 : 2;
+        const escape = input.slice(pos, pos + length);
+        if (escape.length < length) break;
+        raw += escape;
+        pos += length;
+        continue;
+      }
+      if (ch === '"') {
+        pos++;
+        return { value: decodeString(raw), complete: true };
+      }
+      raw += ch;
+      pos++;
+    }
+    return { value: decodeString(raw), complete: false };
+  };
+
+  const parseLiteral = (): ParseResult => {
+    const match = /^-?[\w.+-]+/.exec(input.slice(pos));
+    if (!match) return INCOMPLETE;
+    pos += match[0].length;
+    // A literal running into the end of input may still be growing (e.g. "6" of "65")
+    if (atEnd()) return INCOMPLETE;
+    try {
+      return { value: JSON.parse(match[0]), complete: true };
+    } catch {
+      return INCOMPLETE;
+    }
+  };
+
+  try {
+    skipWhitespace();
+    return atEnd() ? undefined : parseValue().value;
+  } catch {
+    return undefined;
+  }
+};
@@ -0,0 +1,151 @@
+import { TaskChart, WritingTask } from "../types";
+
+// --- Writing Prompt Bank ---
+// Built-in practice questions ship with the app; learners' own questions live in localStorage.
+// Academic Task 1 questions carry their chart data, which is shown as a table.
+
+const CUSTOM_PROMPTS_KEY = 'ttfotg-custom-prompts';
+
+export const BUILT_IN_PROMPTS: WritingTask[] = [
+  {
+    id: 'ac-1',
+    type: 'task1-academic',
+    topic: 'Environment',
+    question: 'The line graph shows household recycling rates in four European countries between 2000 and 2020. Summarise the information by selecting and reporting the main features, and make comparisons where relevant.',
+    chart: {
+      title: 'Household waste recycled, 2000–2020',
+      unit: '%',
+      columns: ['2000', '2005', '2010', '2015', '2020'],
+      rows: [
+        { label: 'Germany', values: [48, 56, 62, 66, 67] },
+        { label: 'United Kingdom', values: [11, 26, 40, 44, 46] },
+        { label: 'Italy', values: [14, 19, 32, 44, 51] },
+        { label: 'Poland', values: [2, 5, 17, 32, 39] },
+      ],
+    },
+  },
+  {
+    id: 'ac-2',
+    type: 'task1-academic',
+    topic: 'Education',
+    question: 'The bar chart compares the number of male and female graduates in five subjects at a UK university in 2010 and 2020. Summarise the information by selecting and reporting the main features, and make comparisons where relevant.',
+    chart: {
+      title: 'Graduates by subject and sex, 2010 and 2020',
+      unit: 'graduates',
+      columns: ['Male 2010', 'Female 2010', 'Male 2020', 'Female 2020'],
+      rows: [
+        { label: 'Engineering', values: [420, 90, 460, 180] },
+        { label: 'Medicine', values: [210, 230, 190, 320] },
+        { label: 'Law', values: [160, 150, 140, 240] },
+        { label: 'Education', values: [60, 260, 70, 250] },
+        { label: 'Computer Science', values: [310, 50, 520, 130] },
+      ],
+    },
+  },
+  {
+    id: 'ac-3',
+    type: 'task1-academic',
+    topic: 'Technology',
+    question: 'The pie charts show how people in one country accessed the internet in 2005 and 2025. Summarise the information by selecting and reporting the main features, and make comparisons where relevant.',
+    chart: {
+      title: 'Main device used to go online, 2005 and 2025',
+      unit: '% of internet users',
+      columns: ['2005', '2025'],
+      rows: [
+        { label: 'Desktop computer', values: [71, 9] },
+        { label: 'Laptop', values: [22, 24] },
+        { label: 'Mobile phone', values: [4, 58] },
+        { label: 'Tablet', values: [0, 6] },
+        { label: 'Other (TV, games console)', values: [3, 3] },
+      ],
+    },
+  },
+  {
+    id: 'gt-1',
+    type: 'task1-general',
+    topic: 'Housing',
+    question: 'You recently rented a flat and several appliances are not working. Write a letter to your landlord. In your letter: describe the problems, explain how they affect you, and say what you would like the landlord to do.',
+  },
+  {
+    id: 'gt-2',
+    type: 'task1-general',
+    topic: 'Work',
+    question: 'You would like to take a week off work to attend a family event. Write a letter to your manager. In your letter: explain why you need the time off, suggest how your work could be covered, and say when you will return.',
+  },
+  {
+    id: 'gt-3',
+    type: 'task1-general',
+    topic: 'Community',
+    question: 'A new park is being planned in your neighbourhood. Write a letter to the local council. In your letter: say why you support the plan, suggest some facilities the park should have, and offer to help.',
+  },
+  {
+    id: 't2-1',
+    type: 'task2',
+    topic: 'Education',
+    question: 'Some people believe that university education should be free for all students. Others think students should pay for their own studies. Discuss both views and give your own opinion.',
+  },
+  {
+    id: 't2-2',
+    type: 'task2',
+    topic: 'Technology',
+    question: 'In many countries, people spend more and more time on their smartphones. Do the advantages of this trend outweigh the disadvantages?',
+  },
+  {
+    id: 't2-3',
+    type: 'task2',
+    topic: 'Environment',
+    question: 'Some people think that environmental problems are too big for individuals to solve. To what extent do you agree or disagree?',
+  },
+  {
+    id: 't2-4',
+    type: 'task2',
+    topic: 'Work',
+    question: 'More and more people are choosing to work from home. What are the causes of this, and is it a positive or negative development?',
+  },
+  {
+    id: 't2-5',
+    type: 'task2',
+    topic: 'Health',
+    question: 'Governments should spend more money on preventing illness than on treating it. To what extent do you agree or disagree?',
+  },
+  {
+    id: 't2-6',
+    type: 'task2',
+    topic: 'Society',
+    question: 'In some countries, young people are encouraged to take a year off between school and university to work or travel. Discuss the advantages and disadvantages for young people who decide to do this.',
+  },
+];
+
+// The chart as a plain-text table, as the model receives it
+export const formatTaskChart = (chart: TaskChart): string => [
+  `${chart.title} (${chart.unit})`,
+  ['', ...chart.columns].join(' | '),
+  ...chart.rows.map(row => [row.label, ...row.values].join(' | ')),
+].join('\n');
+
+export const loadCustomPrompts = (): WritingTask[] => {
+  try {
+    const raw = localStorage.getItem(CUSTOM_PROMPTS_KEY);
+    return raw ? (JSON.parse(raw) as WritingTask[]) : [];
+  } catch (e) {
+    console.error("Failed to load custom prompts", e);
+    return [];
+  }
+};
+
+const storeCustomPrompts = (prompts: WritingTask[]) => {
+  localStorage.setItem(CUSTOM_PROMPTS_KEY, JSON.stringify(prompts));
+};
+
+export const addCustomPrompt = (prompt: Omit<WritingTask, 'id' | 'isCustom'>): WritingTask[] => {
+  const created: WritingTask = { ...prompt, id: `custom-${Date.now()}`, isCustom: true };
+  const prompts = [...loadCustomPrompts(), created];
+  storeCustomPrompts(prompts);
+  return prompts;
+};
+
+export const removeCustomPrompt = (id: string): WritingTask[] => {
+  const prompts = loadCustomPrompts().filter(p => p.id !== id);
+  storeCustomPrompts(prompts);
+  return prompts;
+};
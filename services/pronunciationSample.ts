@@ -0,0 +1,63 @@
+import { ChatMessage } from "../types";
+import { InlineAudio } from "./aiProvider";
+import { SessionRecorder } from "./sessionRecorder";
+import { encodeWav } from "./wav";
+
+// --- Pronunciation Sample ---
+// Pronunciation cannot be judged from a transcript, so the speaking analysis is sent a clip
+// of the learner's own recorded answers. The longest answers are picked first, since they
+// show connected speech, stress and intonation best, then joined in the order they were
+// given. The clip is capped so the request stays small.
+
+const MAX_SAMPLE_SECONDS = 90;
+const GAP_SECONDS = 0.5; // Silence between joined answers
+
+// btoa takes a string, so the bytes are converted in slices to keep the call stack small
+const bytesToBase64 = (bytes: Uint8Array) => {
+  let binary = '';
+  for (let i = 0; i < bytes.length; i += 0x8000) {
+    binary += String.fromCharCode(...bytes.subarray(i, i + 0x8000));
+  }
+  return btoa(binary);
+};
+
+export const buildPronunciationSample = async (
+  messages: ChatMessage[],
+  recorder?: SessionRecorder | null
+): Promise<InlineAudio | undefined> => {
+  if (!recorder) return undefined;
+  const answers = messages
+    .map((m, index) => ({ audio: m.audio, index, role: m.role }))
+    .filter(a => a.role === 'user' && a.audio)
+    .map(a => ({ index: a.index, ...recorder.segmentSamples('user', a.audio!) }))
+    .filter(a => a.samples.length > 0);
+  if (answers.length === 0) return undefined;
+
+  const sampleRate = answers[0].sampleRate;
+  const budget = MAX_SAMPLE_SECONDS * sampleRate;
+  let used = 0;
+  const chosen: typeof answers = [];
+  for (const answer of [...answers].sort((a, b) => b.samples.length - a.samples.length)) {
+    if (used >= budget) break;
+    // The answer that crosses the cap is cut short rather than dropped
+    const samples = answer.samples.subarray(0, budget - used);
+    chosen.push({ ...answer, samples });
+    used += samples.length;
+  }
+  chosen.sort((a, b) => a.index - b.index);
+
+  const gap = Math.round(GAP_SECONDS * sampleRate);
+  const clip = new Int16Array(used + gap * (chosen.length - 1));
+  let offset = 0;
+  for (const answer of chosen) {
+    clip.set(answer.samples, offset);
+    offset += answer.samples.length + gap;
+  }
+
+  const wav = encodeWav(clip, sampleRate);
+  return {
+    data: bytesToBase64(new Uint8Array(await wav.arrayBuffer())),
+    mimeType: wav.type,
+    seconds: Math.round(clip.length / sampleRate),
+  };
+};
@@ -0,0 +1,377 @@
+import {
+  EssayAnalysis, SpeakingAnalysis, GeminiModel, WritingTask, WritingCriteria, SpeakingCriteria, CriterionBand, MODEL_LABELS,
+  WRITING_CRITERIA_LABELS, SPEAKING_CRITERIA_LABELS, WRITING_TASK_LABELS, TASK_RELEVANCE_LABELS, SPEAKING_PART_LABELS,
+} from "../types";
+import { anchorInText, isAnchored } from "./correctionAnchors";
+import { formatBand } from "./ieltsScoring";
+import { formatFluencySummary } from "./fluencyMetrics";
+import { createZip } from "./zip";
+
+// --- Report Export ---
+// Builds a printable report of one analysis: scores, feedback, the text with inline
+// corrections, the numbered correction list and the corrected version. Everything is
+// generated in the browser; PDF goes through the browser's "Save as PDF" print target.
+
+export type ReportFormat = 'pdf' | 'docx' | 'markdown';
+
+export const REPORT_FORMAT_LABELS: Record<ReportFormat, string> = {
+  pdf: 'PDF',
+  docx: 'Word (DOCX)',
+  markdown: 'Markdown',
+};
+
+export interface ReportSource {
+  mode: 'writing' | 'speaking';
+  text: string;            // The analysed essay or transcript
+  analysis: EssayAnalysis | SpeakingAnalysis;
+  model?: GeminiModel;
+  task?: WritingTask;
+  createdAt?: number;
+}
+
+// The text split into plain runs and corrected spans; `number` refers to the correction list
+type ReportPiece =
+  | { kind: 'text'; text: string }
+  | { kind: 'correction'; text: string; suggestion: string; number: number };
+
+const formatDuration = (seconds: number) => `${Math.floor(seconds / 60)}:${String(seconds % 60).padStart(2, '0')}`;
+
+const capitalize = (s: string) => s.charAt(0).toUpperCase() + s.slice(1);
+
+const splitIntoPieces = (text: string, analysis: EssayAnalysis): ReportPiece[] => {
+  // Speaking corrections are anchored per message; locate them in the transcript now
+  const corrections = anchorInText(text, analysis.corrections);
+
+  const anchored = corrections
+    .map((c, i) => ({ ...c, number: i + 1 }))
+    .filter(isAnchored)
+    .sort((a, b) => a.start - b.start);
+
+  const pieces: ReportPiece[] = [];
+  let cursor = 0;
+  for (const c of anchored) {
+    if (c.start < cursor || c.end > text.length) continue;
+    if (c.start > cursor) pieces.push({ kind: 'text', text: text.slice(cursor, c.start) });
+    pieces.push({ kind: 'correction', text: text.slice(c.start, c.end), suggestion: c.suggestedText, number: c.number });
+    cursor = c.end;
+  }
+  if (cursor < text.length) pieces.push({ kind: 'text', text: text.slice(cursor) });
+  return pieces;
+};
+
+// Everything except the annotated text, as label/value pairs shared by all formats
+const describeReport = (source: ReportSource) => {
+  const { analysis } = source;
+  // Absent on writing analyses
+  const { speakingCriteria, fluency, partFeedback }: SpeakingAnalysis = analysis;
+  const title = source.mode === 'writing' ? 'IELTS Writing Report' : 'IELTS Speaking Report';
+  const meta = [
+    new Date(source.createdAt ?? Date.now()).toLocaleString(),
+    source.model && (MODEL_LABELS[source.model] ?? source.model),
+  ].filter(Boolean).join(' · ');
+
+  const scores: [string, string][] = [
+    ['CEFR level', analysis.cefrLevel],
+    ['IELTS band', analysis.ieltsScore],
+    ['Assessment', `${analysis.estimatedScore}/100`],
+    ['Errors found', String(analysis.corrections.length)],
+  ];
+
+  const describeCriterion = (label: string, criterion?: CriterionBand) => criterion
+    ? { label, band: formatBand(criterion.band), justification: criterion.justification }
+    : { label, band: '–', justification: 'Not assessed: the session has no recording.' };
+  const criteria = analysis.criteria
+    ? (Object.keys(WRITING_CRITERIA_LABELS) as (keyof WritingCriteria)[]).map(key => describeCriterion(WRITING_CRITERIA_LABELS[key], analysis.criteria![key]))
+    : speakingCriteria
+      ? (Object.keys(SPEAKING_CRITERIA_LABELS) as (keyof SpeakingCriteria)[]).map(key => describeCriterion(SPEAKING_CRITERIA_LABELS[key], speakingCriteria[key]))
+      : [];
+
+  const notes: [string, string][] = [];
+  if (analysis.taskRelevance) {
+    notes.push(['Task relevance', `${TASK_RELEVANCE_LABELS[analysis.taskRelevance.verdict]}. ${analysis.taskRelevance.explanation}`]);
+  }
+  if (fluency) {
+    notes.push(['Fluency', formatFluencySummary(fluency)]);
+  }
+  partFeedback?.forEach(item => notes.push([SPEAKING_PART_LABELS[item.part], item.feedback]));
+  if (analysis.examResult) {
+    const exam = analysis.examResult;
+    notes.push(['Timed exam', [
+      `${formatDuration(exam.elapsedSeconds)} of ${formatDuration(exam.timeLimitSeconds)}`,
+      `${exam.wordCount} words (min ${exam.minWords})`,
+      exam.lengthPenalty > 0 && `under length: -${exam.lengthPenalty} Task Response`,
+      exam.autoSubmitted && 'auto-submitted',
+    ].filter(Boolean).join(' · ')]);
+  }
+
+  return {
+    title,
+    meta,
+    task: source.task ? { label: WRITING_TASK_LABELS[source.task.type], question: source.task.question } : null,
+    scores,
+    criteria,
+    notes,
+    textHeading: source.mode === 'writing' ? 'Your Essay' : 'Transcript',
+    correctedHeading: source.mode === 'writing' ? 'Corrected Essay' : 'Improved Transcript',
+    pieces: splitIntoPieces(source.text, analysis),
+  };
+};
+
+// --- Markdown ---
+
+const escapeMarkdown = (text: string) => text.replace(/([\\`*_~[\]<>#|])/g, '\\$1');
+
+// Keep single line breaks from the essay, which Markdown would otherwise join
+const markdownLines = (text: string) => escapeMarkdown(text).replace(/\n/g, '  \n');
+
+export const buildMarkdownReport = (source: ReportSource): string => {
+  const report = describeReport(source);
+  const { analysis } = source;
+  const lines: string[] = [`# ${report.title}`, '', `_${report.meta}_`, ''];
+
+  if (report.task) lines.push(`**${report.task.label}:** ${escapeMarkdown(report.task.question)}`, '');
+
+  lines.push('## Scores', '', '| | |', '|---|---|');
+  report.scores.forEach(([label, value]) => lines.push(`| ${label} | ${value} |`));
+  lines.push('');
+  report.criteria.forEach(c => lines.push(`- **${c.label}: ${c.band}** — ${escapeMarkdown(c.justification)}`));
+  if (report.criteria.length) lines.push('');
+  report.notes.forEach(([label, value]) => lines.push(`**${label}:** ${escapeMarkdown(value)}`, ''));
+
+  lines.push("## Examiner's Feedback", '', escapeMarkdown(analysis.generalFeedback), '');
+
+  lines.push(`## ${report.textHeading}`, '', report.pieces.map(piece => piece.kind === 'text'
+    ? markdownLines(piece.text)
+    : `~~${markdownLines(piece.text)}~~ **${markdownLines(piece.suggestion)}**<sup>[${piece.number}]</sup>`
+  ).join(''), '');
+
+  lines.push('## Corrections', '');
+  if (analysis.corrections.length === 0) lines.push('No corrections.');
+  analysis.corrections.forEach((c, i) => {
+    lines.push(`${i + 1}. **${capitalize(c.type)}:** ~~${escapeMarkdown(c.originalText)}~~ → **${escapeMarkdown(c.suggestedText)}**  `);
+    lines.push(`   ${escapeMarkdown(c.explanation)}`);
+  });
+  lines.push('');
+
+  lines.push(`## ${report.correctedHeading}`, '', markdownLines(analysis.correctedEssay), '');
+  return lines.join('\n');
+};
+
+// --- HTML (printed to PDF) ---
+
+const escapeHtml = (text: string) => text
+  .replace(/&/g, '&amp;')
+  .replace(/</g, '&lt;')
+  .replace(/>/g, '&gt;')
+  .replace(/"/g, '&quot;');
+
+const REPORT_STYLES = `
+  body { font-family: Inter, Arial, sans-serif; color: #0f172a; max-width: 760px; margin: 32px auto; padding: 0 24px; line-height: 1.5; }
+  h1 { font-size: 24px; margin-bottom: 4px; }
+  h2 { font-size: 16px; text-transform: uppercase; letter-spacing: 0.05em; color: #475569; border-bottom: 1px solid #e2e8f0; padding-bottom: 4px; margin-top: 28px; }
+  .meta { color: #64748b; font-size: 13px; }
+  table { border-collapse: collapse; }
+  td { padding: 4px 16px 4px 0; }
+  td:last-child { font-weight: 700; }
+  .essay { font-family: Merriweather, Georgia, serif; white-space: pre-wrap; font-size: 15px; line-height: 1.8; }
+  del { color: #dc2626; background: #fef2f2; }
+  ins { color: #15803d; text-decoration: none; font-weight: 700; margin-left: 2px; }
+  sup { color: #64748b; font-size: 10px; }
+  li { margin-bottom: 8px; }
+  @media print { body { margin: 0 auto; } }
+`;
+
+export const buildHtmlReport = (source: ReportSource): string => {
+  const report = describeReport(source);
+  const { analysis } = source;
+
+  const annotated = report.pieces.map(piece => piece.kind === 'text'
+    ? escapeHtml(piece.text)
+    : `<del>${escapeHtml(piece.text)}</del><ins>${escapeHtml(piece.suggestion)}</ins><sup>[${piece.number}]</sup>`
+  ).join('');
+
+  return `<!DOCTYPE html>
+<html lang="en">
+<head>
+<meta charset="UTF-8" />
+<title>${escapeHtml(report.title)}</title>
+<style>${REPORT_STYLES}</style>
+</head>
+<body>
+<h1>${escapeHtml(report.title)}</h1>
+<p class="meta">${escapeHtml(report.meta)}</p>
+${report.task ? `<p><strong>${escapeHtml(report.task.label)}:</strong> ${escapeHtml(report.task.question)}</p>` : ''}
+<h2>Scores</h2>
+<table>${report.scores.map(([label, value]) => `<tr><td>${label}</td><td>${escapeHtml(value)}</td></tr>`).join('')}</table>
+${report.criteria.length ? `<ul>${report.criteria.map(c =>
+  `<li><strong>${c.label}: ${c.band}</strong> — ${escapeHtml(c.justification)}</li>`).join('')}</ul>` : ''}
+${report.notes.map(([label, value]) => `<p><strong>${label}:</strong> ${escapeHtml(value)}</p>`).join('')}
+<h2>Examiner's Feedback</h2>
+<p>${escapeHtml(analysis.generalFeedback)}</p>
+<h2>${report.textHeading}</h2>
+<div class="essay">${annotated}</div>
+<h2>Corrections</h2>
+${analysis.corrections.length === 0 ? '<p>No corrections.</p>' : `<ol>${analysis.corrections.map(c =>
+  `<li><strong>${capitalize(c.type)}:</strong> <del>${escapeHtml(c.originalText)}</del> → <ins>${escapeHtml(c.suggestedText)}</ins><br />${escapeHtml(c.explanation)}</li>`
+).join('')}</ol>`}
+<h2>${report.correctedHeading}</h2>
+<div class="essay">${escapeHtml(analysis.correctedEssay)}</div>
+</body>
+</html>`;
+};
+
+// --- DOCX ---
+// A bare WordprocessingML package with direct run formatting, no styles part needed.
+
+interface RunFormat {
+  bold?: boolean;
+  italic?: boolean;
+  strike?: boolean;
+  superscript?: boolean;
+  color?: string;
+  size?: number; // Points
+}
+
+const escapeXml = (text: string) => escapeHtml(text).replace(/'/g, '&apos;');
+
+const docxRun = (text: string, format: RunFormat = {}) => {
+  const props = [
+    format.bold && '<w:b/>',
+    format.italic && '<w:i/>',
+    format.strike && '<w:strike/>',
+    format.color && `<w:color w:val="${format.color}"/>`,
+    format.size && `<w:sz w:val="${format.size * 2}"/>`,
+    format.superscript && '<w:vertAlign w:val="superscript"/>',
+  ].filter(Boolean).join('');
+  return `<w:r>${props ? `<w:rPr>${props}</w:rPr>` : ''}<w:t xml:space="preserve">${escapeXml(text)}</w:t></w:r>`;
+};
+
+const docxParagraph = (runs: string, spacingAfter = 120) =>
+  `<w:p><w:pPr><w:spacing w:after="${spacingAfter}"/></w:pPr>${runs}</w:p>`;
+
+const docxHeading = (text: string, size = 14) => docxParagraph(docxRun(text, { bold: true, size, color: '334155' }), 80);
+
+// Essay line breaks become separate paragraphs, even when they fall inside a correction
+const docxTextParagraphs = (pieces: ReportPiece[]) => {
+  const paragraphs: string[] = [];
+  let current = '';
+  const addText = (text: string, render: (part: string) => string) => {
+    text.split('\n').forEach((part, i) => {
+      if (i > 0) {
+        paragraphs.push(docxParagraph(current));
+        current = '';
+      }
+      if (part) current += render(part);
+    });
+  };
+
+  for (const piece of pieces) {
+    if (piece.kind === 'text') {
+      addText(piece.text, part => docxRun(part));
+    } else {
+      addText(piece.text, part => docxRun(part, { strike: true, color: 'DC2626' }));
+      addText(piece.suggestion, part => docxRun(part, { bold: true, color: '15803D' }));
+      current += docxRun(`[${piece.number}]`, { superscript: true, color: '64748B' });
+    }
+  }
+  paragraphs.push(docxParagraph(current));
+  return paragraphs.join('');
+};
+
+const DOCX_CONTENT_TYPES = `<?xml version="1.0" encoding="UTF-8" standalone="yes"?>
+<Types xmlns="http://schemas.openxmlformats.org/package/2006/content-types">
+<Default Extension="rels" ContentType="application/vnd.openxmlformats-package.relationships+xml"/>
+<Default Extension="xml" ContentType="application/xml"/>
+<Override PartName="/word/document.xml" ContentType="application/vnd.openxmlformats-officedocument.wordprocessingml.document.main+xml"/>
+</Types>`;
+
+const DOCX_RELATIONSHIPS = `<?xml version="1.0" encoding="UTF-8" standalone="yes"?>
+<Relationships xmlns="http://schemas.openxmlformats.org/package/2006/relationships">
+<Relationship Id="rId1" Type="http://schemas.openxmlformats.org/officeDocument/2006/relationships/officeDocument" Target="word/document.xml"/>
+</Relationships>`;
+
+export const buildDocxReport = (source: ReportSource): Blob => {
+  const report = describeReport(source);
+  const { analysis } = source;
+  const body: string[] = [
+    docxParagraph(docxRun(report.title, { bold: true, size: 20 }), 40),
+    docxParagraph(docxRun(report.meta, { italic: true, color: '64748B' })),
+  ];
+
+  if (report.task) body.push(docxParagraph(docxRun(`${report.task.label}: `, { bold: true }) + docxRun(report.task.question)));
+
+  body.push(docxHeading('Scores'));
+  report.scores.forEach(([label, value]) => body.push(docxParagraph(docxRun(`${label}: `) + docxRun(value, { bold: true }), 40)));
+  report.criteria.forEach(c => body.push(docxParagraph(docxRun(`${c.label}: ${c.band}`, { bold: true }) + docxRun(` — ${c.justification}`))));
+  report.notes.forEach(([label, value]) => body.push(docxParagraph(docxRun(`${label}: `, { bold: true }) + docxRun(value))));
+
+  body.push(docxHeading("Examiner's Feedback"), docxParagraph(docxRun(analysis.generalFeedback)));
+
+  body.push(docxHeading(report.textHeading), docxTextParagraphs(report.pieces));
+
+  body.push(docxHeading('Corrections'));
+  if (analysis.corrections.length === 0) body.push(docxParagraph(docxRun('No corrections.')));
+  analysis.corrections.forEach((c, i) => body.push(docxParagraph(
+    docxRun(`${i + 1}. ${capitalize(c.type)}: `, { bold: true }) +
+    docxRun(c.originalText, { strike: true, color: 'DC2626' }) +
+    docxRun(' → ') +
+    docxRun(c.suggestedText, { bold: true, color: '15803D' }) +
+    docxRun(` — ${c.explanation}`)
+  )));
+
+  body.push(docxHeading(report.correctedHeading), docxTextParagraphs([{ kind: 'text', text: analysis.correctedEssay }]));
+
+  const document = `<?xml version="1.0" encoding="UTF-8" standalone="yes"?>
+<w:document xmlns:w="http://schemas.openxmlformats.org/wordprocessingml/2006/main"><w:body>${body.join('')}</w:body></w:document>`;
+
+  return createZip([
+    { name: '[Content_Types].xml', content: DOCX_CONTENT_TYPES },
+    { name: '_rels/.rels', content: DOCX_RELATIONSHIPS },
+    { name: 'word/document.xml', content: document },
+  ], 'application/vnd.openxmlformats-officedocument.wordprocessingml.document');
+};
+
+// --- Delivery ---
+
+const downloadBlob = (blob: Blob, filename: string) => {
+  const url = URL.createObjectURL(blob);
+  const link = document.createElement('a');
+  link.href = url;
+  link.download = filename;
+  link.click();
+  setTimeout(() => URL.revokeObjectURL(url), 1000);
+};
+
+// Renders the report in a hidden frame and opens the print dialog, where "Save as PDF" is available
+const printHtml = (html: string) => {
+  const frame = document.createElement('iframe');
+  frame.style.cssText = 'position: fixed; width: 0; height: 0; border: 0;';
+  document.body.appendChild(frame);
+  const frameWindow = frame.contentWindow;
+  if (!frameWindow) {
+    frame.remove();
+    throw new Error("Could not open the print preview.");
+  }
+  frameWindow.document.open();
+  frameWindow.document.write(html);
+  frameWindow.document.close();
+  frameWindow.addEventListener('afterprint', () => frame.remove());
+  frameWindow.focus();
+  frameWindow.print();
+};
+
+export const exportReport = (source: ReportSource, format: ReportFormat) => {
+  const date = new Date(source.createdAt ?? Date.now()).toISOString().slice(0, 10);
+  const filename = `ielts-${source.mode}-report-${date}`;
+  switch (format) {
+    case 'pdf':
+      printHtml(buildHtmlReport(source));
+      break;
+    case 'docx':
+      downloadBlob(buildDocxReport(source), `${filename}.docx`);
+      break;
+    case 'markdown':
+      downloadBlob(new Blob([buildMarkdownReport(source)], { type: 'text/markdown' }), `${filename}.md`);
+      break;
+  }
+};
@@ -0,0 +1,48 @@
+import { RequestCancelledError } from "./aiErrors";
+
+// --- Retry With Backoff ---
+
+export interface RetryOptions {
+  signal?: AbortSignal;
+  retries?: number;      // Attempts after the first one
+  baseDelayMs?: number;  // Doubled after every failed attempt, plus jitter
+  isRetryable: (error: unknown) => boolean;
+}
+
+export const throwIfAborted = (signal?: AbortSignal) => {
+  if (signal?.aborted) throw new RequestCancelledError();
+};
+
+// Resolves after `ms`, or rejects as soon as the signal aborts
+export const sleep = (ms: number, signal?: AbortSignal) =>
+  new Promise<void>((resolve, reject) => {
+    if (signal?.aborted) {
+      reject(new RequestCancelledError());
+      return;
+    }
+    const timer = setTimeout(() => {
+      signal?.removeEventListener('abort', onAbort);
+      resolve();
+    }, ms);
+    const onAbort = () => {
+      clearTimeout(timer);
+      reject(new RequestCancelledError());
+    };
+    signal?.addEventListener('abort', onAbort, { once: true });
+  });
+
+export const withRetry = async <T>(run: () => Promise<T>, options: RetryOptions): Promise<T> => {
+  const { signal, retries = 3, baseDelayMs = 1000, isRetryable } = options;
+  for (let attempt = 0; ; attempt++) {
+    throwIfAborted(signal);
+    try {
+      return await run();
+    } catch (error) {
+      if (signal?.aborted) throw new RequestCancelledError();
+      if (attempt >= retries || !isRetryable(error)) throw error;
+      const delay = baseDelayMs * 2 ** attempt + Math.random() * baseDelayMs;
+      console.warn(`AI request failed, retrying in ${Math.round(delay)}ms (attempt ${attempt + 1}/${retries})`, error);
+      await sleep(delay, signal);
+    }
+  }
+};
@@ -0,0 +1,193 @@
+import { AudioSegment, ChatMessage } from "../types";
+import { encodeWav } from "./wav";
+
+// --- Speaking Session Recorder ---
+// Keeps both sides of a live session in memory: the learner's microphone PCM and the
+// examiner's audio, each placed on a shared timeline in seconds since recording started.
+// Turns are cut into segments as transcripts are committed, so every ChatMessage can be
+// played back on its own. Nothing leaves the browser unless the learner downloads it.
+
+export type RecordingFormat = 'wav' | 'opus';
+
+export const RECORDING_FORMAT_LABELS: Record<RecordingFormat, string> = {
+  wav: 'WAV (lossless)',
+  opus: 'Opus (compressed)',
+};
+
+export const INPUT_SAMPLE_RATE = 16000;
+export const OUTPUT_SAMPLE_RATE = 24000;
+
+// Frames quieter than this (RMS of 16-bit samples) count as silence
+const SILENCE_RMS = 500;
+export const SILENCE_FRAME_SECONDS = 0.02;
+const TRIM_PADDING_SECONDS = 0.25;
+
+interface Chunk {
+  at: number; // Seconds on the session timeline
+  samples: Int16Array;
+}
+
+interface Track {
+  sampleRate: number;
+  chunks: Chunk[];
+  taken: number; // Chunks already assigned to a segment
+}
+
+export interface SessionRecorder {
+  // Microphone audio at INPUT_SAMPLE_RATE; chunks are contiguous
+  recordInput: (samples: Int16Array) => void;
+  // Examiner audio at OUTPUT_SAMPLE_RATE, starting at `startTime` on the recorder's clock
+  recordOutput: (samples: Int16Array, startTime: number) => void;
+  // The audio recorded for a speaker since their previous segment
+  takeSegment: (role: ChatMessage['role']) => AudioSegment | undefined;
+  renderSegment: (role: ChatMessage['role'], segment: AudioSegment) => Blob;
+  segmentSamples: (role: ChatMessage['role'], segment: AudioSegment) => { samples: Int16Array; sampleRate: number };
+  stop: () => Promise<void>;
+  exportSession: (format: RecordingFormat) => Blob | null;
+  hasOpus: boolean; // Opus needs MediaRecorder support and a mixed stream
+}
+
+const chunkEnd = (chunk: Chunk, sampleRate: number) => chunk.at + chunk.samples.length / sampleRate;
+
+// Copies the part of a track between `start` and `end` into one buffer
+const renderTrack = (track: Track, start: number, end: number): Int16Array => {
+  const { sampleRate } = track;
+  const output = new Int16Array(Math.max(0, Math.round((end - start) * sampleRate)));
+  for (const chunk of track.chunks) {
+    if (chunk.at >= end || chunkEnd(chunk, sampleRate) <= start) continue;
+    const offset = Math.round((chunk.at - start) * sampleRate);
+    const from = Math.max(0, -offset);
+    const to = Math.min(chunk.samples.length, output.length - offset);
+    if (to > from) output.set(chunk.samples.subarray(from, to), offset + from);
+  }
+  return output;
+};
+
+// Whether each SILENCE_FRAME_SECONDS frame of the samples contains sound
+export const voicedFrames = (samples: Int16Array, sampleRate: number): boolean[] => {
+  const frame = Math.round(SILENCE_FRAME_SECONDS * sampleRate);
+  const voiced: boolean[] = [];
+  for (let i = 0; i + frame <= samples.length; i += frame) {
+    let sum = 0;
+    for (let j = i; j < i + frame; j++) sum += samples[j] * samples[j];
+    voiced.push(Math.sqrt(sum / frame) >= SILENCE_RMS);
+  }
+  return voiced;
+};
+
+// Narrows [start, end) to the part of the track that is not silence
+const trimSilence = (track: Track, start: number, end: number): AudioSegment | undefined => {
+  const voiced = voicedFrames(renderTrack(track, start, end), track.sampleRate);
+  const first = voiced.indexOf(true);
+  if (first === -1) return undefined;
+  const last = voiced.lastIndexOf(true) + 1;
+  return {
+    start: Math.max(start, start + first * SILENCE_FRAME_SECONDS - TRIM_PADDING_SECONDS),
+    end: Math.min(end, start + last * SILENCE_FRAME_SECONDS + TRIM_PADDING_SECONDS),
+  };
+};
+
+// Mixes both tracks at the examiner's sample rate; the microphone is upsampled linearly
+const mixTracks = (input: Track, output: Track, duration: number): Int16Array => {
+  const rate = OUTPUT_SAMPLE_RATE;
+  const mix = new Float32Array(Math.ceil(duration * rate));
+  renderTrack(output, 0, duration).forEach((sample, i) => { mix[i] += sample; });
+
+  const mic = renderTrack(input, 0, duration);
+  const ratio = input.sampleRate / rate;
+  for (let i = 0; i < mix.length; i++) {
+    const position = i * ratio;
+    const index = Math.floor(position);
+    if (index >= mic.length) break;
+    const next = mic[Math.min(index + 1, mic.length - 1)];
+    mix[i] += mic[index] + (next - mic[index]) * (position - index);
+  }
+  return Int16Array.from(mix, sample => Math.max(-32768, Math.min(32767, sample)));
+};
+
+const OPUS_MIME_TYPES = ['audio/ogg;codecs=opus', 'audio/webm;codecs=opus'];
+
+// `clock` returns the current time in seconds (the examiner's AudioContext time). When a
+// `mixStream` carrying both sides is given, it is also encoded to Opus in real time.
+export const createSessionRecorder = (clock: () => number, mixStream?: MediaStream): SessionRecorder => {
+  const origin = clock();
+  const input: Track = { sampleRate: INPUT_SAMPLE_RATE, chunks: [], taken: 0 };
+  const output: Track = { sampleRate: OUTPUT_SAMPLE_RATE, chunks: [], taken: 0 };
+  let inputEnd = 0;
+  let userSegmentEnd = 0;
+
+  const opusType = typeof MediaRecorder !== 'undefined' ? OPUS_MIME_TYPES.find(type => MediaRecorder.isTypeSupported(type)) : undefined;
+  const opusChunks: Blob[] = [];
+  let mediaRecorder: MediaRecorder | null = null;
+  if (mixStream && opusType) {
+    mediaRecorder = new MediaRecorder(mixStream, { mimeType: opusType });
+    mediaRecorder.ondataavailable = (e) => { if (e.data.size > 0) opusChunks.push(e.data); };
+    mediaRecorder.start(1000);
+  }
+
+  const duration = () => output.chunks.reduce((end, chunk) => Math.max(end, chunkEnd(chunk, output.sampleRate)), inputEnd);
+
+  return {
+    recordInput: (samples) => {
+      // The first chunk ends now; later chunks follow on without gaps
+      if (input.chunks.length === 0) inputEnd = Math.max(0, clock() - origin - samples.length / input.sampleRate);
+      input.chunks.push({ at: inputEnd, samples });
+      inputEnd += samples.length / input.sampleRate;
+    },
+
+    recordOutput: (samples, startTime) => {
+      output.chunks.push({ at: startTime - origin, samples });
+    },
+
+    takeSegment: (role) => {
+      if (role === 'model') {
+        const chunks = output.chunks.slice(output.taken);
+        output.taken = output.chunks.length;
+        if (chunks.length === 0) return undefined;
+        return { start: chunks[0].at, end: chunkEnd(chunks[chunks.length - 1], output.sampleRate) };
+      }
+      // An answer ends where the examiner's reply begins, if it has started already
+      const reply = output.chunks[output.taken];
+      const end = reply ? Math.min(inputEnd, reply.at) : inputEnd;
+      const segment = end > userSegmentEnd ? trimSilence(input, userSegmentEnd, end) : undefined;
+      userSegmentEnd = Math.max(userSegmentEnd, end);
+      return segment;
+    },
+
+    renderSegment: (role, segment) => {
+      const track = role === 'user' ? input : output;
+      return encodeWav(renderTrack(track, segment.start, segment.end), track.sampleRate);
+    },
+
+    segmentSamples: (role, segment) => {
+      const track = role === 'user' ? input : output;
+      return { samples: renderTrack(track, segment.start, segment.end), sampleRate: track.sampleRate };
+    },
+
+    stop: () => new Promise<void>(resolve => {
+      if (!mediaRecorder || mediaRecorder.state === 'inactive') return resolve();
+      mediaRecorder.onstop = () => resolve();
+      mediaRecorder.stop();
+    }),
+
+    exportSession: (format) => {
+      if (format === 'opus') {
+        return opusChunks.length > 0 ? new Blob(opusChunks, { type: opusType }) : null;
+      }
+      const length = duration();
+      return length > 0 ? encodeWav(mixTracks(input, output, length), OUTPUT_SAMPLE_RATE) : null;
+    },
+
+    hasOpus: Boolean(mediaRecorder),
+  };
+};
+
+export const downloadRecording = (blob: Blob, format: RecordingFormat) => {
+  const extension = format === 'wav' ? 'wav' : blob.type.includes('ogg') ? 'ogg' : 'webm';
+  const url = URL.createObjectURL(blob);
+  const link = document.createElement('a');
+  link.href = url;
+  link.download = `ielts-speaking-${new Date().toISOString().slice(0, 10)}.${extension}`;
+  link.click();
+  setTimeout(() => URL.revokeObjectURL(url), 1000);
+};
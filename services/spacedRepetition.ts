@@ -0,0 +1,38 @@
+import { Flashcard, ReviewGrade } from "../types";
+
+// --- Spaced Repetition ---
+// SM-2 (SuperMemo 2) scheduling. Each grade maps to an SM-2 quality from 0 to 5; a
+// recalled card waits 1 day, then 6, then the previous gap times its ease factor, and
+// the ease factor drifts with every answer. A forgotten card starts over and is due
+// again at once, so a review session keeps showing it until it is recalled.
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+export const INITIAL_EASE = 2.5;
+const MIN_EASE = 1.3;
+
+const GRADE_QUALITY: Record<ReviewGrade, number> = {
+  again: 1,
+  hard: 3,
+  good: 4,
+  easy: 5,
+};
+
+export const scheduleReview = (card: Flashcard, grade: ReviewGrade, now = Date.now()): Flashcard => {
+  const quality = GRADE_QUALITY[grade];
+  const easeFactor = Math.max(MIN_EASE, card.easeFactor + (0.1 - (5 - quality) * (0.08 + (5 - quality) * 0.02)));
+
+  if (quality < 3) {
+    return { ...card, easeFactor, repetitions: 0, intervalDays: 0, dueAt: now };
+  }
+
+  const repetitions = card.repetitions + 1;
+  const intervalDays = repetitions === 1 ? 1 : repetitions === 2 ? 6 : Math.round(card.intervalDays * easeFactor);
+  return { ...card, easeFactor, repetitions, intervalDays, dueAt: now + intervalDays * DAY_MS };
+};
+
+export const isDue = (card: Flashcard, now = Date.now()) => card.dueAt <= now;
+
+// "now", "1 day", "6 days" — shown on the grade buttons before answering
+export const formatInterval = (days: number) =>
+  days === 0 ? 'now' : days === 1 ? '1 day' : days < 30 ? `${days} days` : `${Math.round(days / 30)} mo`;
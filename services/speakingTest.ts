@@ -0,0 +1,127 @@
+import { ChatMessage, CueCard, SpeakingPart } from "../types";
+
+// --- IELTS Speaking Test Structure ---
+// The app keeps the clock and tells the examiner when to move on, so the model never has
+// to track time itself. Each stage starts with a control message sent as a text turn.
+
+export type TestStage = 'part1' | 'prep' | 'long-turn' | 'part3';
+
+export interface StageConfig {
+  part: SpeakingPart;
+  label: string;
+  seconds: number;     // The test moves on automatically when this runs out (except Part 3)
+  listening: boolean;  // Whether the microphone is streamed to the examiner
+}
+
+export const TEST_STAGES: Record<TestStage, StageConfig> = {
+  part1: { part: 1, label: 'Part 1 · Interview', seconds: 5 * 60, listening: true },
+  prep: { part: 2, label: 'Part 2 · Preparation', seconds: 60, listening: false },
+  'long-turn': { part: 2, label: 'Part 2 · Long turn', seconds: 2 * 60, listening: true },
+  part3: { part: 3, label: 'Part 3 · Discussion', seconds: 5 * 60, listening: true },
+};
+
+export const STAGE_ORDER: TestStage[] = ['part1', 'prep', 'long-turn', 'part3'];
+
+export const nextStage = (stage: TestStage): TestStage | null =>
+  STAGE_ORDER[STAGE_ORDER.indexOf(stage) + 1] ?? null;
+
+export const CUE_CARDS: CueCard[] = [
+  {
+    id: 'cc-1',
+    topic: 'Travel',
+    prompt: 'Describe a journey that you remember well.',
+    points: ['where you went', 'how you travelled', 'who you were with', 'and explain why you remember this journey so well.'],
+  },
+  {
+    id: 'cc-2',
+    topic: 'Education',
+    prompt: 'Describe a teacher who has influenced you.',
+    points: ['who this teacher was', 'what subject they taught', 'what was special about their lessons', 'and explain how they influenced you.'],
+  },
+  {
+    id: 'cc-3',
+    topic: 'Technology',
+    prompt: 'Describe a piece of technology that you find useful.',
+    points: ['what it is', 'when you started using it', 'how often you use it', 'and explain why you find it useful.'],
+  },
+  {
+    id: 'cc-4',
+    topic: 'Environment',
+    prompt: 'Describe a place in nature that you enjoy visiting.',
+    points: ['where it is', 'how often you go there', 'what you do there', 'and explain why you enjoy visiting this place.'],
+  },
+  {
+    id: 'cc-5',
+    topic: 'Work',
+    prompt: 'Describe a job you would like to do in the future.',
+    points: ['what the job is', 'what skills it requires', 'how you could get this job', 'and explain why you would like to do it.'],
+  },
+  {
+    id: 'cc-6',
+    topic: 'Society',
+    prompt: 'Describe a time when you helped someone.',
+    points: ['who you helped', 'what the situation was', 'how you helped them', 'and explain how you felt about it.'],
+  },
+];
+
+// Draws from the preferred topic areas when any cue card matches them
+export const pickCueCard = (topics: string[] = []): CueCard => {
+  const preferred = CUE_CARDS.filter(card => topics.includes(card.topic));
+  const pool = preferred.length > 0 ? preferred : CUE_CARDS;
+  return pool[Math.floor(Math.random() * pool.length)];
+};
+
+export const formatCueCard = (card: CueCard) =>
+  `${card.prompt}\nYou should say:\n${card.points.map(p => `- ${p}`).join('\n')}`;
+
+// --- Examiner Control Messages ---
+
+// Every control message starts with its tag so providers can tell them apart from speech
+const STAGE_TAGS: Record<TestStage, string> = {
+  part1: '[PART 1]',
+  prep: '[PART 2 PREPARATION]',
+  'long-turn': '[PART 2 LONG TURN]',
+  part3: '[PART 3]',
+};
+
+export const stageInstruction = (stage: TestStage, card: CueCard): string => {
+  const tag = STAGE_TAGS[stage];
+  switch (stage) {
+    case 'part1':
+      return `${tag} Begin Part 1. Greet the candidate, introduce yourself briefly and ask familiar questions about their home, work or studies and everyday topics.`;
+    case 'prep':
+      return `${tag} Part 1 is over. Tell the candidate you are moving on to Part 2, read out the cue card below and say they have one minute to prepare and may make notes. Then stay silent until told otherwise.\n\nCue card:\n${formatCueCard(card)}`;
+    case 'long-turn':
+      return `${tag} The preparation time is over. Ask the candidate to start speaking about the cue card now for one to two minutes. Do not interrupt them while they talk.`;
+    case 'part3':
+      return `${tag} Part 2 is over. Thank the candidate and begin Part 3: ask more abstract discussion questions linked to the topic "${card.topic}", following up on their answers.`;
+  }
+};
+
+// What the examiner should do first after a dropped connection has been restored
+const RESUME_TAG = '[RESUME]';
+const RESUME_NEXT_STEPS: Record<TestStage, string> = {
+  part1: 'Ask your next Part 1 question.',
+  prep: 'The candidate is still preparing, so stay silent until told otherwise.',
+  'long-turn': 'Briefly ask the candidate to carry on with their talk, then do not interrupt them.',
+  part3: 'Ask your next Part 3 question.',
+};
+
+// Sent after the earlier conversation has been replayed to a new session. The stage tag
+// is included so providers can tell which stage the test is resuming in.
+export const resumeInstruction = (stage: TestStage, card: CueCard): string => {
+  const cueCard = stage === 'prep' || stage === 'long-turn' ? `\n\nCue card:\n${formatCueCard(card)}` : '';
+  return `${RESUME_TAG} ${STAGE_TAGS[stage]} The connection dropped and has been restored; the conversation so far is above. Do not greet the candidate or restart the test. Apologise briefly for the interruption and continue ${TEST_STAGES[stage].label}. ${RESUME_NEXT_STEPS[stage]}${cueCard}`;
+};
+
+// The stage a resume message continues, or null for anything else
+export const stageOfResume = (text: string): TestStage | null =>
+  text.startsWith(RESUME_TAG) ? STAGE_ORDER.find(stage => text.includes(STAGE_TAGS[stage])) ?? null : null;
+
+// The stage a control message starts, or null for anything else
+export const stageOfInstruction = (text: string): TestStage | null =>
+  STAGE_ORDER.find(stage => text.startsWith(STAGE_TAGS[stage])) ?? null;
+
+// Part of the most recent tagged message, used by providers that only see the history
+export const currentPart = (history: ChatMessage[]): SpeakingPart | undefined =>
+  [...history].reverse().find(m => m.part !== undefined)?.part;
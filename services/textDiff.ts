@@ -0,0 +1,214 @@
+import { Correction } from "../types";
+import { isAnchored } from "./correctionAnchors";
+
+// --- Word-Level Diff ---
+// Compares the submitted text with the model's corrected version word by word.
+// Whitespace is carried along with the preceding word and never counts as a change,
+// so re-wrapped lines or double spaces do not show up as edits.
+
+interface Token {
+  word: string;
+  trailing: string; // Whitespace after the word
+  start: number;    // Offset of the word in its source text
+  end: number;
+}
+
+export type DiffSegment =
+  | { kind: 'equal'; text: string }
+  // `explained` is false when no Correction accounts for the edit
+  | { kind: 'change'; removed: string; added: string; trailing: string; explained: boolean };
+
+// Words, numbers with inner apostrophes ("don't") and single punctuation marks
+const TOKEN_PATTERN = /[\p{L}\p{N}]+(?:['’][\p{L}\p{N}]+)*|[^\s\p{L}\p{N}]/gu;
+
+const tokenize = (text: string): Token[] => {
+  const tokens: Token[] = [];
+  for (const match of text.matchAll(TOKEN_PATTERN)) {
+    const start = match.index ?? 0;
+    const end = start + match[0].length;
+    const trailing = /^\s*/.exec(text.slice(end))?.[0] ?? '';
+    tokens.push({ word: match[0], trailing, start, end });
+  }
+  return tokens;
+};
+
+// Text of a token run without the whitespace after its last word
+const joinTokens = (tokens: Token[]) =>
+  tokens.map((t, i) => (i === tokens.length - 1 ? t.word : t.word + t.trailing)).join('');
+
+type Op = { kind: 'equal' | 'delete' | 'insert'; token: Token };
+
+type Step = { kind: 'equal'; i: number; j: number } | { kind: 'delete'; i: number } | { kind: 'insert'; j: number };
+
+// The LCS table grows with the product of both lengths. Above this many cells (~16 MB)
+// the differing part is aligned line by line first, and only changed blocks small
+// enough for the table are diffed word by word; larger blocks are replaced whole.
+const MAX_LCS_CELLS = 4_000_000;
+
+// Classic LCS table, walked from the start to produce the edit steps
+const lcsSteps = <T>(a: T[], b: T[], same: (x: T, y: T) => boolean): Step[] => {
+  const n = a.length;
+  const m = b.length;
+  const width = m + 1;
+  const lcs = new Uint32Array((n + 1) * width);
+  for (let i = n - 1; i >= 0; i--) {
+    for (let j = m - 1; j >= 0; j--) {
+      lcs[i * width + j] = same(a[i], b[j])
+        ? lcs[(i + 1) * width + j + 1] + 1
+        : Math.max(lcs[(i + 1) * width + j], lcs[i * width + j + 1]);
+    }
+  }
+
+  const steps: Step[] = [];
+  let i = 0;
+  let j = 0;
+  while (i < n || j < m) {
+    if (i < n && j < m && same(a[i], b[j])) {
+      steps.push({ kind: 'equal', i: i++, j: j++ });
+    } else if (j < m && (i === n || lcs[i * width + j + 1] >= lcs[(i + 1) * width + j])) {
+      steps.push({ kind: 'insert', j: j++ });
+    } else {
+      steps.push({ kind: 'delete', i: i++ });
+    }
+  }
+  return steps;
+};
+
+const replaceWhole = (a: Token[], b: Token[]): Op[] => [
+  ...a.map((token): Op => ({ kind: 'delete', token })),
+  ...b.map((token): Op => ({ kind: 'insert', token })),
+];
+
+const diffByWord = (a: Token[], b: Token[]): Op[] => {
+  if (a.length * b.length > MAX_LCS_CELLS) return replaceWhole(a, b);
+  return lcsSteps(a, b, (x, y) => x.word === y.word)
+    .map(step => step.kind === 'insert' ? { kind: 'insert', token: b[step.j] } : { kind: step.kind, token: a[step.i] });
+};
+
+// A line ends with the token whose trailing whitespace holds a line break
+const splitLines = (tokens: Token[]): Token[][] => {
+  const lines: Token[][] = [[]];
+  tokens.forEach((token, k) => {
+    lines[lines.length - 1].push(token);
+    if (token.trailing.includes('\n') && k < tokens.length - 1) lines.push([]);
+  });
+  return lines.filter(line => line.length > 0);
+};
+
+const diffByLine = (a: Token[], b: Token[]): Op[] => {
+  const linesA = splitLines(a);
+  const linesB = splitLines(b);
+  if (linesA.length * linesB.length > MAX_LCS_CELLS) return replaceWhole(a, b);
+
+  const key = (line: Token[]) => line.map(t => t.word).join(' ');
+  const ops: Op[] = [];
+  let changedA: Token[] = [];
+  let changedB: Token[] = [];
+  const flush = () => {
+    for (const op of diffByWord(changedA, changedB)) ops.push(op);
+    changedA = [];
+    changedB = [];
+  };
+  for (const step of lcsSteps(linesA.map(key), linesB.map(key), (x, y) => x === y)) {
+    if (step.kind === 'equal') {
+      flush();
+      linesA[step.i].forEach(token => ops.push({ kind: 'equal', token }));
+    } else if (step.kind === 'delete') {
+      changedA.push(...linesA[step.i]);
+    } else {
+      changedB.push(...linesB[step.j]);
+    }
+  }
+  flush();
+  return ops;
+};
+
+// Shared prefixes and suffixes are skipped first, then the part that differs is aligned
+const diffTokens = (a: Token[], b: Token[]): Op[] => {
+  let prefix = 0;
+  while (prefix < a.length && prefix < b.length && a[prefix].word === b[prefix].word) prefix++;
+  let suffix = 0;
+  while (
+    suffix < a.length - prefix && suffix < b.length - prefix &&
+    a[a.length - 1 - suffix].word === b[b.length - 1 - suffix].word
+  ) suffix++;
+
+  const midA = a.slice(prefix, a.length - suffix);
+  const midB = b.slice(prefix, b.length - suffix);
+  return [
+    ...a.slice(0, prefix).map((token): Op => ({ kind: 'equal', token })),
+    ...(midA.length * midB.length > MAX_LCS_CELLS ? diffByLine(midA, midB) : diffByWord(midA, midB)),
+    ...a.slice(a.length - suffix).map((token): Op => ({ kind: 'equal', token })),
+  ];
+};
+
+const words = (text: string) => tokenize(text).map(t => t.word.toLowerCase());
+
+// Whether `part` occurs in `text` as a run of whole words, so "a" does not match inside "have"
+const containsWords = (text: string, part: string) => {
+  const haystack = words(text);
+  const needle = words(part);
+  return needle.length > 0 && haystack.some((_, i) => needle.every((word, k) => haystack[i + k] === word));
+};
+
+// An edit is explained when it overlaps an anchored correction; a pure insertion sits in
+// the gap between two words and is explained when that gap lies inside or at the edge of
+// the span. For corrections that could not be anchored, the removed and added words must
+// occur as whole words in the correction's text.
+// Callers pass rejected corrections too: the corrected essay still contains their edits.
+const isExplained = (edit: { from: number; to: number }, removed: string, added: string, corrections: Correction[]) =>
+  corrections.some(c => {
+    if (isAnchored(c)) {
+      return removed
+        ? edit.from < c.end && edit.to > c.start
+        : edit.from <= c.end && edit.to >= c.start;
+    }
+    return (!removed || containsWords(c.originalText, removed)) && (!added || containsWords(c.suggestedText, added));
+  });
+
+export const diffWords = (original: string, corrected: string, corrections: Correction[] = []): DiffSegment[] => {
+  const ops = diffTokens(tokenize(original), tokenize(corrected));
+  const segments: DiffSegment[] = [];
+  // Offset in the original text where the next token would start, and where the previous
+  // one ended; a pure insertion lies between the two
+  let position = 0;
+  let gapStart = 0;
+
+  for (let k = 0; k < ops.length;) {
+    const op = ops[k];
+    if (op.kind === 'equal') {
+      const last = segments[segments.length - 1];
+      const text = op.token.word + op.token.trailing;
+      if (last?.kind === 'equal') last.text += text;
+      else segments.push({ kind: 'equal', text });
+      position = op.token.end + op.token.trailing.length;
+      gapStart = op.token.end;
+      k++;
+      continue;
+    }
+
+    // Collect the whole run of deletions and insertions between two unchanged words
+    const removed: Token[] = [];
+    const added: Token[] = [];
+    while (k < ops.length && ops[k].kind !== 'equal') {
+      (ops[k].kind === 'delete' ? removed : added).push(ops[k].token);
+      k++;
+    }
+    const from = removed.length ? removed[0].start : gapStart;
+    const to = removed.length ? removed[removed.length - 1].end : position;
+    const removedText = joinTokens(removed);
+    const addedText = joinTokens(added);
+    segments.push({
+      kind: 'change',
+      removed: removedText,
+      added: addedText,
+      trailing: (added.length ? added[added.length - 1] : removed[removed.length - 1]).trailing,
+      explained: isExplained({ from, to }, removedText, addedText, corrections),
+    });
+    if (removed.length) {
+      position = to + removed[removed.length - 1].trailing.length;
+      gapStart = to;
+    }
+  }
+  return segments;
+};
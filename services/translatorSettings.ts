@@ -0,0 +1,28 @@
+import { TranslationLanguage, TranslationSource, TRANSLATION_LANGUAGE_LABELS } from "../types";
+
+// --- Translator Settings ---
+// The translator always pairs English with one other language, the learner's own. That
+// language is remembered in localStorage so it does not have to be picked every visit.
+
+const TRANSLATOR_LANGUAGE_KEY = 'ttfotg-translator-language';
+
+export const DEFAULT_TRANSLATOR_LANGUAGE: TranslationSource = 'auto';
+
+// Fallback for translating out of English while the other side is still 'auto'
+export const DEFAULT_TARGET_LANGUAGE: TranslationLanguage = 'ru';
+
+export const isTranslationLanguage = (code: string | undefined): code is TranslationLanguage =>
+  Boolean(code) && code! in TRANSLATION_LANGUAGE_LABELS;
+
+// Display name for a language code; codes outside the list (a detected language) are shown as-is
+export const languageName = (code: string) =>
+  isTranslationLanguage(code) ? TRANSLATION_LANGUAGE_LABELS[code] : code.toUpperCase();
+
+export const loadTranslatorLanguage = (): TranslationSource => {
+  const stored = localStorage.getItem(TRANSLATOR_LANGUAGE_KEY) ?? undefined;
+  return stored === 'auto' || (isTranslationLanguage(stored) && stored !== 'en') ? stored : DEFAULT_TRANSLATOR_LANGUAGE;
+};
+
+export const saveTranslatorLanguage = (language: TranslationSource) => {
+  localStorage.setItem(TRANSLATOR_LANGUAGE_KEY, language);
+};
@@ -0,0 +1,293 @@
+import {
+  EssayAnalysis, Correction, TranslationResult, TranslationSegment, CriterionBand, WritingCriteria, TaskRelevance,
+  SpeakingAnalysis, SpeakingCriteria, PartFeedback, SpeakingPart, CefrLevel, CEFR_LEVELS, CORRECTION_TYPES,
+} from "../types";
+import { CEFR_IELTS_RANGES, formatBand } from "./ieltsScoring";
+
+// --- Response Validation ---
+// Model output is untrusted: check shape, enum values and score ranges before the UI sees it.
+// Validators lightly normalise harmless variations (e.g. a numeric band, lower-case CEFR)
+// and report everything else as issues that can be sent back to the model for repair.
+
+// `value` is null whenever `issues` is non-empty
+export interface ValidationResult<T> {
+  value: T | null;
+  issues: string[];
+}
+
+type Json = Record<string, unknown>;
+
+const isObject = (value: unknown): value is Json =>
+  typeof value === 'object' && value !== null && !Array.isArray(value);
+
+const isString = (value: unknown): value is string => typeof value === 'string';
+
+const isHalfBand = (band: number) => band >= 0 && band <= 9 && Number.isInteger(band * 2);
+
+export const validateCorrection = (value: unknown, path: string, issues: string[]): Correction | null => {
+  if (!isObject(value)) {
+    issues.push(`${path} must be an object.`);
+    return null;
+  }
+  const before = issues.length;
+  for (const field of ['originalText', 'suggestedText', 'explanation'] as const) {
+    if (!isString(value[field])) issues.push(`${path}.${field} must be a string.`);
+  }
+  if (isString(value.originalText) && !value.originalText.trim()) {
+    issues.push(`${path}.originalText must not be empty.`);
+  }
+  const type = isString(value.type) ? value.type.toLowerCase() : value.type;
+  if (!CORRECTION_TYPES.includes(type as Correction['type'])) {
+    issues.push(`${path}.type must be one of ${CORRECTION_TYPES.join(', ')} (got ${JSON.stringify(value.type)}).`);
+  }
+  if (issues.length > before) return null;
+
+  // Only a hint for anchoring speaking corrections, so a bad index is dropped rather than rejected
+  const messageIndex = value.messageIndex;
+  return {
+    originalText: value.originalText as string,
+    suggestedText: value.suggestedText as string,
+    explanation: value.explanation as string,
+    type: type as Correction['type'],
+    ...(Number.isInteger(messageIndex) && (messageIndex as number) >= 0 && { messageIndex: messageIndex as number }),
+  };
+};
+
+const validateCriterion = (value: unknown, path: string, issues: string[]): CriterionBand | null => {
+  if (!isObject(value)) {
+    issues.push(`${path} must be an object.`);
+    return null;
+  }
+  const band = Number(value.band);
+  if (!Number.isInteger(band) || band < 0 || band > 9) {
+    issues.push(`${path}.band must be a whole number from 0 to 9 (got ${JSON.stringify(value.band)}).`);
+    return null;
+  }
+  if (!isString(value.justification)) {
+    issues.push(`${path}.justification must be a string.`);
+    return null;
+  }
+  return { band, justification: value.justification };
+};
+
+const validateCriteria = (value: unknown, issues: string[]): WritingCriteria | undefined => {
+  if (value === undefined) return undefined;
+  if (!isObject(value)) {
+    issues.push(`criteria must be an object.`);
+    return undefined;
+  }
+  const keys: (keyof WritingCriteria)[] = ['taskResponse', 'coherenceCohesion', 'lexicalResource', 'grammaticalRange'];
+  const result: Partial<WritingCriteria> = {};
+  for (const key of keys) {
+    const criterion = validateCriterion(value[key], `criteria.${key}`, issues);
+    if (criterion) result[key] = criterion;
+  }
+  return keys.every(k => result[k]) ? result as WritingCriteria : undefined;
+};
+
+// Pronunciation is only kept when it was asked for, i.e. when the model heard the recording
+const validateSpeakingCriteria = (value: unknown, withPronunciation: boolean, issues: string[]): SpeakingCriteria | undefined => {
+  if (!isObject(value)) {
+    issues.push(`speakingCriteria must be an object.`);
+    return undefined;
+  }
+  const keys: (keyof SpeakingCriteria)[] = ['fluencyCoherence', 'lexicalResource', 'grammaticalRange'];
+  if (withPronunciation) keys.push('pronunciation');
+  const result: Partial<SpeakingCriteria> = {};
+  for (const key of keys) {
+    const criterion = validateCriterion(value[key], `speakingCriteria.${key}`, issues);
+    if (criterion) result[key] = criterion;
+  }
+  return keys.every(k => result[k]) ? result as SpeakingCriteria : undefined;
+};
+
+const validateRelevance = (value: unknown, issues: string[]): TaskRelevance | undefined => {
+  if (value === undefined) return undefined;
+  const verdicts: TaskRelevance['verdict'][] = ['relevant', 'partially-relevant', 'off-topic'];
+  if (!isObject(value) || !verdicts.includes(value.verdict as TaskRelevance['verdict']) || !isString(value.explanation)) {
+    issues.push(`taskRelevance must have a verdict (${verdicts.join(', ')}) and an explanation.`);
+    return undefined;
+  }
+  return { verdict: value.verdict as TaskRelevance['verdict'], explanation: value.explanation };
+};
+
+const validatePartFeedback = (value: unknown, issues: string[]): PartFeedback[] | undefined => {
+  if (value === undefined) return undefined;
+  if (!Array.isArray(value)) {
+    issues.push(`partFeedback must be an array.`);
+    return undefined;
+  }
+  const result: PartFeedback[] = [];
+  value.forEach((item, i) => {
+    const part = isObject(item) ? Number(item.part) : NaN;
+    if (![1, 2, 3].includes(part) || !isString(item.feedback)) {
+      issues.push(`partFeedback[${i}] must have a part (1, 2 or 3) and a feedback string.`);
+      return;
+    }
+    result.push({ part: part as SpeakingPart, feedback: item.feedback });
+  });
+  return result.sort((a, b) => a.part - b.part);
+};
+
+export const validateEssayAnalysis = (
+  value: unknown,
+  required: ('criteria' | 'taskRelevance')[] = []
+): ValidationResult<EssayAnalysis> => {
+  const issues: string[] = [];
+  if (!isObject(value)) {
+    return { value: null, issues: ['The response must be a JSON object.'] };
+  }
+
+  // CEFR level
+  const cefrLevel = isString(value.cefrLevel) ? value.cefrLevel.trim().toUpperCase() : '';
+  if (!CEFR_LEVELS.includes(cefrLevel as CefrLevel)) {
+    issues.push(`cefrLevel must be one of ${CEFR_LEVELS.join(', ')} (got ${JSON.stringify(value.cefrLevel)}).`);
+  }
+
+  // IELTS band, accepted as "6.5" or 6.5
+  const band = typeof value.ieltsScore === 'number' ? value.ieltsScore : parseFloat(String(value.ieltsScore));
+  if (!isHalfBand(band)) {
+    issues.push(`ieltsScore must be a band from 0 to 9 in steps of 0.5 (got ${JSON.stringify(value.ieltsScore)}).`);
+  }
+
+  // With criteria bands the overall band and CEFR level are recomputed from them
+  // (applyWritingBand / applySpeakingBand), so a mismatch here is not worth a repair
+  const bandFromCriteria = value.criteria !== undefined || value.speakingCriteria !== undefined;
+  if (!bandFromCriteria && CEFR_LEVELS.includes(cefrLevel as CefrLevel) && isHalfBand(band)) {
+    const [min, max] = CEFR_IELTS_RANGES[cefrLevel as CefrLevel];
+    if (band < min || band > max) {
+      issues.push(`ieltsScore ${formatBand(band)} does not match CEFR ${cefrLevel}, which maps to IELTS ${formatBand(min)}-${formatBand(max)}.`);
+    }
+  }
+
+  const estimatedScore = Number(value.estimatedScore);
+  if (!Number.isFinite(estimatedScore) || estimatedScore < 0 || estimatedScore > 100) {
+    issues.push(`estimatedScore must be a number from 0 to 100 (got ${JSON.stringify(value.estimatedScore)}).`);
+  }
+
+  if (!isString(value.generalFeedback) || !value.generalFeedback.trim()) {
+    issues.push('generalFeedback must be a non-empty string.');
+  }
+  if (!isString(value.correctedEssay)) {
+    issues.push('correctedEssay must be a string.');
+  }
+
+  const corrections: Correction[] = [];
+  if (!Array.isArray(value.corrections)) {
+    issues.push('corrections must be an array.');
+  } else {
+    value.corrections.forEach((item, i) => {
+      const correction = validateCorrection(item, `corrections[${i}]`, issues);
+      if (correction) corrections.push(correction);
+    });
+  }
+
+  for (const field of required) {
+    if (value[field] === undefined) issues.push(`${field} is required.`);
+  }
+  const criteria = validateCriteria(value.criteria, issues);
+  const taskRelevance = validateRelevance(value.taskRelevance, issues);
+
+  if (issues.length > 0) return { value: null, issues };
+
+  return {
+    issues,
+    value: {
+      cefrLevel,
+      ieltsScore: formatBand(band),
+      estimatedScore: Math.round(estimatedScore),
+      generalFeedback: value.generalFeedback as string,
+      correctedEssay: value.correctedEssay as string,
+      corrections,
+      ...(criteria && { criteria }),
+      ...(taskRelevance && { taskRelevance }),
+    },
+  };
+};
+
+export const validateSpeakingAnalysis = (
+  value: unknown,
+  required: ('partFeedback' | 'pronunciation')[] = []
+): ValidationResult<SpeakingAnalysis> => {
+  const base = validateEssayAnalysis(value);
+  if (!isObject(value)) return { value: null, issues: base.issues };
+
+  const issues = [...base.issues];
+  const speakingCriteria = validateSpeakingCriteria(value.speakingCriteria, required.includes('pronunciation'), issues);
+  if (required.includes('partFeedback') && value.partFeedback === undefined) issues.push('partFeedback is required.');
+  const partFeedback = validatePartFeedback(value.partFeedback, issues);
+
+  if (issues.length > 0) return { value: null, issues };
+
+  return {
+    issues,
+    value: {
+      ...base.value!,
+      speakingCriteria,
+      ...(partFeedback && { partFeedback }),
+    },
+  };
+};
+
+// For streamed previews: keep only the fields that already have the right type,
+// so a half-received response can never break the result views
+export const sanitizePartialAnalysis = (value: Partial<EssayAnalysis>): Partial<EssayAnalysis> => {
+  const partial: Partial<EssayAnalysis> = {};
+  for (const field of ['cefrLevel', 'ieltsScore', 'generalFeedback', 'correctedEssay'] as const) {
+    if (isString(value[field])) partial[field] = value[field];
+  }
+  if (typeof value.estimatedScore === 'number') partial.estimatedScore = value.estimatedScore;
+
+  const ignored: string[] = [];
+  partial.corrections = (Array.isArray(value.corrections) ? value.corrections : [])
+    .map((item, i) => validateCorrection(item, `corrections[${i}]`, ignored))
+    .filter((c): c is Correction => c !== null);
+
+  const criteria = validateCriteria(value.criteria, ignored);
+  if (criteria) partial.criteria = criteria;
+  const taskRelevance = validateRelevance(value.taskRelevance, ignored);
+  if (taskRelevance) partial.taskRelevance = taskRelevance;
+  return partial;
+};
+
+export const validateTranslationResult = (value: unknown): ValidationResult<TranslationResult> => {
+  const issues: string[] = [];
+  if (!isObject(value) || !Array.isArray(value.segments)) {
+    return { value: null, issues: ['The response must be an object with a segments array.'] };
+  }
+
+  const segments: TranslationSegment[] = [];
+  value.segments.forEach((item, i) => {
+    const path = `segments[${i}]`;
+    if (!isObject(item) || !isString(item.text) || !item.text.trim()) {
+      issues.push(`${path}.text must be a non-empty string.`);
+      return;
+    }
+    if (item.definition !== undefined && !isString(item.definition)) {
+      issues.push(`${path}.definition must be a string.`);
+    }
+    if (item.alternatives !== undefined && !Array.isArray(item.alternatives)) {
+      issues.push(`${path}.alternatives must be an array.`);
+      return;
+    }
+    // Alternatives without text are useless in the UI; drop them rather than fail
+    const alternatives = (item.alternatives as unknown[] | undefined)
+      ?.filter((alt): alt is Json => isObject(alt) && isString(alt.text) && Boolean(alt.text.trim()))
+      .map(alt => ({ text: alt.text as string, definition: isString(alt.definition) ? alt.definition : '' }));
+    segments.push({
+      text: item.text,
+      definition: isString(item.definition) ? item.definition : undefined,
+      alternatives,
+    });
+  });
+
+  if (value.detectedLanguage !== undefined && !isString(value.detectedLanguage)) {
+    issues.push('detectedLanguage must be a string.');
+  }
+
+  if (issues.length > 0) return { value: null, issues };
+  return {
+    issues,
+    value: { segments, ...(isString(value.detectedLanguage) && value.detectedLanguage.trim() && { detectedLanguage: value.detectedLanguage.trim().toLowerCase() }) },
+  };
+};
@@ -0,0 +1,29 @@
+// --- WAV Encoder ---
+// Wraps 16-bit mono PCM in a RIFF/WAVE header so recordings play in any browser or player.
+
+const HEADER_BYTES = 44;
+
+export const encodeWav = (samples: Int16Array, sampleRate: number): Blob => {
+  const buffer = new ArrayBuffer(HEADER_BYTES + samples.length * 2);
+  const view = new DataView(buffer);
+  const writeAscii = (offset: number, text: string) => {
+    for (let i = 0; i < text.length; i++) view.setUint8(offset + i, text.charCodeAt(i));
+  };
+
+  writeAscii(0, 'RIFF');
+  view.setUint32(4, 36 + samples.length * 2, true);
+  writeAscii(8, 'WAVE');
+  writeAscii(12, 'fmt ');
+  view.setUint32(16, 16, true);             // fmt chunk size
+  view.setUint16(20, 1, true);              // PCM
+  view.setUint16(22, 1, true);              // Mono
+  view.setUint32(24, sampleRate, true);
+  view.setUint32(28, sampleRate * 2, true); // Byte rate
+  view.setUint16(32, 2, true);              // Block align
+  view.setUint16(34, 16, true);             // Bits per sample
+  writeAscii(36, 'data');
+  view.setUint32(40, samples.length * 2, true);
+  new Int16Array(buffer, HEADER_BYTES).set(samples);
+
+  return new Blob([buffer], { type: 'audio/wav' });
+};
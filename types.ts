@@ -3,6 +3,83 @@ export interface Correction {
   suggestedText: string;
   explanation: string;
   type: 'grammar' | 'spelling' | 'vocabulary' | 'clarity' | 'semantic';
+  start?: number; // Character offset in the analysed text; undefined if it could not be anchored
+  end?: number;   // Exclusive end offset
+  messageIndex?: number; // Speaking: the user turn the error was said in; start/end are then offsets in that message
+}
+
+export interface CriterionBand {
+  band: number;           // Whole band 0-9
+  justification: string;
+}
+
+// The four official IELTS Writing assessment criteria
+export interface WritingCriteria {
+  taskResponse: CriterionBand;       // Task Achievement (Task 1) / Task Response (Task 2)
+  coherenceCohesion: CriterionBand;
+  lexicalResource: CriterionBand;
+  grammaticalRange: CriterionBand;   // Grammatical Range & Accuracy
+}
+
+export const WRITING_CRITERIA_LABELS: Record<keyof WritingCriteria, string> = {
+  taskResponse: 'Task Achievement / Response',
+  coherenceCohesion: 'Coherence & Cohesion',
+  lexicalResource: 'Lexical Resource',
+  grammaticalRange: 'Grammatical Range & Accuracy',
+};
+
+export type WritingTaskType = 'task1-academic' | 'task1-general' | 'task2';
+
+export const WRITING_TASK_LABELS: Record<WritingTaskType, string> = {
+  'task1-academic': 'Task 1 · Academic (chart)',
+  'task1-general': 'Task 1 · General (letter)',
+  'task2': 'Task 2 · Essay',
+};
+
+// Official exam conditions per task
+export const WRITING_TASK_LIMITS: Record<WritingTaskType, { minutes: number; minWords: number }> = {
+  'task1-academic': { minutes: 20, minWords: 150 },
+  'task1-general': { minutes: 20, minWords: 150 },
+  'task2': { minutes: 40, minWords: 250 },
+};
+
+// The data behind an Academic Task 1 chart, given as a table: one row per series or
+// category, one value per column (years, groups...). Values are in `unit`.
+export interface TaskChart {
+  title: string;
+  unit: string;
+  columns: string[];
+  rows: { label: string; values: number[] }[];
+}
+
+export interface WritingTask {
+  id: string;
+  type: WritingTaskType;
+  topic: string;
+  question: string;
+  chart?: TaskChart;   // Academic Task 1: the data the learner describes
+  isCustom?: boolean;  // Added by the user rather than shipped with the app
+}
+
+export interface TaskRelevance {
+  verdict: 'relevant' | 'partially-relevant' | 'off-topic';
+  explanation: string;
+}
+
+export const TASK_RELEVANCE_LABELS: Record<TaskRelevance['verdict'], string> = {
+  'relevant': 'On topic',
+  'partially-relevant': 'Partially relevant',
+  'off-topic': 'Off topic',
+};
+
+export interface ExamResult {
+  taskType: WritingTaskType;
+  timeLimitSeconds: number;
+  elapsedSeconds: number;
+  wordCount: number;
+  minWords: number;
+  autoSubmitted: boolean;   // Submitted because the countdown reached zero
+  lengthPenalty: number;    // Bands deducted from Task Achievement/Response for being under length
 }
 
 export interface EssayAnalysis {
@@ -12,8 +89,56 @@ export interface EssayAnalysis {
   generalFeedback: string;
   correctedEssay: string; // New field for the full corrected version
   corrections: Correction[];
+  dismissedCorrections?: Correction[]; // Rejected by the learner; correctedEssay still contains their edits
+  criteria?: WritingCriteria; // Writing only; ieltsScore is derived from these bands
+  taskRelevance?: TaskRelevance; // Only when the essay was submitted with a task question
+  examResult?: ExamResult;       // Only for essays written in timed exam mode
+}
+
+// The four official IELTS Speaking assessment criteria
+export interface SpeakingCriteria {
+  fluencyCoherence: CriterionBand;
+  lexicalResource: CriterionBand;
+  grammaticalRange: CriterionBand;   // Grammatical Range & Accuracy
+  pronunciation?: CriterionBand;     // Estimated from the recorded answers; missing when the session has no audio
+}
+
+export const SPEAKING_CRITERIA_LABELS: Record<keyof SpeakingCriteria, string> = {
+  fluencyCoherence: 'Fluency & Coherence',
+  lexicalResource: 'Lexical Resource',
+  grammaticalRange: 'Grammatical Range & Accuracy',
+  pronunciation: 'Pronunciation',
+};
+
+// Speaking results share the analysis fields; ieltsScore is derived from the speaking criteria
+export interface SpeakingAnalysis extends EssayAnalysis {
+  speakingCriteria?: SpeakingCriteria; // Missing on sessions analysed before criterion scoring
+  partFeedback?: PartFeedback[];       // One comment per test part in the transcript
+  fluency?: FluencyMetrics;            // Measured locally, not by the model
+}
+
+// Measured from the learner's recorded turns. Timing fields are missing without audio.
+export interface FluencyMetrics {
+  wordCount: number;
+  speakingSeconds?: number;     // Total length of the recorded answers
+  speechRate?: number;          // Words per minute, pauses included
+  articulationRate?: number;    // Words per minute, pauses excluded
+  pauseCount?: number;          // Silences of 0.25 s or more inside answers
+  meanPauseSeconds?: number;
+  longPauseCount?: number;      // Silences of 1 s or more
+  meanLengthOfRun?: number;     // Words spoken between two pauses
+  fillerCount: number;
+  fillersPer100Words: number;
+  fillers: Record<string, number>; // Occurrences of each filler word or phrase
 }
 
+// Ordered from lowest to highest proficiency
+export const CEFR_LEVELS = ['A0', 'A1', 'A2', 'B1', 'B2', 'C1', 'C2'] as const;
+
+export type CefrLevel = typeof CEFR_LEVELS[number];
+
+export const CORRECTION_TYPES: Correction['type'][] = ['grammar', 'spelling', 'vocabulary', 'clarity', 'semantic'];
+
 export enum GeminiModel {
   FLASH_LITE = 'gemini-flash-lite-latest',
   FLASH = 'gemini-2.5-flash',
@@ -26,9 +151,67 @@ export const MODEL_LABELS: Record<GeminiModel, string> = {
   [GeminiModel.PRO_3_0]: 'Gemini 3.0 Pro Preview',
 };
 
+// The three parts of the IELTS Speaking test
+export type SpeakingPart = 1 | 2 | 3;
+
+export const SPEAKING_PART_LABELS: Record<SpeakingPart, string> = {
+  1: 'Part 1 · Interview',
+  2: 'Part 2 · Long turn',
+  3: 'Part 3 · Discussion',
+};
+
+// Position of a recorded turn, in seconds since the session recording started
+export interface AudioSegment {
+  start: number;
+  end: number;
+}
+
 export interface ChatMessage {
   role: 'user' | 'model';
   text: string;
+  part?: SpeakingPart; // Test part the message was spoken in
+  audio?: AudioSegment; // Only while the session recording is still in memory
+}
+
+// Part 2 topic the candidate talks about for up to two minutes
+export interface CueCard {
+  id: string;
+  topic: string;
+  prompt: string;     // "Describe a ..."
+  points: string[];   // "You should say:" bullet points
+}
+
+export interface PartFeedback {
+  part: SpeakingPart;
+  feedback: string;
+}
+
+// Prebuilt Live API voices offered for the examiner
+export type ExaminerVoice = 'Kore' | 'Charon' | 'Aoede' | 'Puck' | 'Orus';
+
+export const EXAMINER_VOICE_LABELS: Record<ExaminerVoice, string> = {
+  Kore: 'Kore · firm',
+  Charon: 'Charon · informative',
+  Aoede: 'Aoede · breezy',
+  Puck: 'Puck · upbeat',
+  Orus: 'Orus · steady',
+};
+
+export type ExaminerAccent = 'british' | 'american' | 'australian' | 'canadian';
+
+export const EXAMINER_ACCENT_LABELS: Record<ExaminerAccent, string> = {
+  british: 'British',
+  american: 'American',
+  australian: 'Australian',
+  canadian: 'Canadian',
+};
+
+// How the examiner sounds and what it asks, chosen before a speaking session
+export interface ExaminerSettings {
+  voice: ExaminerVoice;
+  accent: ExaminerAccent;
+  targetBand: number;  // Questions get harder as the target rises
+  topics: string[];    // Preferred topic areas; empty means any
 }
 
 export interface TranslationAlternative {
@@ -44,7 +227,83 @@ export interface TranslationSegment {
 
 export interface TranslationResult {
   segments: TranslationSegment[];
-  detectedLanguage?: string;
+  detectedLanguage?: string; // ISO 639-1 code of the source text, as detected by the model
 }
 
-export type AppMode = 'writing' | 'speaking' | 'translator';
\ No newline at end of file
+// Languages the translator offers, each paired with English; add an entry to offer another one
+export const TRANSLATION_LANGUAGE_LABELS = {
+  en: 'English',
+  ru: 'Russian',
+  uk: 'Ukrainian',
+  be: 'Belarusian',
+  kk: 'Kazakh',
+  uz: 'Uzbek',
+  ky: 'Kyrgyz',
+  tg: 'Tajik',
+  tk: 'Turkmen',
+  az: 'Azerbaijani',
+  hy: 'Armenian',
+  ka: 'Georgian',
+} as const;
+
+export type TranslationLanguage = keyof typeof TRANSLATION_LANGUAGE_LABELS;
+
+// 'auto' asks the model to detect the source language
+export type TranslationSource = TranslationLanguage | 'auto';
+
+// How well a flashcard was recalled during review
+export type ReviewGrade = 'again' | 'hard' | 'good' | 'easy';
+
+export const REVIEW_GRADE_LABELS: Record<ReviewGrade, string> = {
+  again: 'Again',
+  hard: 'Hard',
+  good: 'Good',
+  easy: 'Easy',
+};
+
+// A word or phrase saved from the translator, with its SM-2 review schedule
+export interface Flashcard {
+  id: string;
+  term: string;               // The translated word or phrase
+  definition: string;         // English definition
+  language: TranslationLanguage; // Language of `term`
+  context?: string;           // The text that was translated
+  createdAt: number;
+  easeFactor: number;         // SM-2 ease; starts at 2.5, never below 1.3
+  intervalDays: number;       // Gap before the next review; 0 until first recalled
+  repetitions: number;        // Successful reviews in a row
+  dueAt: number;              // Next review (ms)
+}
+
+export interface FlashcardDeck {
+  id: string;
+  name: string;
+  createdAt: number;
+  cards: Flashcard[];
+}
+
+export type AppMode = 'writing' | 'speaking' | 'translator' | 'history' | 'notebook' | 'practice' | 'flashcards';
+
+export interface SubmissionRecord {
+  id?: number;
+  mode: 'writing' | 'speaking';
+  text: string;          // Essay text, or the speaking transcript
+  model: GeminiModel;
+  task?: WritingTask;    // Writing only: the question the essay answered
+  createdAt: number;     // Unix timestamp (ms)
+  analysis: EssayAnalysis | SpeakingAnalysis; // SpeakingAnalysis when mode is 'speaking'
+}
+
+// One correction kept in the error notebook; outlives the submission it came from
+export interface MistakeRecord {
+  id?: number;
+  submissionId?: number;
+  mode: SubmissionRecord['mode'];
+  correction: Correction; // Stored without anchor offsets
+  createdAt: number;      // When the analysed text was submitted (ms)
+}
+
+export interface MasteredPattern {
+  pattern: string;        // ErrorPattern key
+  masteredAt: number;
+}